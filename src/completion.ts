@@ -1,59 +1,128 @@
-import { CompletionItem, CompletionItemKind, TextDocumentPositionParams } from 'vscode-languageserver/node';
+import {
+  Command,
+  CompletionItem,
+  CompletionItemKind,
+  InsertTextFormat,
+  MarkupKind,
+  TextDocumentPositionParams,
+} from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { SchemaCache } from './schema-cache';
-import { parseContext, SQLContext, getSQLKeywords } from './sql-parser';
+import { CachedTable, SchemaCache } from './schema-cache';
+import { SnowflakeConnection } from './snowflake';
+import { parseContext, DdlClause, ParsedContext, SQLContext, VirtualTableKind, getSQLKeywords } from './sql-parser';
+import { Token, TokenType, tokenIndexAt, isKeyword } from './sql-lexer';
 import { SessionContext } from './session-context';
+import { lookupColumns, resolveVirtualColumns } from './virtual-tables';
+import { makeQualifiedName, parseQualifiedName, quoteIdentifier } from './identifiers';
+import { DocumentCache } from './document-cache';
+import { FunctionCategory, formatSignature, functionSnippet, searchFunctions } from './functions';
+import { JoinConfidence, suggestJoinConditions } from './join-conditions';
+import { rank, scoreSortText } from './ranking';
+import { PropertyValueSource, getColumnOptions, getDataTypes, getObjectProperties, getObjectProperty } from './ddl';
+
+/**
+ * Data of table and view items, whose documentation is built on completionItem/resolve
+ */
+export interface CompletionItemData {
+  kind: 'table' | 'view';
+  qualifiedName: string;  // DATABASE.SCHEMA.NAME
+  note?: string;          // Session context marker, e.g. ✓ Current schema
+}
+
+// Command attached to ranked items; the client runs it when the item is accepted
+export const RECORD_COMPLETION_COMMAND = 'snowflake.recordCompletion';
+
+// Columns listed in resolved table documentation
+const MAX_RESOLVED_COLUMNS = 50;
+
+// Contexts that complete columns of the tables in scope
+const COLUMN_CONTEXTS = [
+  SQLContext.SELECT_LIST, SQLContext.WHERE_CLAUSE, SQLContext.HAVING_CLAUSE, SQLContext.QUALIFY_CLAUSE,
+  SQLContext.JOIN_ON, SQLContext.GROUP_BY, SQLContext.ORDER_BY, SQLContext.TABLE_DOT,
+  SQLContext.INSERT_COLUMNS, SQLContext.INSERT_VALUES, SQLContext.UPDATE_SET,
+];
+
+// How long completion waits for columns and keys to load; slower fetches still fill the cache
+const COLUMN_LOAD_TIMEOUT_MS = 2000;
 
 export class CompletionProvider {
-  constructor(private schemaCache: SchemaCache) {}
+  constructor(
+    private schemaCache: SchemaCache,
+    private snowflakeConnection: SnowflakeConnection,
+    private documentCache: DocumentCache
+  ) {}
 
   /**
    * Provide completion items based on cursor position
+   * Schemas of other databases and their tables are fetched on first use (async).
    */
-  provideCompletions(
+  async provideCompletions(
     document: TextDocument,
     params: TextDocumentPositionParams,
     context?: SessionContext
-  ): CompletionItem[] {
+  ): Promise<CompletionItem[]> {
     try {
-      const text = document.getText();
+      const { text, tokens, statements, scopeTree } = this.documentCache.get(document);
       const offset = document.offsetAt(params.position);
 
-      // Parse the SQL context
-      const parsed = parseContext(text, offset);
-
-      // Check for query history trigger patterns
-      const beforeCursor = text.substring(0, offset);
-      const lastLine = beforeCursor.split('\n').pop() || '';
+      // Parse the SQL context; X. is a database unless X is also a schema of the current database
+      const isDatabase = (name: string) => this.schemaCache.isDatabase(name) &&
+        !(context?.database && this.schemaCache.getSchema(context.database, parseQualifiedName(name)[0]));
+      const parsed = parseContext(text, offset, tokens, statements, scopeTree, isDatabase);
 
-      // If line starts with comment and contains 'history', show query history
-      if (/^\s*--\s*history/i.test(lastLine) || /\bqh:/i.test(lastLine)) {
+      // If cursor is in a "-- history" comment or after "qh:", show query history
+      if (this.isQueryHistoryTrigger(tokens, offset, parsed)) {
         return this.getQueryHistoryCompletions(parsed.currentWord);
       }
 
+      // Columns of tables in scope are fetched on first use
+      if (COLUMN_CONTEXTS.includes(parsed.context)) {
+        await this.loadColumnsInScope(parsed, context);
+      }
+      if (parsed.context === SQLContext.JOIN_ON) {
+        await this.loadKeysInScope(parsed, context);
+      }
+
       // Generate completions based on context
       const completions: CompletionItem[] = [];
 
       try {
         switch (parsed.context) {
+          case SQLContext.LITERAL:
+            // No completions inside strings and comments
+            break;
+
+          case SQLContext.VARIABLE:
+            // Suggest session variables set before the cursor
+            completions.push(...this.getVariableCompletions(parsed.currentWord, context));
+            break;
+
+          case SQLContext.BIND_VARIABLE:
+            // Suggest scripting variables, arguments and cursors declared before the cursor
+            completions.push(...this.getBindCompletions(parsed.currentWord, parsed));
+            break;
+
           case SQLContext.FROM_CLAUSE:
-            // Suggest table names and schemas, prioritized by session context if available
-            if (context) {
-              completions.push(...this.getTableCompletionsWithContext(parsed.currentWord, context));
-            } else {
-              completions.push(...this.getTableCompletions(parsed.currentWord));
-            }
+            // Suggest table names and schemas, ranked by match, session context and usage
+            completions.push(...this.getTableCompletions(parsed.currentWord, context));
             completions.push(...this.getSchemaCompletions(parsed.currentWord));
+            completions.push(...this.getCTECompletions(parsed.currentWord, parsed));
+            completions.push(...this.getFunctionCompletions(parsed.currentWord, [FunctionCategory.TABLE]));
             break;
 
           case SQLContext.TABLE_DOT:
-            // Suggest columns for the table or alias
-            completions.push(...this.getColumnCompletionsForTable(parsed.currentWord, parsed.aliases));
+            // Suggest columns for the table, alias or CTE
+            completions.push(...this.getColumnCompletionsForTable(parsed.qualifier!, parsed));
+            break;
+
+          case SQLContext.DATABASE_DOT:
+            // Suggest schemas of the database
+            completions.push(...await this.getSchemaCompletionsForDatabase(parsed.qualifier!, this.namePrefix(parsed.currentWord)));
             break;
 
           case SQLContext.SCHEMA_DOT:
-            // Suggest tables in schema
-            completions.push(...this.getTableCompletionsForSchema(parsed.currentWord));
+            // Suggest tables and views in schema (schema. or database.schema.)
+            completions.push(...await this.getObjectCompletionsForSchema(parsed.qualifier!, this.namePrefix(parsed.currentWord), context));
             break;
 
           case SQLContext.USE_WAREHOUSE:
@@ -81,23 +150,83 @@ export class CompletionProvider {
             completions.push(...this.getUserCompletions(parsed.currentWord));
             break;
 
+          case SQLContext.JOIN_ON:
+            // Suggest complete join predicates first, then everything an expression can use
+            completions.push(...this.getJoinConditionCompletions(parsed.currentWord, parsed, offset, context));
+            completions.push(...this.getColumnCompletions(parsed.currentWord, parsed.tablesInScope, context));
+            completions.push(...this.getVirtualColumnCompletions(parsed.currentWord, parsed));
+            completions.push(...this.getFunctionCompletions(parsed.currentWord));
+            completions.push(...this.getKeywordCompletions(parsed.currentWord));
+            break;
+
+          case SQLContext.INSERT_COLUMNS:
+            // Suggest the target's columns not listed yet, and all of them at once
+            completions.push(...this.getTargetColumnCompletions(parsed, context, false));
+            break;
+
+          case SQLContext.UPDATE_SET:
+            // Suggest the target's columns not assigned yet
+            completions.push(...this.getTargetColumnCompletions(parsed, context, true));
+            break;
+
+          case SQLContext.INSERT_VALUES:
+            // Values are expressions over the MERGE source, if any; signature help shows the target column
+            if (parsed.tablesInScope.length > 0) {
+              completions.push(...this.getColumnCompletions(parsed.currentWord, parsed.tablesInScope, context));
+            }
+            completions.push(...this.getFunctionCompletions(parsed.currentWord));
+            completions.push(...this.getKeywordCompletions(parsed.currentWord));
+            break;
+
+          case SQLContext.DATA_TYPE:
+            // Suggest data types, with placeholders for precision, scale and length
+            completions.push(...this.getDataTypeCompletions(parsed.currentWord));
+            break;
+
+          case SQLContext.COLUMN_OPTION:
+            // Suggest constraints and options that follow a column's data type
+            completions.push(...this.getColumnOptionCompletions(parsed.currentWord));
+            break;
+
+          case SQLContext.OBJECT_PROPERTY:
+            // Suggest properties of the table, warehouse, stage, task or file format
+            completions.push(...this.getObjectPropertyCompletions(parsed.currentWord, parsed.ddl!));
+            break;
+
+          case SQLContext.PROPERTY_VALUE:
+            // Suggest allowed values of the property
+            completions.push(...this.getPropertyValueCompletions(parsed.currentWord, parsed.ddl!));
+            break;
+
           case SQLContext.SELECT_LIST:
           case SQLContext.WHERE_CLAUSE:
-            // Suggest columns from tables in scope and SQL keywords
-            completions.push(...this.getColumnCompletions(parsed.currentWord, parsed.tablesInScope));
+          case SQLContext.HAVING_CLAUSE:
+          case SQLContext.QUALIFY_CLAUSE:
+            // Suggest columns from tables in scope, functions and SQL keywords
+            completions.push(...this.getColumnCompletions(parsed.currentWord, parsed.tablesInScope, context));
+            completions.push(...this.getVirtualColumnCompletions(parsed.currentWord, parsed));
+            completions.push(...this.getFunctionCompletions(parsed.currentWord));
+            completions.push(...this.getKeywordCompletions(parsed.currentWord));
+            break;
+
+          case SQLContext.GROUP_BY:
+          case SQLContext.ORDER_BY:
+            // Suggest columns from tables in scope, then the clause's own keywords
+            completions.push(...this.getColumnCompletions(parsed.currentWord, parsed.tablesInScope, context));
+            completions.push(...this.getVirtualColumnCompletions(parsed.currentWord, parsed));
+            completions.push(...this.getClauseKeywordCompletions(parsed.currentWord, parsed.context));
+            completions.push(...this.getFunctionCompletions(parsed.currentWord));
             completions.push(...this.getKeywordCompletions(parsed.currentWord));
             break;
 
           case SQLContext.GENERAL:
           default:
-            // Suggest SQL keywords, tables, schemas, and columns
+            // Suggest SQL keywords, functions, tables, schemas, and columns
             completions.push(...this.getKeywordCompletions(parsed.currentWord));
-            if (context) {
-              completions.push(...this.getTableCompletionsWithContext(parsed.currentWord, context));
-            } else {
-              completions.push(...this.getTableCompletions(parsed.currentWord));
-            }
+            completions.push(...this.getFunctionCompletions(parsed.currentWord));
+            completions.push(...this.getTableCompletions(parsed.currentWord, context));
             completions.push(...this.getSchemaCompletions(parsed.currentWord));
+            completions.push(...this.getCTECompletions(parsed.currentWord, parsed));
             break;
         }
       } catch (error) {
@@ -113,65 +242,210 @@ export class CompletionProvider {
   }
 
   /**
-   * Get table name completions
+   * Add documentation to the focused table or view item (completionItem/resolve)
+   * Columns of tables and views are loaded on demand here, so the completion list itself stays fast.
    */
-  private getTableCompletions(prefix: string): CompletionItem[] {
-    const tables = this.schemaCache.searchTables(prefix, 50);
+  async resolveCompletionItem(item: CompletionItem): Promise<CompletionItem> {
+    const data = item.data as CompletionItemData | undefined;
+    if (!data) return item;
 
-    return tables.map(table => ({
-      label: table.info.name,
-      kind: CompletionItemKind.Class,
-      detail: `${table.info.schema}.${table.info.name}`,
-      documentation: `Table in ${table.info.schema} schema\nType: ${table.info.type}\nColumns: ${table.columns.length}`,
-      insertText: table.info.name,
-    }));
+    try {
+      const table = this.schemaCache.getTable(data.qualifiedName);
+      if (!table) return item;
+
+      if (!this.schemaCache.hasColumns(data.qualifiedName)) {
+        await this.schemaCache.ensureColumnsLoaded(
+          data.qualifiedName,
+          (db, schema, tbl) => this.snowflakeConnection.fetchColumnsForTable(db, schema, tbl)
+        );
+      }
+      item.documentation = { kind: MarkupKind.Markdown, value: this.createTableDocumentation(table, data.note) };
+    } catch (error) {
+      console.error(`Failed to resolve completion item ${data.qualifiedName}:`, error);
+    }
+
+    return item;
   }
 
   /**
-   * Get table name completions with session context prioritization
-   * Prioritizes tables from current schema (✓), then current database (•), then others
+   * Load the columns of all tables in scope, including those read by CTEs and derived tables
+   * and the target of INSERT, UPDATE and MERGE statements.
+   * Waits at most COLUMN_LOAD_TIMEOUT_MS; failed fetches are logged and leave the table without columns.
    */
-  private getTableCompletionsWithContext(prefix: string, context: SessionContext): CompletionItem[] {
-    const allTables = this.schemaCache.searchTables(prefix, 100);
+  private async loadColumnsInScope(parsed: ParsedContext, context?: SessionContext): Promise<void> {
+    const names = new Set(parsed.tablesInScope);
+    for (const virtual of parsed.virtualTables.values()) {
+      virtual.scope.tables.forEach(ref => names.add(ref.name));
+    }
+    if (parsed.context === SQLContext.TABLE_DOT && parsed.qualifier) {
+      names.add(parsed.aliases.get(parsed.qualifier) || parsed.qualifier);
+    }
+    if (parsed.dmlTarget) {
+      names.add(parsed.dmlTarget.table);
+    }
 
-    // Separate into 3 priority groups
-    const currentSchema: CompletionItem[] = [];
-    const currentDatabase: CompletionItem[] = [];
-    const others: CompletionItem[] = [];
+    const loads: Promise<void>[] = [];
+    for (const name of names) {
+      if (parsed.virtualTables.has(name)) continue;
+      const table = this.schemaCache.getTable(name, context);
+      if (!table || this.schemaCache.hasColumns(table.qualifiedName)) continue;
 
-    for (const table of allTables) {
-      const item: CompletionItem = {
-        label: table.info.name,
-        kind: CompletionItemKind.Class,
-        detail: `${table.info.catalog}.${table.info.schema}.${table.info.name}`,
-        documentation: `Table in ${table.info.schema} schema\nType: ${table.info.type}\nColumns: ${table.columns.length}`,
-        insertText: table.info.name,
-      };
+      loads.push(this.schemaCache.ensureColumnsLoaded(
+        table.qualifiedName,
+        (db, schema, tbl) => this.snowflakeConnection.fetchColumnsForTable(db, schema, tbl)
+      ).catch(error => console.error(`Failed to load columns for ${table.qualifiedName}:`, error)));
+    }
+    await this.awaitLoads(loads);
+  }
 
-      // Check if table is in current schema (highest priority)
-      if (context.database && context.schema &&
-          table.info.catalog.toUpperCase() === context.database.toUpperCase() &&
-          table.info.schema.toUpperCase() === context.schema.toUpperCase()) {
-        item.sortText = `0_${table.info.name}`;
-        item.documentation = `✓ Current schema\n${item.documentation}`;
-        currentSchema.push(item);
-      }
-      // Check if table is in current database (medium priority)
-      else if (context.database &&
-               table.info.catalog.toUpperCase() === context.database.toUpperCase()) {
-        item.sortText = `1_${table.info.name}`;
-        item.documentation = `• Current database\n${item.documentation}`;
-        currentDatabase.push(item);
+  /**
+   * Load the declared primary and foreign keys of the tables in scope (for join predicates)
+   */
+  private async loadKeysInScope(parsed: ParsedContext, context?: SessionContext): Promise<void> {
+    const loads: Promise<void>[] = [];
+    for (const ref of parsed.scope.tables) {
+      const table = parsed.virtualTables.has(ref.name) ? undefined : this.schemaCache.getTable(ref.name, context);
+      if (!table || this.schemaCache.getTableKeys(table.qualifiedName)) continue;
+
+      loads.push(this.schemaCache.ensureKeysLoaded(
+        table.qualifiedName,
+        (db, schema, tbl) => this.snowflakeConnection.fetchPrimaryKeys(db, schema, tbl),
+        (db, schema, tbl) => this.snowflakeConnection.fetchImportedKeys(db, schema, tbl)
+      ).catch(error => console.error(`Failed to load keys for ${table.qualifiedName}:`, error)));
+    }
+    await this.awaitLoads(loads);
+  }
+
+  /**
+   * Wait for lazy loads, but at most COLUMN_LOAD_TIMEOUT_MS
+   */
+  private async awaitLoads(loads: Promise<void>[]): Promise<void> {
+    if (loads.length === 0) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, COLUMN_LOAD_TIMEOUT_MS);
+    });
+    await Promise.race([Promise.all(loads), timeout]);
+    clearTimeout(timer);
+  }
+
+  /**
+   * Get join predicate completions for the table joined last (after JOIN ... ON)
+   * Ranked by confidence: declared foreign keys, key naming conventions, then shared column names.
+   */
+  private getJoinConditionCompletions(
+    prefix: string,
+    parsed: ParsedContext,
+    offset: number,
+    context?: SessionContext
+  ): CompletionItem[] {
+    const lowerPrefix = prefix.toLowerCase();
+
+    return suggestJoinConditions(parsed, offset, this.schemaCache, context)
+      .filter(condition => condition.predicate.toLowerCase().startsWith(lowerPrefix))
+      .map(condition => ({
+        label: condition.predicate,
+        kind: CompletionItemKind.Snippet,
+        detail: condition.reason,
+        insertText: condition.predicate,
+        sortText: `${JoinConfidence.FOREIGN_KEY - condition.confidence}_${condition.predicate}`,
+        preselect: condition.confidence === JoinConfidence.FOREIGN_KEY,
+      }));
+  }
+
+  /**
+   * Create the data of a table item, resolved later by resolveCompletionItem
+   */
+  private tableData(table: CachedTable, note?: string): CompletionItemData {
+    return { kind: table.view ? 'view' : 'table', qualifiedName: table.qualifiedName, note };
+  }
+
+  /**
+   * Create markdown documentation for a table or view: metadata, comment, columns and view definition
+   */
+  private createTableDocumentation(table: CachedTable, note?: string): string {
+    const info = table.info;
+    const lines: string[] = [];
+
+    if (note) lines.push(note, '');
+    lines.push(`**${table.qualifiedName}** (${table.view?.is_secure ? 'SECURE ' : ''}${info.kind || info.type})`, '');
+    if (info.rows !== null && info.rows !== undefined) lines.push(`Rows: ${info.rows.toLocaleString()}  `);
+    if (info.owner) lines.push(`Owner: ${info.owner}`);
+    if (info.comment) lines.push('', info.comment);
+    lines.push('');
+
+    if (table.columns.length === 0) {
+      lines.push('_No columns loaded_');
+    } else {
+      lines.push(`**Columns** (${table.columns.length})`);
+      for (const column of table.columns.slice(0, MAX_RESOLVED_COLUMNS)) {
+        lines.push(`- \`${column.columnName}\` ${column.dataType}${column.comment ? ` — ${column.comment}` : ''}`);
       }
-      // Other tables (lowest priority)
-      else {
-        item.sortText = `2_${table.info.name}`;
-        others.push(item);
+      if (table.columns.length > MAX_RESOLVED_COLUMNS) {
+        lines.push(`- _… ${table.columns.length - MAX_RESOLVED_COLUMNS} more_`);
       }
     }
 
-    // Return with current schema first, then current database, then others
-    return [...currentSchema, ...currentDatabase, ...others];
+    if (table.view?.definition) lines.push('', '```sql', table.view.definition, '```');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Check if the cursor is in a "-- history" comment or after "qh:" on the same line
+   */
+  private isQueryHistoryTrigger(tokens: Token[], offset: number, parsed: ParsedContext): boolean {
+    if (parsed.context === SQLContext.LITERAL) {
+      return parsed.cursorToken?.type === TokenType.LINE_COMMENT &&
+             /^--\s*history/i.test(parsed.cursorToken.text);
+    }
+
+    for (let i = tokenIndexAt(tokens, offset); i > 0; i--) {
+      if (tokens[i].type === TokenType.WHITESPACE && tokens[i].text.includes('\n')) break;
+      if (tokens[i].text === ':' && isKeyword(tokens[i - 1], 'QH')) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Get the part of a dotted word after the last dot, without an opening quote
+   */
+  private namePrefix(word: string): string {
+    return word.substring(word.lastIndexOf('.') + 1).replace(/^"/, '');
+  }
+
+  /**
+   * Get table name completions, best matches first
+   * Tables from the current schema (✓) and current database (•) and tables used often rank higher.
+   */
+  private getTableCompletions(prefix: string, context?: SessionContext): CompletionItem[] {
+    return this.schemaCache.searchTables(prefix, 100, context).map(({ item: table, score }) => ({
+      label: table.info.name,
+      kind: table.view ? CompletionItemKind.Interface : CompletionItemKind.Class,
+      detail: `${table.info.catalog}.${table.info.schema}.${table.info.name}`,
+      insertText: quoteIdentifier(table.info.name),
+      filterText: table.info.name,
+      sortText: scoreSortText(score, table.info.name),
+      data: this.tableData(table, this.contextNote(table, context)),
+      command: this.recordCommand(table.qualifiedName),
+    }));
+  }
+
+  /**
+   * Get the session context marker of a table, if it is in the current schema or database
+   */
+  private contextNote(table: CachedTable, context?: SessionContext): string | undefined {
+    if (!context?.database || table.info.catalog !== context.database) return undefined;
+    return table.info.schema === context.schema ? '✓ Current schema' : '• Current database';
+  }
+
+  /**
+   * Create the command that counts an accepted item towards its usage ranking
+   */
+  private recordCommand(name: string): Command {
+    return { title: 'Record completion', command: RECORD_COMPLETION_COMMAND, arguments: [name] };
   }
 
   /**
@@ -185,70 +459,234 @@ export class CompletionProvider {
       kind: CompletionItemKind.Module,
       detail: `Schema: ${schema}`,
       documentation: `Database schema`,
-      insertText: schema,
+      insertText: quoteIdentifier(schema),
     }));
   }
 
   /**
-   * Get tables for a specific schema
+   * Get schema completions for a database (after database.)
+   * The database name is in qualified name form (e.g., ANALYTICS or "Analytics")
    */
-  private getTableCompletionsForSchema(schemaPrefix: string): CompletionItem[] {
-    // Extract schema name from prefix (e.g., "SCHEMA_NAME.")
-    const parts = schemaPrefix.split('.');
-    if (parts.length < 1) return [];
+  private async getSchemaCompletionsForDatabase(databaseName: string, schemaPrefix: string): Promise<CompletionItem[]> {
+    const [database] = parseQualifiedName(databaseName);
 
-    const schemaName = parts[0];
-    const tablePrefix = parts[1] || '';
+    try {
+      await this.schemaCache.ensureSchemasLoaded(database, db => this.snowflakeConnection.fetchSchemas(db));
+    } catch (error) {
+      console.error(`Failed to load schemas for ${databaseName}:`, error);
+    }
 
-    const tables = this.schemaCache.searchTables(tablePrefix);
-    const filtered = tables.filter(t =>
-      t.info.schema.toUpperCase() === schemaName.toUpperCase()
-    );
+    const lowerPrefix = schemaPrefix.toLowerCase();
+    const schemas = Array.from(this.schemaCache.getDatabase(database)?.schemas.values() || [])
+      .filter(schema => schema.name.toLowerCase().startsWith(lowerPrefix));
+
+    return schemas.map(schema => ({
+      label: schema.name,
+      kind: CompletionItemKind.Module,
+      detail: `Schema in ${database}`,
+      documentation: schema.info
+        ? `Schema: ${database}.${schema.name}\nOwner: ${schema.info.owner}\nCreated: ${schema.info.created_on}${schema.info.comment ? `\nComment: ${schema.info.comment}` : ''}`
+        : `Schema: ${database}.${schema.name}`,
+      insertText: quoteIdentifier(schema.name),
+    }));
+  }
+
+  /**
+   * Get table and view completions for a schema (after schema. or database.schema.)
+   * Unqualified schemas are in the session's current database; without one, schemas
+   * of that name in any cached database are used.
+   */
+  private async getObjectCompletionsForSchema(
+    qualifier: string,
+    objectPrefix: string,
+    context?: SessionContext
+  ): Promise<CompletionItem[]> {
+    const parts = parseQualifiedName(qualifier);
+    const database = parts.length === 2 ? parts[0] : context?.database;
+    const schemaName = parts[parts.length - 1];
+    if (!database) {
+      return this.getTableCompletionsForSchema(qualifier, objectPrefix);
+    }
+
+    await this.awaitLoads([this.schemaCache.ensureSchemaObjectsLoaded(
+      database,
+      schemaName,
+      (db, schema) => this.snowflakeConnection.fetchTablesInSchema(db, schema),
+      (db, schema) => this.snowflakeConnection.fetchViewsInSchema(db, schema)
+    ).catch(error => console.error(`Failed to load objects for ${database}.${schemaName}:`, error))]);
+
+    const schema = this.schemaCache.getSchema(database, schemaName);
+    if (!schema) {
+      return parts.length === 1 ? this.getTableCompletionsForSchema(qualifier, objectPrefix) : [];
+    }
 
-    return filtered.map(table => ({
+    const tables = rank(schema.tables.values(), objectPrefix, table => table.info.name,
+      table => this.schemaCache.getUsageScore(table.qualifiedName)
+    ).map(({ item: table, score }) => ({
       label: table.info.name,
       kind: CompletionItemKind.Class,
+      detail: `${database}.${schemaName}.${table.info.name}`,
+      insertText: quoteIdentifier(table.info.name),
+      filterText: table.info.name,
+      sortText: scoreSortText(score, table.info.name),
+      data: this.tableData(table),
+      command: this.recordCommand(table.qualifiedName),
+    }));
+    const views = rank(schema.views.values(), objectPrefix, view => view.name,
+      view => this.schemaCache.getUsageScore(makeQualifiedName(view.catalog, view.schema, view.name))
+    ).map(({ item: view, score }) => ({
+      label: view.name,
+      kind: CompletionItemKind.Interface,
+      detail: `${database}.${schemaName}.${view.name}`,
+      insertText: quoteIdentifier(view.name),
+      filterText: view.name,
+      sortText: scoreSortText(score, view.name),
+      data: { kind: 'view', qualifiedName: makeQualifiedName(view.catalog, view.schema, view.name) } as CompletionItemData,
+      command: this.recordCommand(makeQualifiedName(view.catalog, view.schema, view.name)),
+    }));
+
+    return [...tables, ...views];
+  }
+
+  /**
+   * Get tables and views for a specific schema
+   * The schema name is in qualified name form (e.g., SALES or "Sales")
+   */
+  private getTableCompletionsForSchema(schemaName: string, tablePrefix: string): CompletionItem[] {
+    const tables = this.schemaCache.searchTables(tablePrefix, Infinity);
+    const filtered = tables.filter(({ item: t }) =>
+      quoteIdentifier(t.info.schema) === schemaName
+    );
+
+    return filtered.slice(0, 100).map(({ item: table, score }) => ({
+      label: table.info.name,
+      kind: table.view ? CompletionItemKind.Interface : CompletionItemKind.Class,
       detail: `${table.info.schema}.${table.info.name}`,
-      documentation: `Table in ${table.info.schema} schema\nColumns: ${table.columns.length}`,
-      insertText: table.info.name,
+      insertText: quoteIdentifier(table.info.name),
+      filterText: table.info.name,
+      sortText: scoreSortText(score, table.info.name),
+      data: this.tableData(table),
+      command: this.recordCommand(table.qualifiedName),
     }));
   }
 
   /**
-   * Get column completions
+   * Get column completions, best matches and most used columns first
    */
-  private getColumnCompletions(prefix: string, tablesInScope: string[]): CompletionItem[] {
-    const columns = this.schemaCache.searchColumns(prefix, tablesInScope, 50);
+  private getColumnCompletions(prefix: string, tablesInScope: string[], context?: SessionContext): CompletionItem[] {
+    const columns = this.schemaCache.searchColumns(prefix, tablesInScope, 50, context);
 
-    return columns.map(column => ({
+    return columns.map(({ item: column, score }) => ({
       label: column.info.columnName,
       kind: CompletionItemKind.Field,
       detail: `${column.info.tableName}.${column.info.columnName}`,
       documentation: `Column: ${column.info.dataType}\nTable: ${column.info.tableName}\nNullable: ${column.info.isNullable}`,
-      insertText: column.info.columnName,
+      insertText: quoteIdentifier(column.info.columnName),
+      filterText: column.info.columnName,
+      sortText: scoreSortText(score, column.info.columnName),
+      command: this.recordCommand(quoteIdentifier(column.info.columnName)),
     }));
   }
 
   /**
-   * Get column completions for a specific table or alias (after table. or alias.)
+   * Get completions for the columns of an INSERT column list or SET clause, in table order
+   * Columns already listed or assigned are left out. In an INSERT column list one more item
+   * inserts all remaining columns; in a SET clause items insert `column = `.
    */
-  private getColumnCompletionsForTable(tablePrefix: string, aliases: Map<string, string>): CompletionItem[] {
-    // Extract identifier from prefix (e.g., "a." -> "a")
-    const parts = tablePrefix.split('.');
-    if (parts.length < 1) return [];
+  private getTargetColumnCompletions(parsed: ParsedContext, context: SessionContext | undefined, assign: boolean): CompletionItem[] {
+    const target = parsed.dmlTarget;
+    const table = target ? this.schemaCache.getTable(target.table, context) : undefined;
+    if (!target || !table) return [];
+
+    const listed = new Set(target.listedColumns);
+    const remaining = table.columns.filter(column => !listed.has(column.columnName));
+    const items: CompletionItem[] = remaining.map((column, index) => ({
+      label: column.columnName,
+      kind: CompletionItemKind.Field,
+      detail: column.dataType,
+      documentation: `Column of ${table.qualifiedName}\nType: ${column.dataType}\nNullable: ${column.isNullable}${column.columnDefault ? `\nDefault: ${column.columnDefault}` : ''}`,
+      insertText: assign ? `${quoteIdentifier(column.columnName)} = ` : quoteIdentifier(column.columnName),
+      sortText: `1_${String(index).padStart(4, '0')}`,
+    }));
+
+    if (!assign && remaining.length > 1) {
+      items.unshift({
+        label: `All ${remaining.length} columns`,
+        kind: CompletionItemKind.Snippet,
+        detail: remaining.map(column => column.columnName).join(', '),
+        filterText: remaining[0].columnName,
+        insertText: remaining.map(column => quoteIdentifier(column.columnName)).join(', '),
+        sortText: '0',
+        preselect: target.listedColumns.length === 0,
+      });
+    }
 
-    const identifier = parts[0];
+    return items;
+  }
 
-    // Check if it's an alias first
-    const actualTableName = aliases.get(identifier.toLowerCase()) || identifier;
+  /**
+   * Get column completions for CTEs and derived tables referenced in FROM/JOIN clauses
+   */
+  private getVirtualColumnCompletions(prefix: string, parsed: ParsedContext): CompletionItem[] {
+    const lowerPrefix = prefix.toLowerCase();
+    const completions: CompletionItem[] = [];
+
+    for (const tableName of new Set(parsed.tablesInScope)) {
+      const cte = parsed.virtualTables.get(tableName);
+      if (!cte) continue;
+
+      const columns = resolveVirtualColumns(cte, this.schemaCache)
+        .filter(column => column.columnName.toLowerCase().startsWith(lowerPrefix));
+      completions.push(...columns.map(column => ({
+        label: column.columnName,
+        kind: CompletionItemKind.Field,
+        detail: `${cte.name}.${column.columnName}`,
+        documentation: `Column: ${column.dataType}\n${this.virtualTableLabel(cte.kind)}: ${cte.name}`,
+        insertText: quoteIdentifier(column.columnName),
+      })));
+    }
 
-    // Try to find the table
-    const table = this.schemaCache.getTable(actualTableName);
-    if (!table) {
-      return [];
+    return completions;
+  }
+
+  /**
+   * Get the display name of a kind of virtual table
+   */
+  private virtualTableLabel(kind: VirtualTableKind): string {
+    switch (kind) {
+      case VirtualTableKind.CTE: return 'CTE';
+      case VirtualTableKind.TABLE_FUNCTION: return 'Table function';
+      default: return 'Subquery';
     }
+  }
+
+  /**
+   * Get CTE name completions
+   */
+  private getCTECompletions(prefix: string, parsed: ParsedContext): CompletionItem[] {
+    const lowerPrefix = prefix.toLowerCase();
 
-    return this.createColumnCompletionsFromTable(table.columns);
+    return Array.from(parsed.virtualTables.values())
+      .filter(cte => cte.kind === VirtualTableKind.CTE && cte.name.toLowerCase().startsWith(lowerPrefix))
+      .map(cte => {
+        const columns = resolveVirtualColumns(cte, this.schemaCache);
+        return {
+          label: cte.name,
+          kind: CompletionItemKind.Class,
+          detail: 'Common table expression',
+          documentation: `CTE defined in this statement\nColumns: ${columns.map(c => c.columnName).join(', ')}`,
+          insertText: cte.name,
+          sortText: `0_${cte.name}`,
+        };
+      });
+  }
+
+  /**
+   * Get column completions for a specific table, alias or CTE (after table. or alias.)
+   * The qualifier is in qualified name form (e.g., "a." -> A)
+   */
+  private getColumnCompletionsForTable(qualifier: string, parsed: ParsedContext): CompletionItem[] {
+    return this.createColumnCompletionsFromTable(lookupColumns(qualifier, parsed, this.schemaCache));
   }
 
   /**
@@ -260,7 +698,167 @@ export class CompletionProvider {
       kind: CompletionItemKind.Field,
       detail: column.dataType,
       documentation: `Type: ${column.dataType}\nNullable: ${column.isNullable}${column.columnDefault ? `\nDefault: ${column.columnDefault}` : ''}`,
-      insertText: column.columnName,
+      insertText: quoteIdentifier(column.columnName),
+    }));
+  }
+
+  /**
+   * Get session variable completions (after $)
+   */
+  private getVariableCompletions(prefix: string, context?: SessionContext): CompletionItem[] {
+    if (!context) return [];
+
+    const upperPrefix = prefix.toUpperCase();
+    return Array.from(context.variables.values())
+      .filter(variable => variable.name.toUpperCase().startsWith(upperPrefix))
+      .map(variable => ({
+        label: `$${variable.name}`,
+        kind: CompletionItemKind.Variable,
+        detail: variable.dataType,
+        documentation: `Value: ${variable.value}\nSet on line ${variable.line + 1}`,
+        filterText: variable.name,
+        insertText: variable.name,
+      }));
+  }
+
+  /**
+   * Get Snowflake Scripting variable completions (after :)
+   */
+  private getBindCompletions(prefix: string, parsed: ParsedContext): CompletionItem[] {
+    const upperPrefix = prefix.toUpperCase();
+    return Array.from(parsed.scriptVariables.values())
+      .filter(variable => variable.name.toUpperCase().startsWith(upperPrefix))
+      .map(variable => ({
+        label: `:${variable.name}`,
+        kind: CompletionItemKind.Variable,
+        detail: variable.dataType || variable.kind,
+        documentation: variable.value ? `${variable.kind}\nValue: ${variable.value}` : variable.kind,
+        filterText: variable.name,
+        insertText: quoteIdentifier(variable.name),
+      }));
+  }
+
+  /**
+   * Get keywords that continue a GROUP BY or ORDER BY clause
+   */
+  private getClauseKeywordCompletions(prefix: string, context: SQLContext): CompletionItem[] {
+    const keywords = context === SQLContext.GROUP_BY
+      ? ['ALL', 'ROLLUP', 'CUBE', 'GROUPING SETS', 'HAVING', 'QUALIFY', 'ORDER BY']
+      : ['ASC', 'DESC', 'NULLS FIRST', 'NULLS LAST', 'LIMIT'];
+    const lowerPrefix = prefix.toLowerCase();
+
+    return keywords
+      .filter(kw => kw.toLowerCase().startsWith(lowerPrefix))
+      .map(keyword => ({
+        label: keyword,
+        kind: CompletionItemKind.Keyword,
+        insertText: keyword,
+        sortText: `1_${keyword}`,
+      }));
+  }
+
+  /**
+   * Get built-in function completions, inserting a call with parameter placeholders
+   */
+  private getFunctionCompletions(prefix: string, categories?: FunctionCategory[]): CompletionItem[] {
+    return searchFunctions(prefix, categories).map(fn => ({
+      label: fn.name,
+      kind: CompletionItemKind.Function,
+      detail: formatSignature(fn),
+      documentation: `${fn.description}\nCategory: ${fn.category}`,
+      insertText: functionSnippet(fn),
+      insertTextFormat: InsertTextFormat.Snippet,
+    }));
+  }
+
+  /**
+   * Get data type completions
+   */
+  private getDataTypeCompletions(prefix: string): CompletionItem[] {
+    const upperPrefix = prefix.toUpperCase();
+    return getDataTypes()
+      .filter(type => type.name.startsWith(upperPrefix))
+      .map(type => ({
+        label: type.name,
+        kind: CompletionItemKind.TypeParameter,
+        detail: type.description,
+        insertText: type.snippet,
+        insertTextFormat: InsertTextFormat.Snippet,
+      }));
+  }
+
+  /**
+   * Get completions for the constraints and options of a column definition
+   */
+  private getColumnOptionCompletions(prefix: string): CompletionItem[] {
+    const upperPrefix = prefix.toUpperCase();
+    return getColumnOptions()
+      .filter(option => option.label.startsWith(upperPrefix) || option.snippet.startsWith(upperPrefix))
+      .map(option => ({
+        label: option.label,
+        kind: CompletionItemKind.Keyword,
+        documentation: option.description,
+        insertText: option.snippet,
+        insertTextFormat: InsertTextFormat.Snippet,
+      }));
+  }
+
+  /**
+   * Get property name completions of a CREATE or ALTER statement, inserting `NAME = `
+   * Properties set to a parenthesized list insert the parentheses.
+   */
+  private getObjectPropertyCompletions(prefix: string, ddl: DdlClause): CompletionItem[] {
+    const upperPrefix = prefix.toUpperCase();
+    return getObjectProperties(ddl.objectKind)
+      .filter(property => property.name.startsWith(upperPrefix))
+      .map(property => ({
+        label: property.name,
+        kind: CompletionItemKind.Property,
+        detail: property.values.length > 0 ? property.values.join(' | ') : `${ddl.objectKind} property`,
+        documentation: property.description,
+        insertText: property.name.includes(' ') ? `${property.name} (\${1})`
+          : property.nested ? `${property.name} = (\${1})`
+          : `${property.name} = `,
+        insertTextFormat: InsertTextFormat.Snippet,
+      }));
+  }
+
+  /**
+   * Get completions for the value of a property
+   * Warehouse sizes in use in the account come first; TASK ... WAREHOUSE = lists the warehouses.
+   */
+  private getPropertyValueCompletions(prefix: string, ddl: DdlClause): CompletionItem[] {
+    const property = ddl.property ? getObjectProperty(ddl.objectKind, ddl.property) : undefined;
+    if (!property) return [];
+
+    const upperPrefix = prefix.toUpperCase();
+    const matches = (value: string) => value.replace(/^'/, '').startsWith(upperPrefix);
+
+    if (property.source === PropertyValueSource.WAREHOUSE_NAMES) {
+      return this.schemaCache.searchWarehouses(prefix).map(warehouse => ({
+        label: warehouse.name,
+        kind: CompletionItemKind.Constant,
+        detail: `${warehouse.size} (${warehouse.state})`,
+        insertText: quoteIdentifier(warehouse.name),
+      }));
+    }
+
+    // Sizes as written in SQL ('X-SMALL'), with the number of warehouses of that size
+    const used = new Map<string, number>();
+    if (property.source === PropertyValueSource.WAREHOUSE_SIZES) {
+      for (const warehouse of this.schemaCache.getWarehouses()) {
+        const size = `'${warehouse.size.toUpperCase()}'`;
+        used.set(size, (used.get(size) || 0) + 1);
+      }
+    }
+
+    const values = [...property.values, ...Array.from(used.keys()).filter(size => !property.values.includes(size))];
+    return values.filter(matches).map((value, index) => ({
+      label: value,
+      kind: CompletionItemKind.EnumMember,
+      detail: used.has(value) ? `Used by ${used.get(value)} warehouse(s)` : property.name,
+      insertText: value,
+      sortText: `${used.has(value) ? 0 : 1}_${String(index).padStart(3, '0')}`,
     }));
   }
 
@@ -290,8 +888,8 @@ export class CompletionProvider {
       label: warehouse.name,
       kind: CompletionItemKind.Constant,
       detail: `${warehouse.size} (${warehouse.state})`,
-      documentation: `Warehouse: ${warehouse.name}\nSize: ${warehouse.size}\nState: ${warehouse.state}\nAuto Suspend: ${warehouse.auto_suspend || 'N/A'} min\nAuto Resume: ${warehouse.auto_resume}`,
-      insertText: warehouse.name,
+      documentation: `Warehouse: ${warehouse.name}\nSize: ${warehouse.size}\nState: ${warehouse.state}\nAuto Suspend: ${warehouse.auto_suspend ? `${warehouse.auto_suspend} seconds` : 'Never'}\nAuto Resume: ${warehouse.auto_resume}`,
+      insertText: quoteIdentifier(warehouse.name),
     }));
   }
 
@@ -306,7 +904,7 @@ export class CompletionProvider {
       kind: CompletionItemKind.EnumMember,
       detail: role.is_current ? `${role.name} (current)` : role.name,
       documentation: `Role: ${role.name}\nAssigned to ${role.assigned_to_users} user(s)\nGranted to ${role.granted_to_roles} role(s)\nOwner: ${role.owner}`,
-      insertText: role.name,
+      insertText: quoteIdentifier(role.name),
     }));
   }
 
@@ -321,7 +919,7 @@ export class CompletionProvider {
       kind: CompletionItemKind.Value,
       detail: user.display_name || user.name,
       documentation: `User: ${user.name}\nLogin: ${user.login_name}\nEmail: ${user.email}\nDisabled: ${user.disabled}`,
-      insertText: user.name,
+      insertText: quoteIdentifier(user.name),
     }));
   }
 
@@ -336,7 +934,7 @@ export class CompletionProvider {
       kind: CompletionItemKind.Module,
       detail: `Database: ${db.name}`,
       documentation: `Database: ${db.name}\nOwner: ${db.owner}\nCreated: ${db.created_on}\nRetention: ${db.retention_time} day(s)${db.comment ? `\nComment: ${db.comment}` : ''}`,
-      insertText: db.name,
+      insertText: quoteIdentifier(db.name),
     }));
   }
 
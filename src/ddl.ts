@@ -0,0 +1,239 @@
+export interface DataTypeInfo {
+  name: string;
+  snippet: string;      // Inserted text, with placeholders for type parameters
+  description: string;
+}
+
+export interface ColumnOption {
+  label: string;        // e.g. MASKING POLICY
+  snippet: string;
+  description: string;
+}
+
+// Where the allowed values of a property come from besides the catalog
+export enum PropertyValueSource {
+  WAREHOUSE_NAMES,  // Warehouses in the schema cache
+  WAREHOUSE_SIZES,  // Sizes of warehouses in the schema cache (WarehouseInfo.size)
+}
+
+// Object types of GET_DDL; functions and procedures are named with their argument types
+export enum DdlObjectType {
+  DATABASE = 'DATABASE',
+  SCHEMA = 'SCHEMA',
+  TABLE = 'TABLE',
+  VIEW = 'VIEW',
+  FUNCTION = 'FUNCTION',
+  PROCEDURE = 'PROCEDURE',
+  SEQUENCE = 'SEQUENCE',
+  STAGE = 'STAGE',
+  TASK = 'TASK',
+  PIPE = 'PIPE',
+  STREAM = 'STREAM',
+  FILE_FORMAT = 'FILE_FORMAT',
+  WAREHOUSE = 'WAREHOUSE',
+}
+
+export interface ObjectProperty {
+  name: string;
+  values: string[];          // Allowed values; empty if any number, string or name goes
+  description: string;
+  nested?: string;           // Kind of the properties inside NAME = (...), e.g. FILE FORMAT
+  source?: PropertyValueSource;
+}
+
+// [name, type parameters snippet, description]
+const DATA_TYPES: [string, string, string][] = [
+  ['NUMBER', '(${1:38}, ${2:0})', 'Fixed-point number with precision (1-38) and scale.'],
+  ['DECIMAL', '(${1:38}, ${2:0})', 'Synonym for NUMBER.'],
+  ['NUMERIC', '(${1:38}, ${2:0})', 'Synonym for NUMBER.'],
+  ['INT', '', 'NUMBER(38, 0).'],
+  ['INTEGER', '', 'NUMBER(38, 0).'],
+  ['BIGINT', '', 'NUMBER(38, 0).'],
+  ['SMALLINT', '', 'NUMBER(38, 0).'],
+  ['TINYINT', '', 'NUMBER(38, 0).'],
+  ['BYTEINT', '', 'NUMBER(38, 0).'],
+  ['FLOAT', '', 'Double-precision (64 bit) floating-point number.'],
+  ['FLOAT4', '', 'Synonym for FLOAT.'],
+  ['FLOAT8', '', 'Synonym for FLOAT.'],
+  ['DOUBLE', '', 'Synonym for FLOAT.'],
+  ['DOUBLE PRECISION', '', 'Synonym for FLOAT.'],
+  ['REAL', '', 'Synonym for FLOAT.'],
+  ['VARCHAR', '(${1:16777216})', 'Unicode string with a maximum length in characters.'],
+  ['CHAR', '(${1:1})', 'VARCHAR with a default length of 1.'],
+  ['CHARACTER', '(${1:1})', 'Synonym for CHAR.'],
+  ['STRING', '', 'Synonym for VARCHAR.'],
+  ['TEXT', '', 'Synonym for VARCHAR.'],
+  ['BINARY', '(${1:8388608})', 'Binary string with a maximum length in bytes.'],
+  ['VARBINARY', '(${1:8388608})', 'Synonym for BINARY.'],
+  ['BOOLEAN', '', 'TRUE, FALSE or NULL.'],
+  ['DATE', '', 'Calendar date without time.'],
+  ['DATETIME', '', 'Synonym for TIMESTAMP_NTZ.'],
+  ['TIME', '(${1:9})', 'Time of day with fractional seconds precision (0-9).'],
+  ['TIMESTAMP', '(${1:9})', 'Alias for the timestamp type set by TIMESTAMP_TYPE_MAPPING (TIMESTAMP_NTZ by default).'],
+  ['TIMESTAMP_LTZ', '(${1:9})', 'Timestamp stored in UTC, shown in the session time zone.'],
+  ['TIMESTAMP_NTZ', '(${1:9})', 'Timestamp without time zone ("wallclock" time).'],
+  ['TIMESTAMP_TZ', '(${1:9})', 'Timestamp with a time zone offset.'],
+  ['VARIANT', '', 'Semi-structured value of any type, up to 16 MB.'],
+  ['OBJECT', '', 'Key-value pairs with VARCHAR keys and VARIANT values.'],
+  ['ARRAY', '', 'Array of VARIANT values.'],
+  ['GEOGRAPHY', '', 'Geospatial object on the Earth\'s surface (WGS 84).'],
+  ['GEOMETRY', '', 'Geospatial object in a planar coordinate system.'],
+  ['VECTOR', '(${1|FLOAT,INT|}, ${2:256})', 'Fixed-length vector of FLOAT or INT elements.'],
+];
+
+// [label, snippet, description]
+const COLUMN_OPTIONS: [string, string, string][] = [
+  ['NOT NULL', 'NOT NULL', 'The column does not allow NULL values.'],
+  ['NULL', 'NULL', 'The column allows NULL values (default).'],
+  ['DEFAULT', 'DEFAULT ${1:expr}', 'Value used when an INSERT does not specify the column.'],
+  ['IDENTITY', 'IDENTITY(${1:1}, ${2:1})', 'Auto-incremented values (start, step); synonym for AUTOINCREMENT.'],
+  ['AUTOINCREMENT', 'AUTOINCREMENT START ${1:1} INCREMENT ${2:1}', 'Auto-incremented values.'],
+  ['COLLATE', 'COLLATE \'${1:en-ci}\'', 'Collation used to compare and sort the column\'s strings.'],
+  ['PRIMARY KEY', 'PRIMARY KEY', 'Primary key constraint (not enforced).'],
+  ['UNIQUE', 'UNIQUE', 'Unique constraint (not enforced).'],
+  ['REFERENCES', 'REFERENCES ${1:table} (${2:column})', 'Foreign key constraint (not enforced).'],
+  ['COMMENT', 'COMMENT \'${1}\'', 'Comment on the column.'],
+  ['MASKING POLICY', 'WITH MASKING POLICY ${1:policy}', 'Masking policy applied when the column is queried.'],
+  ['PROJECTION POLICY', 'WITH PROJECTION POLICY ${1:policy}', 'Projection policy controlling whether the column can be selected.'],
+  ['TAG', 'WITH TAG (${1:tag} = \'${2:value}\')', 'Tags set on the column.'],
+];
+
+const BOOLEAN = 'TRUE|FALSE';
+
+// [name, allowed values separated by |, description] by object kind
+const PROPERTIES: Record<string, [string, string, string][]> = {
+  'TABLE': [
+    ['CLUSTER BY', '', 'Clustering key: CLUSTER BY (expr, ...).'],
+    ['DATA_RETENTION_TIME_IN_DAYS', '', 'Days of Time Travel history kept for the table.'],
+    ['MAX_DATA_EXTENSION_TIME_IN_DAYS', '', 'Days Snowflake may extend retention to keep streams from going stale.'],
+    ['CHANGE_TRACKING', BOOLEAN, 'Record change tracking metadata for streams and CHANGES.'],
+    ['DEFAULT_DDL_COLLATION', '', 'Default collation of the table\'s string columns.'],
+    ['ENABLE_SCHEMA_EVOLUTION', BOOLEAN, 'Let COPY and Snowpipe add columns from loaded files.'],
+    ['STAGE_FILE_FORMAT', '', 'File format of the table stage: (TYPE = ...) or (FORMAT_NAME = ...).'],
+    ['STAGE_COPY_OPTIONS', '', 'Copy options of the table stage.'],
+    ['COMMENT', '', 'Comment on the table.'],
+  ],
+  'WAREHOUSE': [
+    ['WAREHOUSE_SIZE', '\'X-SMALL\'|\'SMALL\'|\'MEDIUM\'|\'LARGE\'|\'X-LARGE\'|\'2X-LARGE\'|\'3X-LARGE\'|\'4X-LARGE\'|\'5X-LARGE\'|\'6X-LARGE\'', 'Compute resources per cluster.'],
+    ['WAREHOUSE_TYPE', 'STANDARD|\'SNOWPARK-OPTIMIZED\'', 'Standard, or with more memory per node for Snowpark.'],
+    ['MAX_CLUSTER_COUNT', '', 'Maximum number of clusters of a multi-cluster warehouse.'],
+    ['MIN_CLUSTER_COUNT', '', 'Minimum number of clusters of a multi-cluster warehouse.'],
+    ['SCALING_POLICY', 'STANDARD|ECONOMY', 'How clusters are started and shut down.'],
+    ['AUTO_SUSPEND', '', 'Seconds of inactivity before the warehouse suspends; NULL never suspends.'],
+    ['AUTO_RESUME', BOOLEAN, 'Resume automatically when a statement is submitted.'],
+    ['INITIALLY_SUSPENDED', BOOLEAN, 'Create the warehouse suspended.'],
+    ['RESOURCE_MONITOR', '', 'Resource monitor that controls the warehouse\'s credits.'],
+    ['ENABLE_QUERY_ACCELERATION', BOOLEAN, 'Use the query acceleration service.'],
+    ['QUERY_ACCELERATION_MAX_SCALE_FACTOR', '', 'Upper bound of the query acceleration service, as a multiple of the size.'],
+    ['MAX_CONCURRENCY_LEVEL', '', 'Concurrent queries per cluster before queuing.'],
+    ['STATEMENT_QUEUED_TIMEOUT_IN_SECONDS', '', 'Seconds a statement can be queued before it is canceled.'],
+    ['STATEMENT_TIMEOUT_IN_SECONDS', '', 'Seconds a statement can run before it is canceled.'],
+    ['COMMENT', '', 'Comment on the warehouse.'],
+  ],
+  'STAGE': [
+    ['URL', '', 'Location of an external stage, e.g. \'s3://bucket/path/\'.'],
+    ['STORAGE_INTEGRATION', '', 'Storage integration used to access the external location.'],
+    ['CREDENTIALS', '', 'Credentials for the external location, when no storage integration is used.'],
+    ['ENCRYPTION', '', 'Encryption of the staged files: (TYPE = ...).'],
+    ['FILE_FORMAT', '', 'File format of the staged files: (TYPE = ...) or (FORMAT_NAME = ...).'],
+    ['COPY_OPTIONS', '', 'Default options of COPY INTO from this stage.'],
+    ['DIRECTORY', '', 'Directory table of the stage: (ENABLE = TRUE ...).'],
+    ['COMMENT', '', 'Comment on the stage.'],
+  ],
+  'TASK': [
+    ['WAREHOUSE', '', 'Warehouse that runs the task; omit for serverless tasks.'],
+    ['USER_TASK_MANAGED_INITIAL_WAREHOUSE_SIZE', '\'X-SMALL\'|\'SMALL\'|\'MEDIUM\'|\'LARGE\'|\'X-LARGE\'|\'2X-LARGE\'', 'Initial compute size of a serverless task.'],
+    ['SCHEDULE', '', 'Interval or cron schedule, e.g. \'60 MINUTE\' or \'USING CRON 0 9 * * * UTC\'.'],
+    ['CONFIG', '', 'JSON configuration shared by the tasks of a graph.'],
+    ['ALLOW_OVERLAPPING_EXECUTION', BOOLEAN, 'Allow a run to start while the previous one is still running.'],
+    ['USER_TASK_TIMEOUT_MS', '', 'Milliseconds a run can take before it times out.'],
+    ['SUSPEND_TASK_AFTER_NUM_FAILURES', '', 'Consecutive failed runs after which the task is suspended.'],
+    ['TASK_AUTO_RETRY_ATTEMPTS', '', 'Automatic retries of a failed task graph.'],
+    ['ERROR_INTEGRATION', '', 'Notification integration for task errors.'],
+    ['COMMENT', '', 'Comment on the task.'],
+  ],
+  'FILE FORMAT': [
+    ['TYPE', 'CSV|JSON|AVRO|ORC|PARQUET|XML', 'Format of the data files.'],
+    ['FORMAT_NAME', '', 'Named file format to use instead of inline options.'],
+    ['COMPRESSION', 'AUTO|GZIP|BZ2|BROTLI|ZSTD|DEFLATE|RAW_DEFLATE|SNAPPY|NONE', 'Compression of the data files.'],
+    ['RECORD_DELIMITER', '', 'Characters that separate records, e.g. \'\\n\'.'],
+    ['FIELD_DELIMITER', '', 'Characters that separate fields, e.g. \',\'.'],
+    ['FILE_EXTENSION', '', 'Extension of unloaded files.'],
+    ['PARSE_HEADER', BOOLEAN, 'Use the first line for column names (schema detection).'],
+    ['SKIP_HEADER', '', 'Number of header lines to skip.'],
+    ['SKIP_BLANK_LINES', BOOLEAN, 'Skip blank lines in the data files.'],
+    ['DATE_FORMAT', '', 'Format of date values, or AUTO.'],
+    ['TIME_FORMAT', '', 'Format of time values, or AUTO.'],
+    ['TIMESTAMP_FORMAT', '', 'Format of timestamp values, or AUTO.'],
+    ['BINARY_FORMAT', 'HEX|BASE64|UTF8', 'Encoding of binary values.'],
+    ['ESCAPE', '', 'Escape character for enclosed field values.'],
+    ['ESCAPE_UNENCLOSED_FIELD', '', 'Escape character for unenclosed field values.'],
+    ['TRIM_SPACE', BOOLEAN, 'Remove white space around field values.'],
+    ['FIELD_OPTIONALLY_ENCLOSED_BY', 'NONE|\'"\'|\'\\\'\'', 'Character that encloses strings.'],
+    ['NULL_IF', '', 'Strings that are loaded as NULL, e.g. (\'\', \'NULL\').'],
+    ['ERROR_ON_COLUMN_COUNT_MISMATCH', BOOLEAN, 'Fail when a record has a different number of fields than the table.'],
+    ['EMPTY_FIELD_AS_NULL', BOOLEAN, 'Load empty fields as NULL.'],
+    ['ENCODING', '', 'Character set of the data files, e.g. \'UTF8\'.'],
+    ['STRIP_OUTER_ARRAY', BOOLEAN, 'Load each element of a top-level JSON array as a row.'],
+    ['STRIP_NULL_VALUES', BOOLEAN, 'Remove JSON object fields and array elements that are null.'],
+    ['COMMENT', '', 'Comment on the file format.'],
+  ],
+  'COPY OPTIONS': [
+    ['ON_ERROR', 'CONTINUE|SKIP_FILE|ABORT_STATEMENT', 'What to do when a file contains errors.'],
+    ['SIZE_LIMIT', '', 'Maximum bytes loaded by one statement.'],
+    ['PURGE', BOOLEAN, 'Remove files from the stage after they are loaded.'],
+    ['MATCH_BY_COLUMN_NAME', 'CASE_SENSITIVE|CASE_INSENSITIVE|NONE', 'Load semi-structured data into columns of the same name.'],
+    ['ENFORCE_LENGTH', BOOLEAN, 'Fail on strings longer than the target column.'],
+    ['TRUNCATECOLUMNS', BOOLEAN, 'Truncate strings longer than the target column.'],
+    ['FORCE', BOOLEAN, 'Load files even if they were loaded before.'],
+  ],
+};
+
+// Properties whose value is a parenthesized list of properties of another kind
+const NESTED_KINDS: Record<string, string> = {
+  FILE_FORMAT: 'FILE FORMAT',
+  STAGE_FILE_FORMAT: 'FILE FORMAT',
+  COPY_OPTIONS: 'COPY OPTIONS',
+  STAGE_COPY_OPTIONS: 'COPY OPTIONS',
+};
+
+// Properties whose values also come from the schema cache
+const VALUE_SOURCES: Record<string, PropertyValueSource> = {
+  'WAREHOUSE.WAREHOUSE_SIZE': PropertyValueSource.WAREHOUSE_SIZES,
+  'TASK.WAREHOUSE': PropertyValueSource.WAREHOUSE_NAMES,
+  'TASK.USER_TASK_MANAGED_INITIAL_WAREHOUSE_SIZE': PropertyValueSource.WAREHOUSE_SIZES,
+};
+
+/**
+ * Get all data types
+ */
+export function getDataTypes(): DataTypeInfo[] {
+  return DATA_TYPES.map(([name, params, description]) => ({ name, snippet: `${name}${params}`, description }));
+}
+
+/**
+ * Get the options that can follow the data type in a column definition
+ */
+export function getColumnOptions(): ColumnOption[] {
+  return COLUMN_OPTIONS.map(([label, snippet, description]) => ({ label, snippet, description }));
+}
+
+/**
+ * Get the properties of an object kind (e.g. WAREHOUSE), empty for unknown kinds
+ */
+export function getObjectProperties(kind: string): ObjectProperty[] {
+  return (PROPERTIES[kind] || []).map(([name, values, description]) => ({
+    name,
+    values: values ? values.split('|') : [],
+    description,
+    nested: NESTED_KINDS[name],
+    source: VALUE_SOURCES[`${kind}.${name}`],
+  }));
+}
+
+/**
+ * Get a property of an object kind by name (case-insensitive)
+ */
+export function getObjectProperty(kind: string, name: string): ObjectProperty | undefined {
+  return getObjectProperties(kind).find(property => property.name === name.toUpperCase());
+}
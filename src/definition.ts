@@ -1,29 +1,55 @@
 import { Definition, Location, TextDocumentPositionParams } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { SchemaCache } from './schema-cache';
-import { parseContext } from './sql-parser';
+import { parseContext, SQLContext } from './sql-parser';
+import { normalizeName, parseQualifiedName } from './identifiers';
+import { DocumentCache } from './document-cache';
 
 export class DefinitionProvider {
-  constructor(private schemaCache: SchemaCache) {}
+  constructor(
+    private schemaCache: SchemaCache,
+    private documentCache: DocumentCache
+  ) {}
 
   /**
    * Provide definition location for symbol at cursor
    * Note: For schema metadata (tables/columns), we don't have actual file locations,
    * so this will return undefined. The hover provider shows the information instead.
+   * CTEs and Snowflake Scripting variables resolve to their definition in the document.
    */
   provideDefinition(
     document: TextDocument,
     params: TextDocumentPositionParams
   ): Definition | undefined {
-    const text = document.getText();
+    const { text, tokens, statements, scopeTree } = this.documentCache.get(document);
     const offset = document.offsetAt(params.position);
 
     // Parse context to get current word
-    const parsed = parseContext(text, offset);
+    const parsed = parseContext(text, offset, tokens, statements, scopeTree);
     const word = parsed.currentWord;
 
     if (!word) return undefined;
 
+    // Scripting variables (:name) are declared in the enclosing block or procedure
+    if (parsed.context === SQLContext.BIND_VARIABLE) {
+      const variable = parsed.scriptVariables.get(parseQualifiedName(word)[0]);
+      return variable
+        ? Location.create(document.uri, {
+            start: document.positionAt(variable.start),
+            end: document.positionAt(variable.end),
+          })
+        : undefined;
+    }
+
+    // CTEs are defined in the document itself
+    const cte = parsed.virtualTables.get(normalizeName(word));
+    if (cte) {
+      return Location.create(document.uri, {
+        start: document.positionAt(cte.start),
+        end: document.positionAt(cte.end),
+      });
+    }
+
     // Check if it's a table
     const table = this.schemaCache.getTable(word);
     if (table) {
@@ -33,11 +59,10 @@ export class DefinitionProvider {
     }
 
     // Check if it's a column
+    const columnName = parseQualifiedName(word).pop();
     for (const tableName of parsed.tablesInScope) {
       const columns = this.schemaCache.getTableColumns(tableName);
-      const column = columns.find(c =>
-        c.columnName.toLowerCase() === word.toLowerCase()
-      );
+      const column = columns.find(c => c.columnName === columnName);
 
       if (column) {
         // For columns, we don't have file locations
@@ -1,41 +1,84 @@
 import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { SchemaCache } from './schema-cache';
-import { parseContext } from './sql-parser';
+import { findCommonTableExpression, flattenScopes } from './sql-parser';
+import { Token, TokenType } from './sql-lexer';
+import { isScriptingBlock, splitBlockStatements } from './scripting';
+import { SessionContextManager } from './session-context';
+import { makeQualifiedName, parseQualifiedName } from './identifiers';
+import { DocumentCache } from './document-cache';
 import { spawn } from 'child_process';
 
 export class DiagnosticsProvider {
   private sqlfluffEnabled: boolean;
 
-  constructor(private schemaCache: SchemaCache) {
+  constructor(
+    private schemaCache: SchemaCache,
+    private documentCache: DocumentCache
+  ) {
     // Check if sqlfluff is enabled via environment variable
     this.sqlfluffEnabled = process.env.SNOWFLAKE_LSP_ENABLE_SQLFLUFF === 'true';
   }
 
   /**
    * Validate document and return diagnostics
+   * Table references are resolved against the session context in effect at each reference.
    */
-  async provideDiagnostics(document: TextDocument): Promise<Diagnostic[]> {
+  async provideDiagnostics(document: TextDocument, sessionContext?: SessionContextManager): Promise<Diagnostic[]> {
     const diagnostics: Diagnostic[] = [];
-    const text = document.getText();
+    const parsed = this.documentCache.get(document);
+    const { text, tokens } = parsed;
 
     // Extract table references and validate they exist (semantic checks)
-    const tableRefs = this.extractTableReferences(text);
-    for (const ref of tableRefs) {
-      // Try to find the table with multiple strategies
-      const exists = this.schemaCache.tableExists(ref.name) ||
-                     this.schemaCache.tableExists(ref.name.toUpperCase()) ||
-                     this.schemaCache.tableExists(ref.name.toLowerCase());
-
-      if (!exists) {
+    // Statements nested in scripting blocks are checked on their own
+    const statements = parsed.statements
+      .flatMap(statement => isScriptingBlock(statement) ? splitBlockStatements(statement) : [statement]);
+    const tableRefs = statements
+      .flatMap(statement => flattenScopes(parsed.scopeTree(statement)))
+      .flatMap(scope =>
+        // References to CTEs visible from the query are not schema objects
+        scope.tables.filter(ref => ref.name.includes('.') || !findCommonTableExpression(scope, ref.name))
+      );
+    const contexts = sessionContext?.getContextsAt(document.uri, tableRefs.map(ref => ref.start));
+    for (const [i, ref] of tableRefs.entries()) {
+      const context = contexts?.[i];
+      const table = this.schemaCache.getTable(ref.name, context);
+      const range = {
+        start: document.positionAt(ref.start),
+        end: document.positionAt(ref.end),
+      };
+
+      if (!table) {
         // Only show as hint, not error - table might exist but not in cache
         diagnostics.push({
           severity: DiagnosticSeverity.Hint,
-          range: ref.range,
+          range,
           message: `Table '${ref.name}' not found in schema cache (might still be valid)`,
           source: 'snowflake-lsp',
         });
+        continue;
       }
+
+      // Found elsewhere, but the current database (as set by preceding USE commands) is cached without it
+      const parts = parseQualifiedName(ref.name);
+      if (context?.database && context.schema && parts.length < 3 &&
+          !this.schemaCache.resolveInContext(parts, context) &&
+          this.schemaCache.hasTablesInDatabase(context.database)) {
+        const location = parts.length === 1
+          ? makeQualifiedName(context.database, context.schema)
+          : makeQualifiedName(context.database, parts[0]);
+        diagnostics.push({
+          severity: DiagnosticSeverity.Hint,
+          range,
+          message: `Table '${ref.name}' not found in ${location} (found ${table.qualifiedName})`,
+          source: 'snowflake-lsp',
+        });
+      }
+    }
+
+    // Session variables must be SET before they are referenced
+    if (sessionContext) {
+      diagnostics.push(...this.validateVariables(document, tokens, sessionContext));
     }
 
     // Skip column validation for now - it's too complex and error-prone
@@ -55,6 +98,27 @@ export class DiagnosticsProvider {
     return diagnostics;
   }
 
+  /**
+   * Flag $name references to session variables not set before them
+   * Positional references ($1) to staged file columns are not variables.
+   */
+  private validateVariables(document: TextDocument, tokens: Token[], sessionContext: SessionContextManager): Diagnostic[] {
+    const variables = tokens.filter(token => token.type === TokenType.VARIABLE && !/^\$\d/.test(token.text));
+    const contexts = sessionContext.getContextsAt(document.uri, variables.map(token => token.start));
+
+    return variables
+      .filter((token, i) => !contexts[i].variables.has(token.text.substring(1).toUpperCase()))
+      .map(token => ({
+        severity: DiagnosticSeverity.Warning,
+        range: {
+          start: document.positionAt(token.start),
+          end: document.positionAt(token.end),
+        },
+        message: `Session variable '${token.text}' is not set (SET ${token.text.substring(1)} = ... before using it)`,
+        source: 'snowflake-lsp',
+      }));
+  }
+
   /**
    * Run sqlfluff and parse output
    */
@@ -165,87 +229,4 @@ export class DiagnosticsProvider {
 
     return diagnostics;
   }
-
-  /**
-   * Extract table references from SQL text
-   */
-  private extractTableReferences(text: string): Array<{ name: string; range: any }> {
-    const refs: Array<{ name: string; range: any }> = [];
-    // Match schema.table or just table, handling optional whitespace around dots
-    const pattern = /\b(?:FROM|JOIN)\s+([\w]+(?:\s*\.\s*[\w]+)?)/gi;
-    let match;
-
-    while ((match = pattern.exec(text)) !== null) {
-      // Remove whitespace around dots (MART. DIM_CURRENCY -> MART.DIM_CURRENCY)
-      const tableName = match[1].replace(/\s*\.\s*/g, '.');
-      const startIdx = match.index + match[0].indexOf(match[1]);
-
-      refs.push({
-        name: tableName,
-        range: {
-          start: this.offsetToPosition(text, startIdx),
-          end: this.offsetToPosition(text, startIdx + match[1].length),
-        },
-      });
-    }
-
-    return refs;
-  }
-
-  /**
-   * Extract column references from SELECT clause
-   */
-  private extractColumnReferences(text: string): Array<{ name: string; range: any }> {
-    const refs: Array<{ name: string; range: any }> = [];
-
-    // Simple extraction of column names after SELECT
-    // This is a basic implementation and could be improved
-    const selectPattern = /\bSELECT\s+([\s\S]+?)\s+FROM\b/gi;
-    const match = selectPattern.exec(text);
-
-    if (match) {
-      const selectList = match[1];
-      // Split by comma and extract column names
-      const columns = selectList.split(',');
-
-      for (const col of columns) {
-        const trimmed = col.trim();
-        // Extract column name (ignore aliases and functions)
-        const columnMatch = trimmed.match(/^([\w.]+)/);
-        if (columnMatch && columnMatch[1] !== '*') {
-          const columnName = columnMatch[1].split('.').pop() || columnMatch[1];
-          // Note: For simplicity, not calculating exact positions here
-          // In a production implementation, you'd want precise ranges
-        }
-      }
-    }
-
-    return refs;
-  }
-
-  /**
-   * Extract table names from FROM/JOIN clauses
-   */
-  private extractTablesFromQuery(text: string): string[] {
-    const tables: string[] = [];
-    const pattern = /\b(?:FROM|JOIN)\s+([\w.]+)/gi;
-    let match;
-
-    while ((match = pattern.exec(text)) !== null) {
-      tables.push(match[1]);
-    }
-
-    return tables;
-  }
-
-  /**
-   * Convert text offset to LSP Position
-   */
-  private offsetToPosition(text: string, offset: number): { line: number; character: number } {
-    const lines = text.substring(0, offset).split('\n');
-    return {
-      line: lines.length - 1,
-      character: lines[lines.length - 1].length,
-    };
-  }
 }
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentCache, ParsedDocument } from './document-cache';
+import { QueryScope, buildScopeTree, parseUseCommands, splitStatements } from './sql-parser';
+import { tokenize } from './sql-lexer';
+
+const SCRIPT = `USE ROLE analyst;
+USE SCHEMA prod.sales;
+SET cutoff = '2024-01-01';
+
+WITH recent AS (SELECT id, amount FROM orders WHERE created_at > $cutoff)
+SELECT r.id, c.name FROM recent r JOIN customers c ON c.id = r.id;
+
+BEGIN
+  LET total NUMBER := 0;
+  SELECT SUM(amount) INTO :total FROM orders;
+  RETURN total;
+END;
+
+USE WAREHOUSE reporting_wh;
+SELECT * FROM (SELECT o.id FROM orders o) sub, LATERAL FLATTEN(input => sub.id) f;
+CREATE PROCEDURE p() RETURNS NUMBER AS $$ SELECT 1; $$;
+USE DATABASE archive;
+`;
+
+// Pieces typed into the script, including ones that split, join or open statements and blocks
+const INSERTS = [';', 'x', ' ', '\n', "'", '--', '/*', '*/', '$$', 'BEGIN ', 'END;', 'USE ROLE r;', 'SELECT 1 FROM t', '(', ')', '"'];
+
+// Deterministic pseudo-random numbers (linear congruential generator)
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+// Scope tree without parent links, for comparison
+function plainScope(scope: QueryScope): unknown {
+  return {
+    start: scope.start,
+    end: scope.end,
+    correlated: scope.correlated,
+    tables: scope.tables,
+    derivedTables: scope.derivedTables.map(t => ({ ...t, scope: [t.scope.start, t.scope.end] })),
+    ctes: scope.ctes.map(t => ({ ...t, scope: [t.scope.start, t.scope.end] })),
+    children: scope.children.map(plainScope),
+  };
+}
+
+// Parse results compared by value
+function snapshot(parsed: ParsedDocument): unknown {
+  return {
+    tokens: parsed.tokens.map(t => [t.type, t.text, t.start, t.end]),
+    statements: parsed.statements.map(s => [s.start, s.end, s.tokens.map(t => t.start)]),
+    useCommands: parsed.useCommands,
+    scopes: parsed.statements.map(s => plainScope(parsed.scopeTree(s))),
+  };
+}
+
+function fullParse(text: string): unknown {
+  const tokens = tokenize(text);
+  const statements = splitStatements(tokens, text.length);
+  return snapshot({
+    uri: '',
+    version: 0,
+    text,
+    tokens,
+    statements,
+    useCommands: parseUseCommands(text, tokens, statements),
+    scopeTree: buildScopeTree,
+  });
+}
+
+describe('DocumentCache', () => {
+  it('parses edited documents like a full parse', () => {
+    const next = random(42);
+    const cache = new DocumentCache();
+    let document = TextDocument.create('file:///edits.sql', 'sql', 1, SCRIPT);
+    expect(snapshot(cache.get(document))).toEqual(fullParse(SCRIPT));
+
+    for (let i = 0; i < 300; i++) {
+      const text = document.getText();
+      const start = Math.floor(next() * (text.length + 1));
+      const end = Math.min(text.length, start + (next() < 0.5 ? 0 : Math.floor(next() * 8)));
+      const insert = next() < 0.8 ? INSERTS[Math.floor(next() * INSERTS.length)] : '';
+      const range = { start: document.positionAt(start), end: document.positionAt(end) };
+
+      document = TextDocument.update(document, [{ range, text: insert }], document.version + 1);
+      expect(snapshot(cache.get(document)), `edit ${i}`).toEqual(fullParse(document.getText()));
+    }
+  });
+
+  it('keeps the tokens and statements after an edit as objects', () => {
+    const cache = new DocumentCache();
+    const first = cache.get(TextDocument.create('file:///keep.sql', 'sql', 1, 'SELECT a FROM t; SELECT b FROM u;'));
+    const last = first.tokens[first.tokens.length - 2];
+    const lastStatement = first.statements[1];
+
+    const second = cache.get(TextDocument.create('file:///keep.sql', 'sql', 2, 'SELECT ab FROM t; SELECT b FROM u;'));
+    expect(second.tokens).toContain(last);
+    expect(last.start).toBe(second.text.lastIndexOf('u'));
+    expect(second.statements[1].tokens).toBe(lastStatement.tokens);
+  });
+
+  it('reuses the scope tree of a statement that moved', () => {
+    const cache = new DocumentCache();
+    const first = cache.get(TextDocument.create('file:///moved.sql', 'sql', 1, 'SELECT 1; SELECT * FROM orders o'));
+    const tree = first.scopeTree(first.statements[1]);
+
+    const second = cache.get(TextDocument.create('file:///moved.sql', 'sql', 2, 'SELECT 12; SELECT * FROM orders o'));
+    const moved = second.scopeTree(second.statements[1]);
+
+    expect(moved).not.toBe(tree);
+    expect(moved.tables).toEqual([{ name: 'ORDERS', alias: 'O', start: tree.tables[0].start + 1, end: tree.tables[0].end + 1 }]);
+    expect(second.scopeTree(second.statements[1])).toBe(moved);
+  });
+});
@@ -0,0 +1,300 @@
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Token, TokenType, tokenize, tokenizeFrom, tokenIndexAt } from './sql-lexer';
+import { QueryScope, Statement, buildScopeTree, moveScopeTree, parseUseCommands, splitStatements } from './sql-parser';
+import { UseCommand } from './session-context';
+
+export interface ParsedDocument {
+  uri: string;
+  version: number;
+  text: string;
+  tokens: Token[];
+  statements: Statement[];
+  useCommands: UseCommand[];
+  scopeTree: (statement: Statement) => QueryScope;  // Scope tree of a statement, cached by statement text
+}
+
+interface CachedScopeTree {
+  start: number;      // Start of the statement the tree's offsets belong to
+  scope: QueryScope;
+}
+
+// Scope trees by statement text, used in the current and the previous version of a document
+interface ScopeTreeGenerations {
+  current: Map<string, CachedScopeTree>;
+  previous: Map<string, CachedScopeTree>;
+}
+
+/**
+ * Tokens of a document after an edit, and where they differ from the previous version
+ */
+interface TokenEdit {
+  tokens: Token[];
+  restart: number;    // Offset where tokenizing started again: after a semicolon, or 0
+  resume: number;     // Index of the first token kept from the previous version
+  delta: number;      // Length change of the text; kept tokens moved by it
+  lineDelta: number;  // Change of the line count
+}
+
+/**
+ * Parse results of open documents, shared by all providers
+ * Entries are keyed by document version. After an edit only the text from the start of
+ * the edited statement up to where the new tokens line up with the old ones is tokenized
+ * again, and only the statements in that range are split and read for session commands
+ * again; the tokens after it keep their objects, moved to their new offsets. Scope trees
+ * are cached by statement text, so statements that only moved reuse theirs.
+ */
+export class DocumentCache {
+  private documents: Map<string, ParsedDocument> = new Map();
+  private scopeTrees: Map<string, ScopeTreeGenerations> = new Map();
+
+  /**
+   * Get the parse results for the current version of a document
+   */
+  get(document: TextDocument): ParsedDocument {
+    const cached = this.documents.get(document.uri);
+    if (cached && cached.version === document.version) {
+      return cached;
+    }
+
+    const text = document.getText();
+    const parsed = cached ? this.update(cached, document, text) : this.parse(document, text);
+
+    // Trees not used since the previous version are dropped
+    const trees = this.scopeTrees.get(document.uri);
+    this.scopeTrees.set(document.uri, { current: new Map(), previous: trees ? trees.current : new Map() });
+
+    this.documents.set(document.uri, parsed);
+    return parsed;
+  }
+
+  /**
+   * Drop the parse results of a closed document
+   */
+  remove(uri: string): void {
+    this.documents.delete(uri);
+    this.scopeTrees.delete(uri);
+  }
+
+  /**
+   * Parse a document from scratch
+   */
+  private parse(document: TextDocument, text: string): ParsedDocument {
+    const tokens = tokenize(text);
+    const statements = splitStatements(tokens, text.length);
+    return {
+      uri: document.uri,
+      version: document.version,
+      text,
+      tokens,
+      statements,
+      useCommands: parseUseCommands(text, tokens, statements),
+      scopeTree: statement => this.getScopeTree(document.uri, text, statement),
+    };
+  }
+
+  /**
+   * Parse a new version of a document, splitting and reading only the statements the edit touched
+   * Splitting starts at the statement that contains the edit and stops at the first semicolon
+   * after it that ended a statement in the previous version too.
+   */
+  private update(old: ParsedDocument, document: TextDocument, text: string): ParsedDocument {
+    const scopeTree = (statement: Statement) => this.getScopeTree(document.uri, text, statement);
+    const edit = retokenize(old, text);
+    if (!edit) {
+      return { ...old, version: document.version, scopeTree };
+    }
+    const { tokens, restart, resume, delta, lineDelta } = edit;
+
+    // Statements that end before the restart offset are unchanged
+    const first = findStatementEndingFrom(old.statements, restart);
+    const from = { index: findTokenIndexFrom(tokens, old.statements[first].start), offset: old.statements[first].start };
+
+    let reused = -1;
+    const fresh = splitStatements(tokens, text.length, from, (semicolon, index) => {
+      if (index < resume) return false;
+      const oldIndex = findStatementEndingFrom(old.statements, semicolon.start - delta);
+      if (old.statements[oldIndex]?.end !== semicolon.start - delta) return false;
+      reused = oldIndex + 1;
+      return true;
+    });
+
+    const moved = reused === -1 ? [] : old.statements.slice(reused).map(statement => ({
+      start: statement.start + delta,
+      end: statement.end + delta,
+      tokens: statement.tokens,
+    }));
+    const statements = [...old.statements.slice(0, first), ...fresh, ...moved];
+
+    // Commands apply from the end of their statement
+    const keptEnd = first > 0 ? old.statements[first - 1].end : -1;
+    const movedAfter = reused === -1 ? Infinity : old.statements[reused - 1].end;
+    const useCommands = [
+      ...old.useCommands.filter(command => command.offset <= keptEnd),
+      ...parseUseCommands(text, tokens, fresh),
+      ...old.useCommands.filter(command => command.offset > movedAfter).map(command => ({
+        ...command,
+        offset: command.offset + delta,
+        line: command.line + lineDelta,
+        variable: command.variable && { ...command.variable, line: command.variable.line + lineDelta },
+      })),
+    ];
+
+    return { uri: document.uri, version: document.version, text, tokens, statements, useCommands, scopeTree };
+  }
+
+  /**
+   * Get the scope tree of a statement, reusing the tree of the same statement text
+   * A statement that moved gets a copy of its tree with the offsets moved along.
+   */
+  private getScopeTree(uri: string, text: string, statement: Statement): QueryScope {
+    const trees = this.scopeTrees.get(uri);
+    if (!trees || statement.tokens.length === 0) {
+      return buildScopeTree(statement);
+    }
+
+    const key = text.substring(statement.start, statement.end);
+    const cached = trees.current.get(key) || trees.previous.get(key);
+    let entry: CachedScopeTree;
+    if (!cached) {
+      entry = { start: statement.start, scope: buildScopeTree(statement) };
+    } else if (cached.start === statement.start) {
+      entry = cached;
+    } else {
+      entry = { start: statement.start, scope: moveScopeTree(cached.scope, statement.start - cached.start) };
+    }
+
+    trees.current.set(key, entry);
+    return entry.scope;
+  }
+}
+
+/**
+ * Tokenize the new text of a document, reusing the tokens of the unchanged text around the edit
+ * Reused tokens after the edit are moved to their new offsets in place. Returns null if the
+ * text did not change.
+ */
+function retokenize(old: ParsedDocument, text: string): TokenEdit | null {
+  const oldText = old.text;
+
+  // Changed range: [prefix, changeEnd) in the new text
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, text.length);
+  while (prefix < maxPrefix && oldText.charCodeAt(prefix) === text.charCodeAt(prefix)) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix &&
+         oldText.charCodeAt(oldText.length - 1 - suffix) === text.charCodeAt(text.length - 1 - suffix)) {
+    suffix++;
+  }
+
+  if (prefix === text.length && prefix === oldText.length) {
+    return null;
+  }
+
+  const delta = text.length - oldText.length;
+  const changeEnd = text.length - suffix;
+  const lineDelta = countLines(text, prefix, changeEnd) - countLines(oldText, prefix, oldText.length - suffix);
+
+  // Tokens depend on the characters following them (e.g. 1e+5), but never across a
+  // semicolon, so tokenizing restarts after the last semicolon before the edit
+  let restart = Math.max(tokenIndexAt(old.tokens, prefix), 0);
+  while (restart > 0 && !(old.tokens[restart - 1].type === TokenType.SEMICOLON && old.tokens[restart - 1].end <= prefix)) {
+    restart--;
+  }
+  const restartOffset = restart < old.tokens.length ? old.tokens[restart].start : 0;
+
+  // Past the edit, stop as soon as a new token starts where an old token started
+  let resume = old.tokens.length;
+  const fresh = tokenizeFrom(text, restartOffset, token => {
+    if (token.start < changeEnd) return false;
+    const index = findTokenStartingAt(old.tokens, token.start - delta, restart);
+    if (index === -1) return false;
+    resume = index;
+    return true;
+  });
+
+  const rest = old.tokens.slice(resume);
+  if (delta !== 0) {
+    for (const token of rest) {
+      token.start += delta;
+      token.end += delta;
+    }
+  }
+
+  return {
+    tokens: [...old.tokens.slice(0, restart), ...fresh, ...rest],
+    restart: restartOffset,
+    resume: restart + fresh.length,
+    delta,
+    lineDelta,
+  };
+}
+
+/**
+ * Count the line breaks in a range of a text
+ */
+function countLines(text: string, start: number, end: number): number {
+  let count = 0;
+  for (let i = text.indexOf('\n', start); i !== -1 && i < end; i = text.indexOf('\n', i + 1)) count++;
+  return count;
+}
+
+/**
+ * Find the index of the first statement that ends at or after an offset
+ */
+function findStatementEndingFrom(statements: Statement[], offset: number): number {
+  let low = 0;
+  let high = statements.length - 1;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (statements[mid].end < offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Find the index of the first token starting at or after an offset
+ */
+function findTokenIndexFrom(tokens: Token[], offset: number): number {
+  let low = 0;
+  let high = tokens.length;
+
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid].start < offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Find the index of the token starting at an offset, or -1
+ */
+function findTokenStartingAt(tokens: Token[], offset: number, from: number): number {
+  let low = from;
+  let high = tokens.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (tokens[mid].start < offset) {
+      low = mid + 1;
+    } else if (tokens[mid].start > offset) {
+      high = mid - 1;
+    } else {
+      return mid;
+    }
+  }
+
+  return -1;
+}
@@ -27,6 +27,19 @@ export class FormattingProvider {
     }
   }
 
+  /**
+   * Format a SQL text, e.g. a view definition shown in hover
+   * Returns the text unchanged if sqruff is not available or fails.
+   */
+  async formatSql(text: string): Promise<string> {
+    try {
+      return await this.runSqruff(text);
+    } catch (error) {
+      console.error('Formatting error:', error);
+      return text;
+    }
+  }
+
   /**
    * Run sqruff to format SQL
    */
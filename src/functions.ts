@@ -0,0 +1,450 @@
+import { UserFunctionInfo } from './snowflake';
+import { makeQualifiedName } from './identifiers';
+
+export enum FunctionCategory {
+  AGGREGATE = 'Aggregate',
+  WINDOW = 'Window',
+  CONDITIONAL = 'Conditional',
+  STRING = 'String',
+  NUMERIC = 'Numeric',
+  DATE_TIME = 'Date & Time',
+  CONVERSION = 'Conversion',
+  SEMI_STRUCTURED = 'Semi-structured',
+  CONTEXT = 'Context',
+  HASH = 'Hash',
+  TABLE = 'Table',
+  USER_DEFINED = 'User-defined',  // Fetched from Snowflake, not in the catalog
+}
+
+export interface FunctionParameter {
+  name: string;       // Empty if only the type is known
+  type: string;
+  optional: boolean;  // May be omitted (with all parameters after it)
+  variadic: boolean;  // May be repeated
+}
+
+export interface FunctionInfo {
+  name: string;
+  category: FunctionCategory;
+  parameters: FunctionParameter[];
+  returnType: string;
+  description: string;
+  qualifiedName?: string;  // DATABASE.SCHEMA.NAME of user-defined functions
+}
+
+// [name, parameters, return type, description] by category; overloads repeat the name
+// Parameters are written `name TYPE`; `[name TYPE]` is optional, `name TYPE...` repeats.
+type FunctionEntry = [string, string, string, string];
+
+const CATALOG: Record<Exclude<FunctionCategory, FunctionCategory.USER_DEFINED>, FunctionEntry[]> = {
+  [FunctionCategory.AGGREGATE]: [
+    ['ANY_VALUE', 'expr ANY', 'ANY', 'Returns some value of the expression from the group.'],
+    ['APPROX_COUNT_DISTINCT', 'expr ANY...', 'NUMBER', 'Estimates the number of distinct values using HyperLogLog.'],
+    ['APPROX_PERCENTILE', 'expr NUMBER, percentile FLOAT', 'FLOAT', 'Estimates the given percentile of a numeric expression.'],
+    ['APPROX_TOP_K', 'expr ANY, [k NUMBER], [counters NUMBER]', 'VARIANT', 'Estimates the most frequent values and their frequencies.'],
+    ['ARRAY_AGG', 'expr ANY', 'ARRAY', 'Returns the input values pivoted into an array.'],
+    ['ARRAY_UNION_AGG', 'array ARRAY', 'ARRAY', 'Returns the multiset union of the input arrays.'],
+    ['AVG', 'expr NUMBER', 'NUMBER', 'Returns the average of non-NULL values.'],
+    ['BITAND_AGG', 'expr NUMBER', 'NUMBER', 'Returns the bitwise AND of all non-NULL values.'],
+    ['BITOR_AGG', 'expr NUMBER', 'NUMBER', 'Returns the bitwise OR of all non-NULL values.'],
+    ['BOOLAND_AGG', 'expr BOOLEAN', 'BOOLEAN', 'Returns TRUE if all non-NULL values are true.'],
+    ['BOOLOR_AGG', 'expr BOOLEAN', 'BOOLEAN', 'Returns TRUE if at least one value is true.'],
+    ['CORR', 'y NUMBER, x NUMBER', 'FLOAT', 'Returns the correlation coefficient of non-NULL pairs.'],
+    ['COUNT', 'expr ANY...', 'NUMBER', 'Returns the number of non-NULL rows, or all rows for COUNT(*).'],
+    ['COUNT_IF', 'condition BOOLEAN', 'NUMBER', 'Returns the number of rows for which the condition is true.'],
+    ['COVAR_POP', 'y NUMBER, x NUMBER', 'FLOAT', 'Returns the population covariance of non-NULL pairs.'],
+    ['COVAR_SAMP', 'y NUMBER, x NUMBER', 'FLOAT', 'Returns the sample covariance of non-NULL pairs.'],
+    ['HASH_AGG', 'expr ANY...', 'NUMBER', 'Returns an order-independent hash of the input rows.'],
+    ['KURTOSIS', 'expr NUMBER', 'FLOAT', 'Returns the population excess kurtosis of non-NULL values.'],
+    ['LISTAGG', 'expr STRING, [delimiter STRING]', 'STRING', 'Concatenates the input values, separated by the delimiter.'],
+    ['MAX', 'expr ANY', 'ANY', 'Returns the maximum of non-NULL values.'],
+    ['MAX_BY', 'col_to_return ANY, col_containing_maximum ANY, [maximum_number_of_values NUMBER]', 'ANY', 'Returns the value of one column in the row with the maximum of another.'],
+    ['MEDIAN', 'expr NUMBER', 'NUMBER', 'Returns the median of non-NULL values.'],
+    ['MIN', 'expr ANY', 'ANY', 'Returns the minimum of non-NULL values.'],
+    ['MIN_BY', 'col_to_return ANY, col_containing_minimum ANY, [maximum_number_of_values NUMBER]', 'ANY', 'Returns the value of one column in the row with the minimum of another.'],
+    ['MODE', 'expr ANY', 'ANY', 'Returns the most frequent value.'],
+    ['OBJECT_AGG', 'key STRING, value VARIANT', 'OBJECT', 'Returns an object of the key-value pairs of the group.'],
+    ['PERCENTILE_CONT', 'percentile FLOAT', 'NUMBER', 'Returns the interpolated percentile; used with WITHIN GROUP (ORDER BY expr).'],
+    ['PERCENTILE_DISC', 'percentile FLOAT', 'ANY', 'Returns the discrete percentile; used with WITHIN GROUP (ORDER BY expr).'],
+    ['SKEW', 'expr NUMBER', 'FLOAT', 'Returns the sample skewness of non-NULL values.'],
+    ['STDDEV', 'expr NUMBER', 'FLOAT', 'Returns the sample standard deviation of non-NULL values.'],
+    ['STDDEV_POP', 'expr NUMBER', 'FLOAT', 'Returns the population standard deviation of non-NULL values.'],
+    ['STDDEV_SAMP', 'expr NUMBER', 'FLOAT', 'Returns the sample standard deviation of non-NULL values.'],
+    ['SUM', 'expr NUMBER', 'NUMBER', 'Returns the sum of non-NULL values.'],
+    ['VAR_POP', 'expr NUMBER', 'FLOAT', 'Returns the population variance of non-NULL values.'],
+    ['VAR_SAMP', 'expr NUMBER', 'FLOAT', 'Returns the sample variance of non-NULL values.'],
+    ['VARIANCE', 'expr NUMBER', 'FLOAT', 'Returns the sample variance of non-NULL values.'],
+  ],
+  [FunctionCategory.WINDOW]: [
+    ['CONDITIONAL_CHANGE_EVENT', 'expr ANY', 'NUMBER', 'Returns a window event number that increases whenever the value changes.'],
+    ['CONDITIONAL_TRUE_EVENT', 'condition BOOLEAN', 'NUMBER', 'Returns a window event number that increases whenever the condition is true.'],
+    ['CUME_DIST', '', 'FLOAT', 'Returns the cumulative distribution of a value within the window partition.'],
+    ['DENSE_RANK', '', 'NUMBER', 'Returns the rank of a row without gaps for ties.'],
+    ['FIRST_VALUE', 'expr ANY', 'ANY', 'Returns the first value in the ordered window frame.'],
+    ['LAG', 'expr ANY, [offset NUMBER], [default ANY]', 'ANY', 'Returns the value of a previous row in the partition.'],
+    ['LAST_VALUE', 'expr ANY', 'ANY', 'Returns the last value in the ordered window frame.'],
+    ['LEAD', 'expr ANY, [offset NUMBER], [default ANY]', 'ANY', 'Returns the value of a following row in the partition.'],
+    ['NTH_VALUE', 'expr ANY, n NUMBER', 'ANY', 'Returns the n-th value in the ordered window frame.'],
+    ['NTILE', 'buckets NUMBER', 'NUMBER', 'Divides the ordered partition into buckets and returns the bucket number.'],
+    ['PERCENT_RANK', '', 'FLOAT', 'Returns the relative rank of a row within the partition.'],
+    ['RANK', '', 'NUMBER', 'Returns the rank of a row, with gaps for ties.'],
+    ['RATIO_TO_REPORT', 'expr NUMBER', 'NUMBER', 'Returns the ratio of a value to the sum of values in the partition.'],
+    ['ROW_NUMBER', '', 'NUMBER', 'Returns the unique row number within the window partition.'],
+  ],
+  [FunctionCategory.CONDITIONAL]: [
+    ['COALESCE', 'expr ANY, expr ANY...', 'ANY', 'Returns the first non-NULL argument.'],
+    ['DECODE', 'expr ANY, search ANY, result ANY, [default ANY]', 'ANY', 'Compares the expression to each search value and returns the matching result.'],
+    ['EQUAL_NULL', 'expr1 ANY, expr2 ANY', 'BOOLEAN', 'Compares two values for equality, treating NULLs as equal.'],
+    ['GREATEST', 'expr ANY, expr ANY...', 'ANY', 'Returns the largest argument.'],
+    ['IFF', 'condition BOOLEAN, expr_if_true ANY, expr_if_false ANY', 'ANY', 'Returns one of two values depending on a condition.'],
+    ['IFNULL', 'expr ANY, replacement ANY', 'ANY', 'Returns the replacement if the expression is NULL.'],
+    ['LEAST', 'expr ANY, expr ANY...', 'ANY', 'Returns the smallest argument.'],
+    ['NULLIF', 'expr1 ANY, expr2 ANY', 'ANY', 'Returns NULL if the arguments are equal, otherwise the first argument.'],
+    ['NULLIFZERO', 'expr NUMBER', 'NUMBER', 'Returns NULL if the argument is zero.'],
+    ['NVL', 'expr ANY, replacement ANY', 'ANY', 'Returns the replacement if the expression is NULL.'],
+    ['NVL2', 'expr ANY, value_if_not_null ANY, value_if_null ANY', 'ANY', 'Returns one of two values depending on whether the expression is NULL.'],
+    ['ZEROIFNULL', 'expr NUMBER', 'NUMBER', 'Returns zero if the argument is NULL.'],
+  ],
+  [FunctionCategory.STRING]: [
+    ['ASCII', 'str STRING', 'NUMBER', 'Returns the code point of the first character.'],
+    ['BASE64_DECODE_STRING', 'input STRING, [alphabet STRING]', 'STRING', 'Decodes a Base64 string to a string.'],
+    ['BASE64_ENCODE', 'input STRING, [max_line_length NUMBER], [alphabet STRING]', 'STRING', 'Encodes a string or binary value in Base64.'],
+    ['CHARINDEX', 'substring STRING, str STRING, [start NUMBER]', 'NUMBER', 'Returns the 1-based position of the first occurrence of a substring.'],
+    ['CHR', 'code_point NUMBER', 'STRING', 'Returns the character with the given code point.'],
+    ['COLLATE', 'str STRING, collation STRING', 'STRING', 'Returns the string with a different collation.'],
+    ['CONCAT', 'expr STRING, expr STRING...', 'STRING', 'Concatenates the arguments.'],
+    ['CONCAT_WS', 'separator STRING, expr STRING, expr STRING...', 'STRING', 'Concatenates the arguments, separated by the separator.'],
+    ['CONTAINS', 'str STRING, substring STRING', 'BOOLEAN', 'Returns TRUE if the string contains the substring.'],
+    ['EDITDISTANCE', 'str1 STRING, str2 STRING, [max_distance NUMBER]', 'NUMBER', 'Returns the Levenshtein distance between two strings.'],
+    ['ENDSWITH', 'str STRING, suffix STRING', 'BOOLEAN', 'Returns TRUE if the string ends with the suffix.'],
+    ['HEX_ENCODE', 'input STRING, [case NUMBER]', 'STRING', 'Encodes the input as hexadecimal.'],
+    ['ILIKE', 'subject STRING, pattern STRING, [escape STRING]', 'BOOLEAN', 'Case-insensitive LIKE pattern match.'],
+    ['INITCAP', 'str STRING, [delimiters STRING]', 'STRING', 'Capitalizes the first letter of each word.'],
+    ['INSERT', 'base STRING, pos NUMBER, len NUMBER, insert STRING', 'STRING', 'Replaces a substring at a position with another string.'],
+    ['JAROWINKLER_SIMILARITY', 'str1 STRING, str2 STRING', 'NUMBER', 'Returns the Jaro-Winkler similarity (0-100) of two strings.'],
+    ['LEFT', 'str STRING, length NUMBER', 'STRING', 'Returns the leftmost characters of a string.'],
+    ['LENGTH', 'expr STRING', 'NUMBER', 'Returns the number of characters in a string.'],
+    ['LEN', 'expr STRING', 'NUMBER', 'Returns the number of characters in a string.'],
+    ['LOWER', 'str STRING', 'STRING', 'Converts a string to lower case.'],
+    ['LPAD', 'base STRING, length NUMBER, [pad STRING]', 'STRING', 'Left-pads a string to the given length.'],
+    ['LTRIM', 'str STRING, [characters STRING]', 'STRING', 'Removes leading characters (whitespace by default).'],
+    ['POSITION', 'substring STRING, str STRING, [start NUMBER]', 'NUMBER', 'Returns the 1-based position of the first occurrence of a substring.'],
+    ['REGEXP_COUNT', 'subject STRING, pattern STRING, [position NUMBER], [parameters STRING]', 'NUMBER', 'Returns the number of matches of a regular expression.'],
+    ['REGEXP_INSTR', 'subject STRING, pattern STRING, [position NUMBER], [occurrence NUMBER], [option NUMBER], [parameters STRING], [group_num NUMBER]', 'NUMBER', 'Returns the position of a regular expression match.'],
+    ['REGEXP_LIKE', 'subject STRING, pattern STRING, [parameters STRING]', 'BOOLEAN', 'Returns TRUE if the whole subject matches the regular expression.'],
+    ['REGEXP_REPLACE', 'subject STRING, pattern STRING, [replacement STRING], [position NUMBER], [occurrence NUMBER], [parameters STRING]', 'STRING', 'Replaces matches of a regular expression.'],
+    ['REGEXP_SUBSTR', 'subject STRING, pattern STRING, [position NUMBER], [occurrence NUMBER], [parameters STRING], [group_num NUMBER]', 'STRING', 'Returns the substring matching a regular expression.'],
+    ['REPEAT', 'str STRING, n NUMBER', 'STRING', 'Repeats a string n times.'],
+    ['REPLACE', 'subject STRING, pattern STRING, [replacement STRING]', 'STRING', 'Replaces all occurrences of a substring.'],
+    ['REVERSE', 'str STRING', 'STRING', 'Reverses the characters of a string.'],
+    ['RIGHT', 'str STRING, length NUMBER', 'STRING', 'Returns the rightmost characters of a string.'],
+    ['RPAD', 'base STRING, length NUMBER, [pad STRING]', 'STRING', 'Right-pads a string to the given length.'],
+    ['RTRIM', 'str STRING, [characters STRING]', 'STRING', 'Removes trailing characters (whitespace by default).'],
+    ['SOUNDEX', 'str STRING', 'STRING', 'Returns the Soundex code of a string.'],
+    ['SPACE', 'n NUMBER', 'STRING', 'Returns a string of n spaces.'],
+    ['SPLIT', 'str STRING, separator STRING', 'ARRAY', 'Splits a string into an array of parts.'],
+    ['SPLIT_PART', 'str STRING, delimiter STRING, part_number NUMBER', 'STRING', 'Splits a string and returns the requested part.'],
+    ['STARTSWITH', 'str STRING, prefix STRING', 'BOOLEAN', 'Returns TRUE if the string starts with the prefix.'],
+    ['STRTOK', 'str STRING, [delimiters STRING], [part_number NUMBER]', 'STRING', 'Tokenizes a string and returns the requested token.'],
+    ['STRTOK_TO_ARRAY', 'str STRING, [delimiters STRING]', 'ARRAY', 'Tokenizes a string into an array.'],
+    ['SUBSTR', 'str STRING, start NUMBER, [length NUMBER]', 'STRING', 'Returns a substring starting at a 1-based position.'],
+    ['SUBSTRING', 'str STRING, start NUMBER, [length NUMBER]', 'STRING', 'Returns a substring starting at a 1-based position.'],
+    ['TRANSLATE', 'subject STRING, source_alphabet STRING, target_alphabet STRING', 'STRING', 'Replaces characters by position in the source and target alphabets.'],
+    ['TRIM', 'str STRING, [characters STRING]', 'STRING', 'Removes leading and trailing characters (whitespace by default).'],
+    ['UPPER', 'str STRING', 'STRING', 'Converts a string to upper case.'],
+    ['UUID_STRING', '[uuid STRING], [name STRING]', 'STRING', 'Generates a version 4 (random) or version 5 (named) UUID.'],
+  ],
+  [FunctionCategory.NUMERIC]: [
+    ['ABS', 'expr NUMBER', 'NUMBER', 'Returns the absolute value.'],
+    ['CEIL', 'expr NUMBER, [scale NUMBER]', 'NUMBER', 'Rounds up to the given number of decimal places.'],
+    ['DIV0', 'dividend NUMBER, divisor NUMBER', 'NUMBER', 'Divides, returning 0 if the divisor is 0.'],
+    ['DIV0NULL', 'dividend NUMBER, divisor NUMBER', 'NUMBER', 'Divides, returning 0 if the divisor is 0 or NULL.'],
+    ['EXP', 'expr NUMBER', 'FLOAT', 'Returns e raised to the given power.'],
+    ['FLOOR', 'expr NUMBER, [scale NUMBER]', 'NUMBER', 'Rounds down to the given number of decimal places.'],
+    ['LN', 'expr NUMBER', 'FLOAT', 'Returns the natural logarithm.'],
+    ['LOG', 'base NUMBER, expr NUMBER', 'FLOAT', 'Returns the logarithm in the given base.'],
+    ['MOD', 'dividend NUMBER, divisor NUMBER', 'NUMBER', 'Returns the remainder of a division.'],
+    ['PI', '', 'FLOAT', 'Returns the value of pi.'],
+    ['POWER', 'base NUMBER, exponent NUMBER', 'FLOAT', 'Returns the base raised to the exponent.'],
+    ['RANDOM', '[seed NUMBER]', 'NUMBER', 'Returns a pseudo-random 64-bit integer.'],
+    ['ROUND', 'expr NUMBER, [scale NUMBER]', 'NUMBER', 'Rounds to the given number of decimal places.'],
+    ['SIGN', 'expr NUMBER', 'NUMBER', 'Returns -1, 0 or 1 depending on the sign.'],
+    ['SQRT', 'expr NUMBER', 'FLOAT', 'Returns the square root.'],
+    ['SQUARE', 'expr NUMBER', 'NUMBER', 'Returns the square.'],
+    ['TRUNC', 'expr NUMBER, [scale NUMBER]', 'NUMBER', 'Truncates to the given number of decimal places.'],
+    ['UNIFORM', 'min NUMBER, max NUMBER, gen NUMBER', 'NUMBER', 'Returns a uniformly distributed number between min and max.'],
+    ['WIDTH_BUCKET', 'expr NUMBER, min_value NUMBER, max_value NUMBER, num_buckets NUMBER', 'NUMBER', 'Returns the equal-width histogram bucket of a value.'],
+  ],
+  [FunctionCategory.DATE_TIME]: [
+    ['ADD_MONTHS', 'date_or_timestamp_expr DATE, months NUMBER', 'DATE', 'Adds months to a date or timestamp.'],
+    ['CONVERT_TIMEZONE', 'target_tz STRING, source_timestamp TIMESTAMP_TZ', 'TIMESTAMP_TZ', 'Converts a timestamp with time zone to another time zone.'],
+    ['CONVERT_TIMEZONE', 'source_tz STRING, target_tz STRING, source_timestamp TIMESTAMP_NTZ', 'TIMESTAMP_NTZ', 'Converts a timestamp without time zone from one time zone to another.'],
+    ['CURRENT_DATE', '', 'DATE', 'Returns the current date.'],
+    ['CURRENT_TIME', '[fract_sec_precision NUMBER]', 'TIME', 'Returns the current time.'],
+    ['CURRENT_TIMESTAMP', '[fract_sec_precision NUMBER]', 'TIMESTAMP_LTZ', 'Returns the current timestamp.'],
+    ['DATE_FROM_PARTS', 'year NUMBER, month NUMBER, day NUMBER', 'DATE', 'Creates a date from its parts.'],
+    ['DATE_PART', 'date_or_time_part STRING, date_or_time_expr TIMESTAMP', 'NUMBER', 'Extracts a part (year, month, day, hour, ...) of a date or timestamp.'],
+    ['DATE_TRUNC', 'date_or_time_part STRING, date_or_time_expr TIMESTAMP', 'TIMESTAMP', 'Truncates a date or timestamp to the given part.'],
+    ['DATEADD', 'date_or_time_part STRING, value NUMBER, date_or_time_expr TIMESTAMP', 'TIMESTAMP', 'Adds a number of date or time parts to a date or timestamp.'],
+    ['DATEDIFF', 'date_or_time_part STRING, date_or_time_expr1 TIMESTAMP, date_or_time_expr2 TIMESTAMP', 'NUMBER', 'Returns the difference between two dates or timestamps in the given part.'],
+    ['DAYNAME', 'date_or_timestamp_expr DATE', 'STRING', 'Returns the three-letter day of the week.'],
+    ['DAYOFWEEK', 'date_or_timestamp_expr DATE', 'NUMBER', 'Returns the day of the week.'],
+    ['DAYOFYEAR', 'date_or_timestamp_expr DATE', 'NUMBER', 'Returns the day of the year.'],
+    ['EXTRACT', 'date_or_time_part STRING, date_or_time_expr TIMESTAMP', 'NUMBER', 'Extracts a part of a date or timestamp (EXTRACT(part FROM expr)).'],
+    ['HOUR', 'time_or_timestamp_expr TIMESTAMP', 'NUMBER', 'Returns the hour.'],
+    ['LAST_DAY', 'date_or_timestamp_expr DATE, [date_part STRING]', 'DATE', 'Returns the last day of the month, or of the given part.'],
+    ['MINUTE', 'time_or_timestamp_expr TIMESTAMP', 'NUMBER', 'Returns the minute.'],
+    ['MONTH', 'date_or_timestamp_expr DATE', 'NUMBER', 'Returns the month.'],
+    ['MONTHNAME', 'date_or_timestamp_expr DATE', 'STRING', 'Returns the three-letter month name.'],
+    ['MONTHS_BETWEEN', 'date_expr1 DATE, date_expr2 DATE', 'NUMBER', 'Returns the number of months between two dates.'],
+    ['NEXT_DAY', 'date_or_timestamp_expr DATE, dow STRING', 'DATE', 'Returns the first given day of the week after a date.'],
+    ['PREVIOUS_DAY', 'date_or_timestamp_expr DATE, dow STRING', 'DATE', 'Returns the last given day of the week before a date.'],
+    ['QUARTER', 'date_or_timestamp_expr DATE', 'NUMBER', 'Returns the quarter.'],
+    ['SECOND', 'time_or_timestamp_expr TIMESTAMP', 'NUMBER', 'Returns the second.'],
+    ['SYSDATE', '', 'TIMESTAMP_NTZ', 'Returns the current timestamp in UTC.'],
+    ['TIME_FROM_PARTS', 'hour NUMBER, minute NUMBER, second NUMBER, [nanosecond NUMBER]', 'TIME', 'Creates a time from its parts.'],
+    ['TIME_SLICE', 'date_or_time_expr TIMESTAMP, slice_length NUMBER, date_or_time_part STRING, [start_or_end STRING]', 'TIMESTAMP', 'Returns the start or end of the time slice containing a value.'],
+    ['TIMEADD', 'date_or_time_part STRING, value NUMBER, date_or_time_expr TIMESTAMP', 'TIMESTAMP', 'Adds a number of date or time parts to a date or timestamp.'],
+    ['TIMEDIFF', 'date_or_time_part STRING, date_or_time_expr1 TIMESTAMP, date_or_time_expr2 TIMESTAMP', 'NUMBER', 'Returns the difference between two dates or timestamps in the given part.'],
+    ['TIMESTAMP_FROM_PARTS', 'year NUMBER, month NUMBER, day NUMBER, hour NUMBER, minute NUMBER, second NUMBER, [nanosecond NUMBER]', 'TIMESTAMP', 'Creates a timestamp from its parts.'],
+    ['TIMESTAMPADD', 'date_or_time_part STRING, value NUMBER, date_or_time_expr TIMESTAMP', 'TIMESTAMP', 'Adds a number of date or time parts to a date or timestamp.'],
+    ['TIMESTAMPDIFF', 'date_or_time_part STRING, date_or_time_expr1 TIMESTAMP, date_or_time_expr2 TIMESTAMP', 'NUMBER', 'Returns the difference between two dates or timestamps in the given part.'],
+    ['WEEK', 'date_or_timestamp_expr DATE', 'NUMBER', 'Returns the week of the year.'],
+    ['WEEKOFYEAR', 'date_or_timestamp_expr DATE', 'NUMBER', 'Returns the week of the year.'],
+    ['YEAR', 'date_or_timestamp_expr DATE', 'NUMBER', 'Returns the year.'],
+  ],
+  [FunctionCategory.CONVERSION]: [
+    ['CAST', 'expr ANY', 'ANY', 'Converts a value to another data type (CAST(expr AS type)).'],
+    ['TO_ARRAY', 'expr ANY', 'ARRAY', 'Converts a value to an array.'],
+    ['TO_BINARY', 'expr STRING, [format STRING]', 'BINARY', 'Converts a string to a binary value.'],
+    ['TO_BOOLEAN', 'expr ANY', 'BOOLEAN', 'Converts a value to a boolean.'],
+    ['TO_CHAR', 'expr ANY, [format STRING]', 'STRING', 'Converts a value to a string, optionally with a format.'],
+    ['TO_DATE', 'expr ANY, [format STRING]', 'DATE', 'Converts a value to a date.'],
+    ['TO_DECIMAL', 'expr ANY, [format STRING], [precision NUMBER], [scale NUMBER]', 'NUMBER', 'Converts a value to a fixed-point number.'],
+    ['TO_DOUBLE', 'expr ANY, [format STRING]', 'FLOAT', 'Converts a value to a double-precision float.'],
+    ['TO_NUMBER', 'expr ANY, [format STRING], [precision NUMBER], [scale NUMBER]', 'NUMBER', 'Converts a value to a fixed-point number.'],
+    ['TO_OBJECT', 'expr VARIANT', 'OBJECT', 'Converts a value to an object.'],
+    ['TO_TIME', 'expr ANY, [format STRING]', 'TIME', 'Converts a value to a time.'],
+    ['TO_TIMESTAMP', 'expr ANY, [format STRING]', 'TIMESTAMP', 'Converts a value to a timestamp.'],
+    ['TO_TIMESTAMP_LTZ', 'expr ANY, [format STRING]', 'TIMESTAMP_LTZ', 'Converts a value to a timestamp with local time zone.'],
+    ['TO_TIMESTAMP_NTZ', 'expr ANY, [format STRING]', 'TIMESTAMP_NTZ', 'Converts a value to a timestamp without time zone.'],
+    ['TO_TIMESTAMP_TZ', 'expr ANY, [format STRING]', 'TIMESTAMP_TZ', 'Converts a value to a timestamp with time zone.'],
+    ['TO_VARCHAR', 'expr ANY, [format STRING]', 'STRING', 'Converts a value to a string, optionally with a format.'],
+    ['TO_VARIANT', 'expr ANY', 'VARIANT', 'Converts a value to a variant.'],
+    ['TRY_CAST', 'expr STRING', 'ANY', 'Like CAST, but returns NULL instead of failing (TRY_CAST(expr AS type)).'],
+    ['TRY_TO_BOOLEAN', 'expr STRING', 'BOOLEAN', 'Like TO_BOOLEAN, but returns NULL instead of failing.'],
+    ['TRY_TO_DATE', 'expr STRING, [format STRING]', 'DATE', 'Like TO_DATE, but returns NULL instead of failing.'],
+    ['TRY_TO_DECIMAL', 'expr STRING, [format STRING], [precision NUMBER], [scale NUMBER]', 'NUMBER', 'Like TO_DECIMAL, but returns NULL instead of failing.'],
+    ['TRY_TO_DOUBLE', 'expr STRING, [format STRING]', 'FLOAT', 'Like TO_DOUBLE, but returns NULL instead of failing.'],
+    ['TRY_TO_NUMBER', 'expr STRING, [format STRING], [precision NUMBER], [scale NUMBER]', 'NUMBER', 'Like TO_NUMBER, but returns NULL instead of failing.'],
+    ['TRY_TO_TIME', 'expr STRING, [format STRING]', 'TIME', 'Like TO_TIME, but returns NULL instead of failing.'],
+    ['TRY_TO_TIMESTAMP', 'expr STRING, [format STRING]', 'TIMESTAMP', 'Like TO_TIMESTAMP, but returns NULL instead of failing.'],
+  ],
+  [FunctionCategory.SEMI_STRUCTURED]: [
+    ['ARRAY_APPEND', 'array ARRAY, new_element VARIANT', 'ARRAY', 'Returns the array with an element appended.'],
+    ['ARRAY_CAT', 'array1 ARRAY, array2 ARRAY', 'ARRAY', 'Concatenates two arrays.'],
+    ['ARRAY_COMPACT', 'array ARRAY', 'ARRAY', 'Returns the array without NULL values.'],
+    ['ARRAY_CONSTRUCT', 'value VARIANT...', 'ARRAY', 'Returns an array of the arguments.'],
+    ['ARRAY_CONTAINS', 'value VARIANT, array ARRAY', 'BOOLEAN', 'Returns TRUE if the array contains the value.'],
+    ['ARRAY_DISTINCT', 'array ARRAY', 'ARRAY', 'Returns the array without duplicate elements.'],
+    ['ARRAY_INTERSECTION', 'array1 ARRAY, array2 ARRAY', 'ARRAY', 'Returns the elements of both arrays.'],
+    ['ARRAY_POSITION', 'value VARIANT, array ARRAY', 'NUMBER', 'Returns the 0-based index of the first occurrence of a value.'],
+    ['ARRAY_SIZE', 'array ARRAY', 'NUMBER', 'Returns the number of elements of an array.'],
+    ['ARRAY_SLICE', 'array ARRAY, from NUMBER, to NUMBER', 'ARRAY', 'Returns the elements from index from up to (excluding) index to.'],
+    ['ARRAY_SORT', 'array ARRAY, [sort_ascending BOOLEAN], [nulls_first BOOLEAN]', 'ARRAY', 'Returns the sorted array.'],
+    ['ARRAY_TO_STRING', 'array ARRAY, separator STRING', 'STRING', 'Joins the elements of an array into a string.'],
+    ['ARRAYS_OVERLAP', 'array1 ARRAY, array2 ARRAY', 'BOOLEAN', 'Returns TRUE if the arrays have an element in common.'],
+    ['CHECK_JSON', 'str STRING', 'STRING', 'Returns NULL for valid JSON, otherwise the parse error.'],
+    ['GET', 'expr VARIANT, index_or_field ANY', 'VARIANT', 'Returns an element of an array or a field of an object.'],
+    ['GET_PATH', 'expr VARIANT, path STRING', 'VARIANT', 'Returns the value at a path in semi-structured data.'],
+    ['IS_ARRAY', 'expr VARIANT', 'BOOLEAN', 'Returns TRUE if the variant holds an array.'],
+    ['IS_NULL_VALUE', 'expr VARIANT', 'BOOLEAN', 'Returns TRUE if the variant holds a JSON null.'],
+    ['IS_OBJECT', 'expr VARIANT', 'BOOLEAN', 'Returns TRUE if the variant holds an object.'],
+    ['OBJECT_CONSTRUCT', 'key STRING, value VARIANT...', 'OBJECT', 'Returns an object of the key-value arguments.'],
+    ['OBJECT_DELETE', 'object OBJECT, key STRING...', 'OBJECT', 'Returns the object without the given keys.'],
+    ['OBJECT_INSERT', 'object OBJECT, key STRING, value VARIANT, [update_flag BOOLEAN]', 'OBJECT', 'Returns the object with a key-value pair added or updated.'],
+    ['OBJECT_KEYS', 'object OBJECT', 'ARRAY', 'Returns the keys of an object.'],
+    ['OBJECT_PICK', 'object OBJECT, key STRING...', 'OBJECT', 'Returns the object with only the given keys.'],
+    ['PARSE_JSON', 'expr STRING', 'VARIANT', 'Parses a JSON string into a variant.'],
+    ['PARSE_XML', 'expr STRING, [disable_auto_convert BOOLEAN]', 'OBJECT', 'Parses an XML string into an object.'],
+    ['STRIP_NULL_VALUE', 'expr VARIANT', 'VARIANT', 'Converts a JSON null to SQL NULL.'],
+    ['TO_JSON', 'expr VARIANT', 'STRING', 'Serializes a variant to a JSON string.'],
+    ['TRY_PARSE_JSON', 'expr STRING', 'VARIANT', 'Like PARSE_JSON, but returns NULL for invalid JSON.'],
+    ['TYPEOF', 'expr VARIANT', 'STRING', 'Returns the type of the value stored in a variant.'],
+  ],
+  [FunctionCategory.CONTEXT]: [
+    ['CURRENT_ACCOUNT', '', 'STRING', 'Returns the account locator of the current session.'],
+    ['CURRENT_DATABASE', '', 'STRING', 'Returns the current database of the session.'],
+    ['CURRENT_REGION', '', 'STRING', 'Returns the region of the current account.'],
+    ['CURRENT_ROLE', '', 'STRING', 'Returns the primary role of the session.'],
+    ['CURRENT_SCHEMA', '', 'STRING', 'Returns the current schema of the session.'],
+    ['CURRENT_SCHEMAS', '', 'STRING', 'Returns the schemas of the search path.'],
+    ['CURRENT_SESSION', '', 'STRING', 'Returns the ID of the current session.'],
+    ['CURRENT_STATEMENT', '', 'STRING', 'Returns the text of the running statement.'],
+    ['CURRENT_TRANSACTION', '', 'STRING', 'Returns the ID of the open transaction.'],
+    ['CURRENT_USER', '', 'STRING', 'Returns the name of the user.'],
+    ['CURRENT_VERSION', '', 'STRING', 'Returns the Snowflake version.'],
+    ['CURRENT_WAREHOUSE', '', 'STRING', 'Returns the current warehouse of the session.'],
+    ['GET_DDL', 'object_type STRING, object_name STRING, [use_fully_qualified_names BOOLEAN]', 'STRING', 'Returns the DDL statement that recreates an object.'],
+    ['IS_ROLE_IN_SESSION', 'role STRING', 'BOOLEAN', 'Returns TRUE if the role is active in the session.'],
+    ['LAST_QUERY_ID', '[num NUMBER]', 'STRING', 'Returns the ID of a query of the session (the last by default).'],
+    ['SYSTEM$CLUSTERING_INFORMATION', 'table_name STRING, [columns STRING]', 'STRING', 'Returns clustering information of a table as JSON.'],
+    ['SYSTEM$TYPEOF', 'expr ANY', 'STRING', 'Returns the SQL data type of an expression.'],
+  ],
+  [FunctionCategory.HASH]: [
+    ['HASH', 'expr ANY...', 'NUMBER', 'Returns a signed 64-bit hash of the arguments.'],
+    ['MD5', 'msg STRING', 'STRING', 'Returns the MD5 digest as a hex string.'],
+    ['SHA1', 'msg STRING', 'STRING', 'Returns the SHA-1 digest as a hex string.'],
+    ['SHA2', 'msg STRING, [digest_size NUMBER]', 'STRING', 'Returns the SHA-2 digest as a hex string.'],
+  ],
+  [FunctionCategory.TABLE]: [
+    ['FLATTEN', 'input VARIANT, [path STRING], [outer BOOLEAN], [recursive BOOLEAN], [mode STRING]', 'TABLE', 'Explodes an array or object into rows (SEQ, KEY, PATH, INDEX, VALUE, THIS).'],
+    ['GENERATOR', 'rowcount NUMBER, [timelimit NUMBER]', 'TABLE', 'Generates rows; use with SEQ4(), UNIFORM(), ... in the SELECT list.'],
+    ['RESULT_SCAN', 'query_id STRING', 'TABLE', 'Returns the result set of a previous query, e.g. RESULT_SCAN(LAST_QUERY_ID()).'],
+    ['SPLIT_TO_TABLE', 'str STRING, delimiter STRING', 'TABLE', 'Splits a string into rows (SEQ, INDEX, VALUE).'],
+    ['STRTOK_SPLIT_TO_TABLE', 'str STRING, [delimiters STRING]', 'TABLE', 'Tokenizes a string into rows (SEQ, INDEX, VALUE).'],
+  ],
+};
+
+// Function name -> overloads
+const FUNCTIONS: Map<string, FunctionInfo[]> = new Map();
+for (const category of Object.keys(CATALOG) as (keyof typeof CATALOG)[]) {
+  for (const [name, parameters, returnType, description] of CATALOG[category]) {
+    if (!FUNCTIONS.has(name)) {
+      FUNCTIONS.set(name, []);
+    }
+    FUNCTIONS.get(name)!.push({ name, category, parameters: parseParameters(parameters), returnType, description });
+  }
+}
+
+/**
+ * Parse a parameter list as written in the catalog
+ */
+function parseParameters(list: string): FunctionParameter[] {
+  if (!list) return [];
+
+  return list.split(', ').map(param => {
+    const optional = param.startsWith('[');
+    const variadic = param.endsWith('...');
+    const [name, type] = param.replace(/^\[|\]$|\.\.\.$/g, '').split(' ');
+    return { name, type, optional, variadic };
+  });
+}
+
+/**
+ * Get a built-in function by name (case-insensitive), its first overload if there are several
+ */
+export function getFunction(name: string): FunctionInfo | undefined {
+  return FUNCTIONS.get(name.toUpperCase())?.[0];
+}
+
+/**
+ * Get all overloads of a built-in function by name (case-insensitive)
+ */
+export function getFunctionOverloads(name: string): FunctionInfo[] {
+  return FUNCTIONS.get(name.toUpperCase()) || [];
+}
+
+/**
+ * Search built-in functions by prefix (for autocomplete), one entry per name
+ */
+export function searchFunctions(prefix: string, categories?: FunctionCategory[]): FunctionInfo[] {
+  const upperPrefix = prefix.toUpperCase();
+  return Array.from(FUNCTIONS.values(), overloads => overloads[0]).filter(fn =>
+    fn.name.startsWith(upperPrefix) && (!categories || categories.includes(fn.category))
+  );
+}
+
+/**
+ * Format a function signature, e.g. DATEADD(date_or_time_part STRING, value NUMBER, ...) → TIMESTAMP
+ */
+export function formatSignature(fn: FunctionInfo): string {
+  return `${fn.name}(${fn.parameters.map(formatParameter).join(', ')}) → ${fn.returnType}`;
+}
+
+/**
+ * Format a parameter as in a signature: [name TYPE] if optional, name TYPE... if repeated
+ */
+export function formatParameter(param: FunctionParameter): string {
+  const text = `${param.name ? `${param.name} ` : ''}${param.type}${param.variadic ? '...' : ''}`;
+  return param.optional ? `[${text}]` : text;
+}
+
+/**
+ * Create a snippet calling a function, with placeholders for its required parameters
+ */
+export function functionSnippet(fn: FunctionInfo): string {
+  const required = fn.parameters.filter(param => !param.optional);
+  const placeholders = required.map((param, i) => `\${${i + 1}:${param.name}}`);
+  return `${fn.name}(${placeholders.join(', ')})$0`;
+}
+
+/**
+ * Create function info for a user-defined function from its SHOW USER FUNCTIONS row
+ * The signature looks like MY_FN(NUMBER, [VARCHAR]) RETURN VARCHAR; arguments with
+ * defaults are in brackets, newer accounts also list argument names.
+ */
+export function userFunctionInfo(fn: UserFunctionInfo): FunctionInfo {
+  const signature = fn.arguments || '';
+  const open = signature.indexOf('(');
+  const close = matchingParen(signature, open);
+  const returns = signature.substring(close + 1).match(/RETURN\s+(.*)$/i);
+
+  const parameters = splitArguments(open === -1 ? '' : signature.substring(open + 1, close)).map(arg => {
+    const optional = arg.startsWith('[') && arg.endsWith(']');
+    const words = (optional ? arg.slice(1, -1) : arg).trim().split(/\s+/);
+    // A first word followed by more than a type modifier is an argument name
+    const named = words.length > 1 && !words[1].startsWith('(');
+    return {
+      name: named ? words[0] : '',
+      type: (named ? words.slice(1) : words).join(' '),
+      optional,
+      variadic: false,
+    };
+  });
+
+  return {
+    name: fn.name,
+    category: FunctionCategory.USER_DEFINED,
+    parameters,
+    returnType: returns ? returns[1].trim() : 'UNKNOWN',
+    description: fn.description || `${fn.language || 'SQL'} ${fn.is_table_function ? 'table function' : 'function'}`,
+    qualifiedName: makeQualifiedName(fn.catalog_name, fn.schema_name, fn.name),
+  };
+}
+
+/**
+ * Find the offset of the parenthesis closing the one at `open`, or the end of the text
+ */
+function matchingParen(text: string, open: number): number {
+  if (open === -1) return text.length;
+
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return text.length;
+}
+
+/**
+ * Split an argument list at commas outside of parentheses, e.g. NUMBER(38, 0), VARCHAR
+ */
+function splitArguments(list: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < list.length; i++) {
+    if (list[i] === '(') depth++;
+    else if (list[i] === ')') depth--;
+    else if (list[i] === ',' && depth === 0) {
+      args.push(list.substring(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = list.substring(start).trim();
+  if (last) args.push(last);
+
+  return args;
+}
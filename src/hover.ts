@@ -1,34 +1,175 @@
 import { Hover, MarkupContent, TextDocumentPositionParams } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { SchemaCache } from './schema-cache';
-import { parseContext } from './sql-parser';
-import { SnowflakeConnection } from './snowflake';
+import { CachedTable, SchemaCache } from './schema-cache';
+import {
+  AccountObjectKind,
+  AccountObjectReference,
+  findAccountObjectAt,
+  findNamePartAt,
+  parseContext,
+  ParsedContext,
+  SQLContext,
+  VirtualTable,
+  VirtualTableKind,
+} from './sql-parser';
+import {
+  ColumnInfo,
+  ColumnProfile,
+  DatabaseInfo,
+  RoleInfo,
+  SnowflakeConnection,
+  UserInfo,
+  WarehouseInfo,
+} from './snowflake';
+import { lookupColumns, resolveVirtualColumns } from './virtual-tables';
+import { makeQualifiedName, parseQualifiedName } from './identifiers';
+import { SessionContext, SessionVariable } from './session-context';
+import { ScriptVariable, ScriptVariableKind } from './scripting';
+import { DocumentCache } from './document-cache';
+import { DdlObject, ObjectDdlProvider, objectTypeLabel } from './object-ddl';
+import { DdlObjectType } from './ddl';
+
+// Tables with more rows are block sampled down to about this many rows for column profiles
+const PROFILE_SAMPLE_ROWS = 100000;
+
+// Most frequent values shown in a column profile
+const PROFILE_TOP_VALUES = 5;
+
+// How long a hover waits for a column profile; slower profiles still fill the cache for the next hover
+const PROFILE_TIMEOUT_MS = 3000;
+
+// How long a hover waits for the current state of a warehouse; slower fetches still refresh the cache
+const WAREHOUSE_STATE_TIMEOUT_MS = 1000;
+
+// Largest table profiled unless SNOWFLAKE_LSP_COLUMN_PROFILE_MAX_GB is set
+const DEFAULT_PROFILE_MAX_GB = 10;
+
+// Types without an order or meaningful frequent values
+const UNPROFILED_TYPES = ['VARIANT', 'OBJECT', 'ARRAY', 'GEOGRAPHY', 'GEOMETRY', 'VECTOR'];
+
+// Longest profile value shown before it is cut off
+const MAX_PROFILE_VALUE_LENGTH = 60;
+
+// Objects whose hover is their DDL; tables, views and account objects have hovers of their own,
+// and the DDL of a schema is too long to hover
+const DDL_HOVER_TYPES = [
+  DdlObjectType.FUNCTION,
+  DdlObjectType.PROCEDURE,
+  DdlObjectType.SEQUENCE,
+  DdlObjectType.STAGE,
+  DdlObjectType.TASK,
+  DdlObjectType.PIPE,
+  DdlObjectType.STREAM,
+  DdlObjectType.FILE_FORMAT,
+];
 
 export class HoverProvider {
+  private profileEnabled: boolean;
+  private profileMaxBytes: number;
+
   constructor(
     private schemaCache: SchemaCache,
-    private snowflakeConnection: SnowflakeConnection
-  ) {}
+    private snowflakeConnection: SnowflakeConnection,
+    private documentCache: DocumentCache,
+    private ddlProvider: ObjectDdlProvider
+  ) {
+    // Column profiles run queries on the warehouse, so they are opt-in
+    this.profileEnabled = process.env.SNOWFLAKE_LSP_ENABLE_COLUMN_PROFILE === 'true';
+    const maxGigabytes = Number(process.env.SNOWFLAKE_LSP_COLUMN_PROFILE_MAX_GB) || DEFAULT_PROFILE_MAX_GB;
+    this.profileMaxBytes = maxGigabytes * 1024 * 1024 * 1024;
+  }
 
   /**
    * Provide hover information for symbol at cursor position
+   * Unqualified table names resolve against the session context at the cursor, if given.
    */
   async provideHover(
     document: TextDocument,
-    params: TextDocumentPositionParams
+    params: TextDocumentPositionParams,
+    context?: SessionContext
   ): Promise<Hover | undefined> {
     try {
-      const text = document.getText();
+      const { text, tokens, statements, scopeTree } = this.documentCache.get(document);
       const offset = document.offsetAt(params.position);
 
       // Parse context to get current word
-      const parsed = parseContext(text, offset);
+      const parsed = parseContext(text, offset, tokens, statements, scopeTree);
       const word = parsed.currentWord;
 
       if (!word) return undefined;
 
-      // Try to find as table
-      const table = this.schemaCache.getTable(word);
+      // Session variable ($name)
+      if (parsed.context === SQLContext.VARIABLE) {
+        return {
+          contents: this.createVariableHoverContent(word, context?.variables.get(word.toUpperCase())),
+        };
+      }
+
+      // Snowflake Scripting variable (:name)
+      if (parsed.context === SQLContext.BIND_VARIABLE) {
+        const variable = parsed.scriptVariables.get(parseQualifiedName(word)[0]);
+        return variable
+          ? { contents: this.createScriptVariableHoverContent(variable, document.positionAt(variable.start).line) }
+          : undefined;
+      }
+
+      // Warehouse, role, user or database (USE, GRANT, ALTER WAREHOUSE, first part of qualified names)
+      const object = findAccountObjectAt(text, offset, tokens);
+      const objectContent = object ? await this.createAccountObjectHoverContent(object) : null;
+      if (objectContent) {
+        return { contents: objectContent };
+      }
+
+      // Functions, procedures, sequences, stages, tasks, pipes, streams and file formats show their DDL
+      const ddlObjects = this.ddlProvider.findObjectsAt(document, params.position, context)
+        .filter(o => DDL_HOVER_TYPES.includes(o.objectType));
+      const ddlContent = ddlObjects.length > 0 ? await this.createObjectDDLHoverContent(ddlObjects) : null;
+      if (ddlContent) {
+        return { contents: ddlContent };
+      }
+
+      // Aliases, CTEs and qualified columns resolve only through the relations in scope
+      const namePart = findNamePartAt(text, offset, tokens);
+      if (namePart) {
+        const { parts, index } = namePart;
+        const name = parts.slice(0, index + 1).join('.');
+
+        // Alias, CTE or derived table, also as the qualifier of a column (o in o.amount)
+        const alias = parsed.aliases.get(name);
+        if (alias && alias !== name) {
+          return {
+            contents: await this.createAliasHoverContent(name, alias, parsed, context),
+          };
+        }
+        const cte = parsed.virtualTables.get(name);
+        if (cte) {
+          return {
+            contents: this.createCTEHoverContent(cte, parsed),
+          };
+        }
+
+        // Table in scope qualifying a column (orders in orders.amount)
+        const qualified = index < parts.length - 1 ? this.findRelationInScope(name, parsed) : null;
+        const qualifiedTable = qualified ? this.schemaCache.getTable(qualified, context) : undefined;
+        if (qualifiedTable) {
+          return {
+            contents: await this.createTableHoverContent(qualifiedTable),
+          };
+        }
+
+        // Column qualified by an alias or a table in scope (amount in o.amount)
+        const relation = index > 0 && index === parts.length - 1
+          ? this.findRelationInScope(parts.slice(0, index).join('.'), parsed)
+          : null;
+        if (relation) {
+          await this.loadColumns([relation], context);
+          const column = lookupColumns(relation, parsed, this.schemaCache).find(c => c.columnName === parseQualifiedName(parts[index])[0]);
+          return column ? { contents: await this.createColumnHoverContent(column) } : undefined;
+        }
+      }
+
+      // Try to find as table or view
+      const table = this.schemaCache.getTable(word, context);
       if (table) {
         try {
           return {
@@ -40,7 +181,7 @@ export class HoverProvider {
           return {
             contents: {
               kind: 'markdown',
-              value: `### Table: \`${table.info.name}\`\n\n**Schema**: ${table.info.schema}\n\n_Error loading details_`,
+              value: `### ${this.relationHeading(table)}: \`${table.info.name}\`\n\n**Schema**: ${table.info.schema}\n\n_Error loading details_`,
             },
           };
         }
@@ -48,16 +189,19 @@ export class HoverProvider {
 
       // Try to find as column
       // Need to check tables in scope to determine which table the column belongs to
+      const columnName = parseQualifiedName(word).pop();
+      await this.loadColumns(
+        parsed.tablesInScope.filter(name => !parsed.aliases.has(name) && !parsed.virtualTables.has(name)),
+        context
+      );
       for (const tableName of parsed.tablesInScope) {
         try {
-          const columns = this.schemaCache.getTableColumns(tableName);
-          const column = columns.find(c =>
-            c.columnName.toLowerCase() === word.toLowerCase()
-          );
+          const columns = lookupColumns(tableName, parsed, this.schemaCache);
+          const column = columns.find(c => c.columnName === columnName);
 
           if (column) {
             return {
-              contents: this.createColumnHoverContent(column),
+              contents: await this.createColumnHoverContent(column),
             };
           }
         } catch (error) {
@@ -66,18 +210,7 @@ export class HoverProvider {
         }
       }
 
-      // If not found in scope tables, search all columns
-      try {
-        const allColumns = this.schemaCache.searchColumns(word, undefined, 1);
-        if (allColumns.length > 0) {
-          return {
-            contents: this.createColumnHoverContent(allColumns[0].info),
-          };
-        }
-      } catch (error) {
-        console.error('Error searching columns:', error);
-      }
-
+      // Columns of tables not in scope are not shown
       return undefined;
     } catch (error) {
       console.error('Hover provider error:', error);
@@ -85,6 +218,36 @@ export class HoverProvider {
     }
   }
 
+  /**
+   * Get the relation a qualifier refers to: an alias, CTE, derived table or table in scope
+   * Returns the table or CTE name in qualified name form, or null if the qualifier is not in scope.
+   */
+  private findRelationInScope(qualifier: string, parsed: ParsedContext): string | null {
+    const alias = parsed.aliases.get(qualifier);
+    if (alias) return alias;
+    if (parsed.virtualTables.has(qualifier)) return qualifier;
+    return parsed.tablesInScope.find(t => t === qualifier || t.endsWith('.' + qualifier)) || null;
+  }
+
+  /**
+   * Load the columns of schema tables and views not loaded yet; failures leave them without columns
+   */
+  private async loadColumns(names: string[], context?: SessionContext): Promise<void> {
+    await Promise.all(names.map(async name => {
+      const table = this.schemaCache.getTable(name, context);
+      if (!table || this.schemaCache.hasColumns(table.qualifiedName)) return;
+
+      try {
+        await this.schemaCache.ensureColumnsLoaded(
+          table.qualifiedName,
+          (db, schema, tbl) => this.snowflakeConnection.fetchColumnsForTable(db, schema, tbl)
+        );
+      } catch (error) {
+        console.error(`Failed to load columns for ${table.qualifiedName}:`, error);
+      }
+    }));
+  }
+
   /**
    * Format bytes to human-readable format
    */
@@ -108,11 +271,19 @@ export class HoverProvider {
   }
 
   /**
-   * Create hover content for a table (async to fetch DDL)
+   * Get the hover heading of a table or view
    */
-  private async createTableHoverContent(table: any): Promise<MarkupContent> {
+  private relationHeading(table: CachedTable): string {
+    if (!table.view) return 'Table';
+    return `${table.view.is_secure ? 'Secure ' : ''}${table.view.is_materialized ? 'Materialized View' : 'View'}`;
+  }
+
+  /**
+   * Create hover content for a table or view (async to fetch DDL)
+   */
+  private async createTableHoverContent(table: CachedTable): Promise<MarkupContent> {
     const info = table.info;
-    const qualifiedName = `${info.catalog}.${info.schema}.${info.name}`;
+    const qualifiedName = table.qualifiedName;
 
     // Enable async operations now that basic hover works
     const skipAsyncOps = false;
@@ -133,16 +304,15 @@ export class HoverProvider {
         }
       }
 
-      // Lazy-load DDL if not cached
-      ddl = this.schemaCache.getDDL(qualifiedName);
-      if (!ddl) {
-        try {
-          ddl = await this.snowflakeConnection.fetchDDL(info.catalog, info.schema, info.name);
-          this.schemaCache.cacheDDL(qualifiedName, ddl);
-        } catch (error) {
-          console.error(`Failed to fetch DDL for ${qualifiedName}:`, error);
-          ddl = undefined;
-        }
+      // Lazy-load DDL if not cached; views show their formatted definition
+      try {
+        ddl = await this.ddlProvider.getDDL({
+          objectType: table.view ? DdlObjectType.VIEW : DdlObjectType.TABLE,
+          name: qualifiedName,
+        });
+      } catch (error) {
+        console.error(`Failed to fetch DDL for ${qualifiedName}:`, error);
+        ddl = undefined;
       }
 
       // Get updated table with columns
@@ -157,14 +327,14 @@ export class HoverProvider {
       : '  _(Columns not loaded - hover again to load)_';
 
     const markdown = [
-      `### Table: \`${info.name}\``,
+      `### ${this.relationHeading(table)}: \`${info.name}\``,
       '',
       `**Database**: ${info.catalog}`,
       `**Schema**: ${info.schema}`,
       `**Type**: ${info.kind || info.type}`,
       `**Owner**: ${info.owner}`,
-      `**Rows**: ${this.formatNumber(info.rows)}`,
-      `**Size**: ${this.formatBytes(info.bytes)}`,
+      table.view ? '' : `**Rows**: ${this.formatNumber(info.rows)}`,
+      table.view ? '' : `**Size**: ${this.formatBytes(info.bytes)}`,
       `**Created**: ${info.created_on}`,
       info.comment ? `**Comment**: ${info.comment}` : '',
       info.cluster_by ? `**Cluster By**: ${info.cluster_by}` : '',
@@ -176,8 +346,298 @@ export class HoverProvider {
     ].filter(line => line !== '').join('\n');
 
     // Add DDL section if available
-    const fullMarkdown = ddl
-      ? markdown + '\n\n---\n\n#### DDL:\n```sql\n' + ddl + '\n```'
+    let fullMarkdown = markdown;
+    if (ddl) {
+      fullMarkdown += `\n\n---\n\n#### ${table.view ? 'Definition' : 'DDL'}:\n\`\`\`sql\n${ddl}\n\`\`\``;
+    } else if (table.view?.is_secure) {
+      fullMarkdown += '\n\n---\n\n_Definition hidden: secure view owned by another role_';
+    }
+
+    return {
+      kind: 'markdown',
+      value: fullMarkdown,
+    };
+  }
+
+  /**
+   * Create hover content with the DDL of objects, e.g. the overloads of a called function
+   * Returns null if none of them has DDL (not connected, or GET_DDL failed).
+   */
+  private async createObjectDDLHoverContent(objects: DdlObject[]): Promise<MarkupContent | null> {
+    const sections: string[] = [];
+    for (const object of objects) {
+      try {
+        const ddl = await this.ddlProvider.getDDL(object);
+        if (!ddl) continue;
+
+        const label = objectTypeLabel(object.objectType);
+        const heading = label.charAt(0).toUpperCase() + label.slice(1);
+        sections.push(`### ${heading}: \`${object.name}\`\n\n\`\`\`sql\n${ddl}\n\`\`\``);
+      } catch (error) {
+        console.error(`Failed to fetch DDL for ${object.objectType} ${object.name}:`, error);
+      }
+    }
+
+    return sections.length > 0 ? { kind: 'markdown', value: sections.join('\n\n---\n\n') } : null;
+  }
+
+  /**
+   * Create hover content for a warehouse, role, user or database, or null if it isn't cached
+   */
+  private async createAccountObjectHoverContent(object: AccountObjectReference): Promise<MarkupContent | null> {
+    switch (object.kind) {
+      case AccountObjectKind.WAREHOUSE: {
+        const live = await this.fetchLiveWarehouse(object.name);
+        const warehouse = live || this.schemaCache.getWarehouse(object.name);
+        return warehouse ? this.createWarehouseHoverContent(warehouse, !!live) : null;
+      }
+      case AccountObjectKind.ROLE: {
+        const role = this.schemaCache.getRole(object.name);
+        return role ? this.createRoleHoverContent(role) : null;
+      }
+      case AccountObjectKind.USER: {
+        const user = this.schemaCache.getUser(object.name);
+        return user ? this.createUserHoverContent(user) : null;
+      }
+      case AccountObjectKind.DATABASE: {
+        const database = this.schemaCache.getDatabase(object.name);
+        return database ? this.createDatabaseHoverContent(object.name, database.info, database.schemasLoaded ? database.schemas.size : null) : null;
+      }
+    }
+  }
+
+  /**
+   * Fetch the current state of a warehouse and refresh the cache with it
+   * Returns null when offline, when the fetch fails or takes longer than
+   * WAREHOUSE_STATE_TIMEOUT_MS; the cached state is shown instead.
+   */
+  private async fetchLiveWarehouse(name: string): Promise<WarehouseInfo | null> {
+    if (!this.snowflakeConnection.isConnectionActive()) return null;
+
+    const live = this.snowflakeConnection.fetchWarehouse(name).then(warehouse => {
+      if (warehouse) {
+        this.schemaCache.updateWarehouse(warehouse);
+      }
+      return warehouse;
+    }).catch(error => {
+      console.error(`Failed to fetch state of warehouse ${name}:`, error);
+      return null;
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), WAREHOUSE_STATE_TIMEOUT_MS); });
+    const result = await Promise.race([live, timeout]);
+    clearTimeout(timer);
+    return result;
+  }
+
+  /**
+   * Create hover content for a warehouse
+   */
+  private createWarehouseHoverContent(warehouse: WarehouseInfo, live: boolean): MarkupContent {
+    const markdown = [
+      `### Warehouse: \`${warehouse.name}\``,
+      '',
+      `**Size**: ${warehouse.size}`,
+      `**Type**: ${warehouse.type}`,
+      `**State**: ${warehouse.state}${warehouse.is_current ? ' (current warehouse)' : ''}`,
+      `**Running**: ${this.formatNumber(warehouse.running)} queries`,
+      `**Queued**: ${this.formatNumber(warehouse.queued)} queries`,
+      `**Auto Suspend**: ${warehouse.auto_suspend ? `${this.formatNumber(warehouse.auto_suspend)} seconds` : 'Never'}`,
+      `**Auto Resume**: ${warehouse.auto_resume ? 'Yes' : 'No'}`,
+      warehouse.resource_monitor && warehouse.resource_monitor !== 'null'
+        ? `**Resource Monitor**: ${warehouse.resource_monitor}`
+        : '',
+      `**Owner**: ${warehouse.owner}`,
+      `**Created**: ${warehouse.created_on}`,
+      warehouse.comment ? `**Comment**: ${warehouse.comment}` : '',
+      live ? '' : '\n_State as of the last schema refresh_',
+    ].filter(line => line !== '').join('\n');
+
+    return {
+      kind: 'markdown',
+      value: markdown,
+    };
+  }
+
+  /**
+   * Create hover content for a role
+   */
+  private createRoleHoverContent(role: RoleInfo): MarkupContent {
+    const markdown = [
+      `### Role: \`${role.name}\``,
+      '',
+      role.is_current ? '**Current role**' : '',
+      `**Owner**: ${role.owner}`,
+      `**Assigned To Users**: ${this.formatNumber(role.assigned_to_users)}`,
+      `**Granted To Roles**: ${this.formatNumber(role.granted_to_roles)}`,
+      `**Granted Roles**: ${this.formatNumber(role.granted_roles)}`,
+      `**Created**: ${role.created_on}`,
+      role.comment ? `**Comment**: ${role.comment}` : '',
+    ].filter(line => line !== '').join('\n');
+
+    return {
+      kind: 'markdown',
+      value: markdown,
+    };
+  }
+
+  /**
+   * Create hover content for a user
+   */
+  private createUserHoverContent(user: UserInfo): MarkupContent {
+    const markdown = [
+      `### User: \`${user.name}\``,
+      '',
+      user.display_name && user.display_name !== user.name ? `**Display Name**: ${user.display_name}` : '',
+      `**Login Name**: ${user.login_name}`,
+      user.email ? `**Email**: ${user.email}` : '',
+      user.disabled ? '**Disabled**: Yes' : '',
+      user.snowflake_lock ? '**Locked**: Yes' : '',
+      user.default_role ? `**Default Role**: ${user.default_role}` : '',
+      user.default_warehouse ? `**Default Warehouse**: ${user.default_warehouse}` : '',
+      user.default_namespace ? `**Default Namespace**: ${user.default_namespace}` : '',
+      `**Owner**: ${user.owner}`,
+      `**Created**: ${user.created_on}`,
+      user.comment ? `**Comment**: ${user.comment}` : '',
+    ].filter(line => line !== '').join('\n');
+
+    return {
+      kind: 'markdown',
+      value: markdown,
+    };
+  }
+
+  /**
+   * Create hover content for a database; info is missing for databases only known from their tables
+   */
+  private createDatabaseHoverContent(name: string, info: DatabaseInfo | null, schemaCount: number | null): MarkupContent {
+    const markdown = [
+      `### Database: \`${name}\``,
+      '',
+      info ? `**Owner**: ${info.owner}` : '',
+      info ? `**Created**: ${info.created_on}` : '',
+      info ? `**Retention Time**: ${info.retention_time} days` : '',
+      schemaCount !== null ? `**Schemas**: ${this.formatNumber(schemaCount)}` : '',
+      info?.comment ? `**Comment**: ${info.comment}` : '',
+    ].filter(line => line !== '').join('\n');
+
+    return {
+      kind: 'markdown',
+      value: markdown,
+    };
+  }
+
+  /**
+   * Create hover content for an alias: what it refers to, then the hover of that table, view or CTE
+   */
+  private async createAliasHoverContent(
+    alias: string,
+    relation: string,
+    parsed: ParsedContext,
+    context?: SessionContext
+  ): Promise<MarkupContent> {
+    const heading = `### Alias: \`${alias}\``;
+
+    const virtual = parsed.virtualTables.get(relation);
+    if (virtual) {
+      const kind = virtual.kind === VirtualTableKind.CTE ? 'CTE'
+        : virtual.kind === VirtualTableKind.TABLE_FUNCTION ? 'table function'
+        : 'subquery';
+      return {
+        kind: 'markdown',
+        value: `${heading}\n**Refers To**: \`${relation}\` (${kind})\n\n---\n\n${this.createCTEHoverContent(virtual, parsed).value}`,
+      };
+    }
+
+    const table = this.schemaCache.getTable(relation, context);
+    if (!table) {
+      return {
+        kind: 'markdown',
+        value: `${heading}\n**Refers To**: \`${relation}\`\n\n_Not found in schema cache_`,
+      };
+    }
+
+    const kind = table.view ? 'view' : 'table';
+    const content = await this.createTableHoverContent(table);
+    return {
+      kind: 'markdown',
+      value: `${heading}\n**Refers To**: \`${table.qualifiedName}\` (${kind})\n\n---\n\n${content.value}`,
+    };
+  }
+
+  /**
+   * Create hover content for a common table expression or derived table
+   */
+  private createCTEHoverContent(cte: VirtualTable, parsed: ParsedContext): MarkupContent {
+    const columns = resolveVirtualColumns(cte, this.schemaCache);
+    const sources = cte.kind === VirtualTableKind.TABLE_FUNCTION ? '' : [
+      ...cte.scope.tables.map(ref => ref.name),
+      ...cte.scope.derivedTables.map(derived => derived.name),
+    ].map(name => `\`${name}\``).join(', ');
+    const heading = cte.kind === VirtualTableKind.CTE ? 'CTE'
+      : cte.kind === VirtualTableKind.TABLE_FUNCTION ? 'Table Function'
+      : 'Subquery';
+
+    const columnList = columns.length > 0
+      ? columns.map(col => `  - \`${col.columnName}\` (${col.dataType})`).join('\n')
+      : '  _(No columns could be inferred)_';
+
+    const markdown = [
+      `### ${heading}: \`${cte.name}\``,
+      '',
+      cte.functionName ? `**Function**: ${cte.functionName}` : '',
+      sources ? `**Reads From**: ${sources}` : '',
+      `**Columns**: ${columns.length}`,
+      '',
+      '#### Column List:',
+      columnList,
+    ].filter(line => line !== '').join('\n');
+
+    return {
+      kind: 'markdown',
+      value: markdown,
+    };
+  }
+
+  /**
+   * Create hover content for a session variable
+   */
+  private createVariableHoverContent(name: string, variable: SessionVariable | undefined): MarkupContent {
+    const markdown = variable
+      ? [
+          `### Variable: \`$${variable.name}\``,
+          '',
+          `**Value**: \`${variable.value}\``,
+          `**Type**: ${variable.dataType}`,
+          `**Set on line**: ${variable.line + 1}`,
+        ].join('\n')
+      : `### Variable: \`$${name}\`\n\n_Not set before this statement_`;
+
+    return {
+      kind: 'markdown',
+      value: markdown,
+    };
+  }
+
+  /**
+   * Create hover content for a Snowflake Scripting variable, argument or cursor
+   */
+  private createScriptVariableHoverContent(variable: ScriptVariable, declaredLine: number): MarkupContent {
+    const isQuery = variable.kind === ScriptVariableKind.CURSOR || variable.kind === ScriptVariableKind.RESULTSET;
+    const kind = variable.kind.charAt(0) + variable.kind.slice(1).toLowerCase();
+
+    const markdown = [
+      `### ${kind}: \`:${variable.name}\``,
+      '',
+      variable.dataType ? `**Type**: ${variable.dataType}` : '',
+      variable.value && !isQuery ? `**Value**: \`${variable.value}\`` : '',
+      `**Declared on line**: ${declaredLine + 1}`,
+    ].filter(line => line !== '').join('\n');
+
+    // Show the query of cursors and result sets
+    const fullMarkdown = variable.value && isQuery
+      ? markdown + '\n\n```sql\n' + variable.value + '\n```'
       : markdown;
 
     return {
@@ -187,14 +647,14 @@ export class HoverProvider {
   }
 
   /**
-   * Create hover content for a column
+   * Create hover content for a column, with its sampled profile if enabled
    */
-  private createColumnHoverContent(column: any): MarkupContent {
+  private async createColumnHoverContent(column: ColumnInfo): Promise<MarkupContent> {
     const markdown = [
       `### Column: \`${column.columnName}\``,
       '',
       `**Table**: ${column.tableName}`,
-      `**Schema**: ${column.schema}`,
+      column.schema ? `**Schema**: ${column.schema}` : '',
       `**Data Type**: ${column.dataType}`,
       `**Nullable**: ${column.isNullable}`,
       column.columnDefault ? `**Default**: ${column.columnDefault}` : '',
@@ -203,9 +663,73 @@ export class HoverProvider {
       column.autoincrement ? `**Autoincrement**: ${column.autoincrement}` : '',
     ].filter(line => line !== '').join('\n');
 
+    const profile = await this.getColumnProfile(column);
     return {
       kind: 'markdown',
-      value: markdown,
+      value: profile ? `${markdown}\n\n---\n\n${this.formatColumnProfile(profile)}` : markdown,
+    };
+  }
+
+  /**
+   * Get the sampled profile of a table column, from cache or computed now
+   * Returns null when profiling is off, for columns of views, CTEs and subqueries, for
+   * unsupported types, for tables of unknown size or above the size limit, when offline,
+   * and when the profile takes longer than PROFILE_TIMEOUT_MS. The profile query runs on
+   * the warehouse of the server's connection, not one chosen by USE WAREHOUSE in the document.
+   */
+  private async getColumnProfile(column: ColumnInfo): Promise<ColumnProfile | null> {
+    if (!this.profileEnabled || !column.catalog) return null;
+    if (UNPROFILED_TYPES.includes(column.dataType.split('(')[0].trim().toUpperCase())) return null;
+
+    const qualifiedName = makeQualifiedName(column.catalog, column.schema, column.tableName, column.columnName);
+    const cached = this.schemaCache.getColumnProfile(qualifiedName);
+    if (cached) return cached;
+
+    const table = this.schemaCache.getTable(makeQualifiedName(column.catalog, column.schema, column.tableName));
+    if (!table || table.view || table.info.rows === null || table.info.bytes === null) return null;
+    if (table.info.bytes > this.profileMaxBytes || !this.snowflakeConnection.isConnectionActive()) return null;
+
+    // SAMPLE SYSTEM takes a percentage with up to 4 decimals
+    const rows = table.info.rows;
+    const samplePercent = rows > PROFILE_SAMPLE_ROWS ? Math.max(0.0001, PROFILE_SAMPLE_ROWS / rows * 100) : 100;
+
+    const profile = this.schemaCache.ensureColumnProfile(qualifiedName, () => this.snowflakeConnection.fetchColumnProfile(
+      column.catalog, column.schema, column.tableName, column.columnName, samplePercent, PROFILE_TOP_VALUES
+    )).catch(error => {
+      console.error(`Failed to profile column ${qualifiedName}:`, error);
+      return null;
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), PROFILE_TIMEOUT_MS); });
+    const result = await Promise.race([profile, timeout]);
+    clearTimeout(timer);
+    return result;
+  }
+
+  /**
+   * Format a column profile; shares are of the sampled rows
+   */
+  private formatColumnProfile(profile: ColumnProfile): string {
+    const share = (count: number) => profile.sampledRows > 0
+      ? `${(count / profile.sampledRows * 100).toFixed(1)}%`
+      : 'N/A';
+    const value = (text: string | null) => {
+      if (text === null) return '_NULL_';
+      return `\`${text.length > MAX_PROFILE_VALUE_LENGTH ? text.substring(0, MAX_PROFILE_VALUE_LENGTH) + '…' : text}\``;
     };
+    const sample = profile.samplePercent < 100
+      ? `sample of ${this.formatNumber(profile.sampledRows)} rows`
+      : `all ${this.formatNumber(profile.sampledRows)} rows`;
+
+    return [
+      `#### Profile (${sample}):`,
+      `**Distinct**: ~${this.formatNumber(profile.distinctCount)}`,
+      `**Nulls**: ${share(profile.nullCount)}`,
+      profile.min !== null ? `**Min**: ${value(profile.min)}` : '',
+      profile.max !== null ? `**Max**: ${value(profile.max)}` : '',
+      profile.topValues.length > 0 ? '**Top Values**:' : '',
+      ...profile.topValues.map(top => `  - ${value(top.value)} (${share(top.count)})`),
+    ].filter(line => line !== '').join('\n');
   }
 }
@@ -0,0 +1,66 @@
+import { Token, TokenType, tokenize, identifierValue } from './sql-lexer';
+
+// Snowflake reserved keywords, which must be quoted when used as identifiers
+const RESERVED_KEYWORDS = new Set([
+  'ACCOUNT', 'ALL', 'ALTER', 'AND', 'ANY', 'AS', 'BETWEEN', 'BY', 'CASE', 'CAST', 'CHECK', 'COLUMN',
+  'CONNECT', 'CONNECTION', 'CONSTRAINT', 'CREATE', 'CROSS', 'CURRENT', 'CURRENT_DATE', 'CURRENT_TIME',
+  'CURRENT_TIMESTAMP', 'CURRENT_USER', 'DATABASE', 'DELETE', 'DISTINCT', 'DROP', 'ELSE', 'EXISTS',
+  'FALSE', 'FOLLOWING', 'FOR', 'FROM', 'FULL', 'GRANT', 'GROUP', 'GSCLUSTER', 'HAVING', 'ILIKE', 'IN',
+  'INCREMENT', 'INNER', 'INSERT', 'INTERSECT', 'INTO', 'IS', 'ISSUE', 'JOIN', 'LATERAL', 'LEFT', 'LIKE',
+  'LOCALTIME', 'LOCALTIMESTAMP', 'MINUS', 'NATURAL', 'NOT', 'NULL', 'OF', 'ON', 'OR', 'ORDER',
+  'ORGANIZATION', 'QUALIFY', 'REGEXP', 'REVOKE', 'RIGHT', 'RLIKE', 'ROW', 'ROWS', 'SAMPLE', 'SCHEMA',
+  'SELECT', 'SET', 'SOME', 'START', 'TABLE', 'TABLESAMPLE', 'THEN', 'TO', 'TRIGGER', 'TRUE', 'TRY_CAST',
+  'UNION', 'UNIQUE', 'UPDATE', 'USING', 'VALUES', 'VIEW', 'WHEN', 'WHENEVER', 'WHERE', 'WITH',
+]);
+
+/**
+ * Check if a name is a reserved keyword
+ */
+export function isReservedKeyword(name: string): boolean {
+  return RESERVED_KEYWORDS.has(name.toUpperCase());
+}
+
+/**
+ * Resolve an identifier token to the object name it refers to
+ * Unquoted identifiers fold to upper case, quoted identifiers are taken exactly.
+ */
+export function resolveIdentifier(token: Token): string {
+  return token.type === TokenType.QUOTED_IDENTIFIER ? identifierValue(token) : token.text.toUpperCase();
+}
+
+/**
+ * Render an object name as an identifier, quoting it only when required
+ * MY_TABLE stays as is; MixedCase, "my table" and reserved words are quoted.
+ */
+export function quoteIdentifier(name: string): string {
+  if (/^[A-Z_][A-Z0-9_$]*$/.test(name) && !RESERVED_KEYWORDS.has(name)) {
+    return name;
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Create a qualified name from resolved name parts
+ * The result is valid SQL and unique per object, so it is used as cache key.
+ */
+export function makeQualifiedName(...parts: string[]): string {
+  return parts.map(quoteIdentifier).join('.');
+}
+
+/**
+ * Split a dotted name as written in SQL into resolved name parts
+ * Example: db.sales."Order Lines" → ['DB', 'SALES', 'Order Lines']
+ */
+export function parseQualifiedName(name: string): string[] {
+  return tokenize(name)
+    .filter(t => t.type === TokenType.IDENTIFIER || t.type === TokenType.QUOTED_IDENTIFIER)
+    .map(resolveIdentifier);
+}
+
+/**
+ * Normalize a dotted name as written in SQL to its qualified name form
+ * Example: sales."Orders" → SALES."Orders"
+ */
+export function normalizeName(name: string): string {
+  return makeQualifiedName(...parseQualifiedName(name));
+}
@@ -0,0 +1,189 @@
+import { ColumnInfo } from './snowflake';
+import { NameResolutionContext, SchemaCache } from './schema-cache';
+import { ParsedContext, TableReference } from './sql-parser';
+import { resolveVirtualColumns } from './virtual-tables';
+import { makeQualifiedName, parseQualifiedName, quoteIdentifier } from './identifiers';
+
+export enum JoinConfidence {
+  SAME_NAME = 1,    // Columns with the same name and type
+  KEY_NAME = 2,     // Key-like columns matched by name (CUSTOMER_ID = CUSTOMERS.ID)
+  FOREIGN_KEY = 3,  // Declared foreign key
+}
+
+export interface JoinCondition {
+  predicate: string;  // e.g. O.CUSTOMER_ID = C.ID
+  confidence: JoinConfidence;
+  reason: string;
+}
+
+/**
+ * Table reference in the FROM clause with what is known about it
+ */
+interface JoinSide {
+  qualifier: string;              // Alias, or the table name without database and schema
+  tableName: string;              // Resolved table name (last part)
+  qualifiedName: string | null;   // DATABASE.SCHEMA.TABLE of schema tables
+  columns: ColumnInfo[];
+}
+
+// Suffixes of columns that reference another table's key (CUSTOMER_ID, DATE_KEY, PRODUCT_SK)
+const KEY_SUFFIXES = ['_ID', '_KEY', '_SK'];
+
+/**
+ * Suggest join predicates for the table joined last before the position
+ * Predicates relate it to each table joined before it: declared foreign keys in either
+ * direction, key columns named after the other table, then columns with the same name
+ * and type. Results are ordered by confidence.
+ */
+export function suggestJoinConditions(
+  parsed: ParsedContext,
+  position: number,
+  schemaCache: SchemaCache,
+  context?: NameResolutionContext
+): JoinCondition[] {
+  const refs = parsed.scope.tables
+    .filter(ref => ref.start < position)
+    .sort((a, b) => a.start - b.start);
+  if (refs.length < 2) return [];
+
+  const side = (ref: TableReference): JoinSide => {
+    const tableName = parseQualifiedName(ref.name).pop() || ref.name;
+    const qualifier = ref.alias || quoteIdentifier(tableName);
+    const virtual = parsed.virtualTables.get(ref.name);
+    if (virtual) {
+      return { qualifier, tableName, qualifiedName: null, columns: resolveVirtualColumns(virtual, schemaCache) };
+    }
+    const table = schemaCache.getTable(ref.name, context);
+    return { qualifier, tableName, qualifiedName: table?.qualifiedName || null, columns: table?.columns || [] };
+  };
+
+  const joined = side(refs[refs.length - 1]);
+  // Keyed by the predicate with sides in a fixed order, so a = b and b = a are one condition
+  const conditions = new Map<string, JoinCondition>();
+  const add = (condition: JoinCondition) => {
+    const key = condition.predicate.split(' AND ').map(eq => eq.split(' = ').sort().join(' = ')).sort().join(' AND ');
+    const existing = conditions.get(key);
+    if (!existing || existing.confidence < condition.confidence) {
+      conditions.set(key, condition);
+    }
+  };
+
+  for (const ref of refs.slice(0, -1)) {
+    const other = side(ref);
+    foreignKeyConditions(joined, other, schemaCache).forEach(add);
+    foreignKeyConditions(other, joined, schemaCache).forEach(add);
+    keyNameConditions(joined, other).forEach(add);
+    keyNameConditions(other, joined).forEach(add);
+    sameNameConditions(joined, other).forEach(add);
+  }
+
+  return Array.from(conditions.values())
+    .sort((a, b) => b.confidence - a.confidence || a.predicate.localeCompare(b.predicate));
+}
+
+/**
+ * Predicates from foreign keys of `from` that reference `to`
+ * Multi-column keys become one predicate joined with AND.
+ */
+function foreignKeyConditions(from: JoinSide, to: JoinSide, schemaCache: SchemaCache): JoinCondition[] {
+  if (!from.qualifiedName || !to.qualifiedName) return [];
+
+  const keys = schemaCache.getTableKeys(from.qualifiedName)?.foreignKeys || [];
+  const byName = new Map<string, typeof keys>();
+  for (const key of keys) {
+    if (makeQualifiedName(key.pk_database_name, key.pk_schema_name, key.pk_table_name) !== to.qualifiedName) continue;
+    if (!byName.has(key.fk_name)) {
+      byName.set(key.fk_name, []);
+    }
+    byName.get(key.fk_name)!.push(key);
+  }
+
+  return Array.from(byName, ([name, columns]) => ({
+    predicate: columns
+      .sort((a, b) => a.key_sequence - b.key_sequence)
+      .map(key => equals(from, key.fk_column_name, to, key.pk_column_name))
+      .join(' AND '),
+    confidence: JoinConfidence.FOREIGN_KEY,
+    reason: `Foreign key ${name}`,
+  }));
+}
+
+/**
+ * Predicates from key columns of `from` named after `to`, e.g. CUSTOMER_ID → CUSTOMERS.ID
+ * The referenced column is the other table's ID column, or its column of the same name.
+ */
+function keyNameConditions(from: JoinSide, to: JoinSide): JoinCondition[] {
+  const entity = singular(to.tableName.toUpperCase());
+  const conditions: JoinCondition[] = [];
+
+  for (const column of from.columns) {
+    const name = column.columnName.toUpperCase();
+    const suffix = KEY_SUFFIXES.find(s => name.endsWith(s));
+    if (!suffix) continue;
+
+    // The prefix names the entity; dimension tables are often prefixed (DIM_CUSTOMER)
+    const prefix = singular(name.slice(0, -suffix.length));
+    if (entity !== prefix && !entity.endsWith('_' + prefix)) continue;
+
+    const target = to.columns.find(c => c.columnName.toUpperCase() === suffix.substring(1)) ||
+                   to.columns.find(c => c.columnName.toUpperCase() === name);
+    if (!target) continue;
+
+    conditions.push({
+      predicate: equals(from, column.columnName, to, target.columnName),
+      confidence: JoinConfidence.KEY_NAME,
+      reason: `${column.columnName} names ${to.tableName}`,
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * Predicates from columns with the same name and base type in both tables
+ * Key-like names rank above other shared names (which are often audit columns like LOADED_AT);
+ * bare ID columns are each table's own key and never match each other.
+ */
+function sameNameConditions(a: JoinSide, b: JoinSide): JoinCondition[] {
+  const conditions: JoinCondition[] = [];
+
+  for (const column of a.columns) {
+    if (KEY_SUFFIXES.some(suffix => column.columnName.toUpperCase() === suffix.substring(1))) continue;
+    const match = b.columns.find(c => c.columnName === column.columnName);
+    if (!match || baseType(match.dataType) !== baseType(column.dataType)) continue;
+
+    const keyLike = KEY_SUFFIXES.some(suffix => column.columnName.toUpperCase().endsWith(suffix));
+    conditions.push({
+      predicate: equals(a, column.columnName, b, match.columnName),
+      confidence: keyLike ? JoinConfidence.KEY_NAME : JoinConfidence.SAME_NAME,
+      reason: `Same column name (${baseType(column.dataType)})`,
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * Write an equality of two qualified columns
+ */
+function equals(left: JoinSide, leftColumn: string, right: JoinSide, rightColumn: string): string {
+  return `${left.qualifier}.${quoteIdentifier(leftColumn)} = ${right.qualifier}.${quoteIdentifier(rightColumn)}`;
+}
+
+/**
+ * Get the singular of a plural table name (CUSTOMERS → CUSTOMER, ADDRESSES → ADDRESS)
+ */
+function singular(name: string): string {
+  if (name.endsWith('IES')) return name.slice(0, -3) + 'Y';
+  if (/(SS|SH|CH|X)ES$/.test(name)) return name.slice(0, -2);
+  if (name.endsWith('S') && !name.endsWith('SS')) return name.slice(0, -1);
+  return name;
+}
+
+/**
+ * Get the base type of a data type, e.g. NUMBER(38,0) → NUMBER, TEXT → VARCHAR
+ */
+function baseType(dataType: string): string {
+  const base = dataType.split('(')[0].trim().toUpperCase();
+  return ['TEXT', 'STRING', 'CHAR', 'CHARACTER'].includes(base) ? 'VARCHAR' : base;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ObjectDdlProvider } from './object-ddl';
+import { SchemaCache } from './schema-cache';
+import { DocumentCache } from './document-cache';
+import { FormattingProvider } from './formatting';
+import { SnowflakeConnection, UserFunctionInfo } from './snowflake';
+import { DdlObjectType } from './ddl';
+
+function userFunction(args: string): UserFunctionInfo {
+  return { name: 'MY_FN', schema_name: 'S', catalog_name: 'DB', arguments: args, description: null, is_table_function: false, language: 'SQL' };
+}
+
+describe('ObjectDdlProvider.findObjectsAt', () => {
+  it('names user functions by their argument types, as GET_DDL takes them', () => {
+    const schemaCache = new SchemaCache();
+    schemaCache.loadUserFunctions([
+      userFunction('MY_FN(NUMBER, VARCHAR) RETURN VARCHAR'),
+      userFunction('MY_FN(X NUMBER, [Y NUMBER(38, 0)]) RETURN NUMBER'),
+      userFunction('MY_FN() RETURN NUMBER'),
+    ]);
+    const provider = new ObjectDdlProvider(
+      schemaCache, {} as SnowflakeConnection, new DocumentCache(), {} as FormattingProvider
+    );
+    const document = TextDocument.create('file:///fn.sql', 'sql', 1, 'SELECT my_fn(1)');
+
+    expect(provider.findObjectsAt(document, document.positionAt(9))).toEqual([
+      { objectType: DdlObjectType.FUNCTION, name: 'DB.S.MY_FN(NUMBER, VARCHAR)' },
+      { objectType: DdlObjectType.FUNCTION, name: 'DB.S.MY_FN(NUMBER, NUMBER)' },
+      { objectType: DdlObjectType.FUNCTION, name: 'DB.S.MY_FN()' },
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { CodeAction, Command, Position } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { SchemaCache } from './schema-cache';
+import { SnowflakeConnection, UserFunctionInfo } from './snowflake';
+import { AccountObjectKind, findAccountObjectAt, findNamePartAt, findObjectReferenceAt, parseContext } from './sql-parser';
+import { makeQualifiedName, parseQualifiedName } from './identifiers';
+import { SessionContext } from './session-context';
+import { DocumentCache } from './document-cache';
+import { FormattingProvider } from './formatting';
+import { DdlObjectType } from './ddl';
+import { userFunctionInfo } from './functions';
+
+// Command that opens the DDL of an object in a read-only document; arguments are the object type and name
+export const SHOW_DDL_COMMAND = 'snowflake.showDDL';
+
+// Prefix of the private directory of the read-only DDL documents, one per server process
+const DDL_DOCUMENT_DIR_PREFIX = path.join(os.tmpdir(), 'snowflake-lsp-ddl-');
+
+/**
+ * Object whose DDL can be fetched
+ */
+export interface DdlObject {
+  objectType: DdlObjectType;
+  name: string;  // Qualified name form; functions and procedures end with argument types: DB.S.FN(NUMBER, VARCHAR)
+}
+
+export class ObjectDdlProvider {
+  private documentDir: Promise<string> | undefined;  // Created on first use
+
+  constructor(
+    private schemaCache: SchemaCache,
+    private snowflakeConnection: SnowflakeConnection,
+    private documentCache: DocumentCache,
+    private formattingProvider: FormattingProvider
+  ) {}
+
+  /**
+   * Find the objects named at a position that have DDL
+   * These are objects named after their kind keyword (ALTER TASK t, DROP FUNCTION f(NUMBER)),
+   * databases and warehouses, tables and views with the schema of their qualified name, and
+   * calls of user functions with one object per overload. Names are qualified with the
+   * database and schema of the session context.
+   */
+  findObjectsAt(document: TextDocument, position: Position, context?: SessionContext): DdlObject[] {
+    const { text, tokens, statements, scopeTree } = this.documentCache.get(document);
+    const offset = document.offsetAt(position);
+
+    const reference = findObjectReferenceAt(text, offset, tokens);
+    if (reference) {
+      // GRANT ... ON TABLE also names views
+      const table = reference.objectType === DdlObjectType.TABLE || reference.objectType === DdlObjectType.VIEW
+        ? this.schemaCache.getTable(reference.name, context)
+        : undefined;
+      if (table) {
+        return [{ objectType: table.view ? DdlObjectType.VIEW : DdlObjectType.TABLE, name: table.qualifiedName }];
+      }
+      return [{ objectType: reference.objectType, name: this.qualify(reference.objectType, reference.name, context) }];
+    }
+
+    const account = findAccountObjectAt(text, offset, tokens);
+    if (account) {
+      if (account.kind === AccountObjectKind.DATABASE) return [{ objectType: DdlObjectType.DATABASE, name: makeQualifiedName(account.name) }];
+      if (account.kind === AccountObjectKind.WAREHOUSE) return [{ objectType: DdlObjectType.WAREHOUSE, name: makeQualifiedName(account.name) }];
+      return [];
+    }
+
+    const namePart = findNamePartAt(text, offset, tokens);
+    if (!namePart) return [];
+    const { parts, index, end } = namePart;
+
+    // Calls of user functions, e.g. MY_FN(...) or DB.S.MY_FN(...)
+    if (/^\s*\(/.test(text.substring(end))) {
+      return this.schemaCache.getUserFunctions(parts.join('.')).map(fn => ({
+        objectType: DdlObjectType.FUNCTION,
+        name: functionSignature(fn),
+      }));
+    }
+
+    // Aliases stand for their table; the parts of a qualified name before the table are its schema and database
+    const alias = parseContext(text, offset, tokens, statements, scopeTree).aliases.get(parts.slice(0, index + 1).join('.'));
+    const table = this.schemaCache.getTable(alias || parts.join('.'), context);
+    if (!table) return [];
+
+    const { catalog, schema } = table.info;
+    if (alias || index === parts.length - 1) {
+      return [{ objectType: table.view ? DdlObjectType.VIEW : DdlObjectType.TABLE, name: table.qualifiedName }];
+    }
+    if (index === parts.length - 2) {
+      return [{ objectType: DdlObjectType.SCHEMA, name: makeQualifiedName(catalog, schema) }];
+    }
+    return [{ objectType: DdlObjectType.DATABASE, name: makeQualifiedName(catalog) }];
+  }
+
+  /**
+   * Get the DDL of an object from the cache, or fetch it with GET_DDL and cache it
+   * Views with a cached definition show it formatted instead; secure views of other
+   * owners have none and no DDL either.
+   */
+  async getDDL(object: DdlObject): Promise<string | undefined> {
+    const cached = this.schemaCache.getDDL(object.objectType, object.name);
+    if (cached) return cached;
+
+    let ddl: string | undefined;
+    const view = object.objectType === DdlObjectType.VIEW ? this.schemaCache.getTable(object.name)?.view : null;
+    if (view) {
+      if (!view.definition) return undefined;
+      ddl = await this.formattingProvider.formatSql(view.definition);
+    } else {
+      if (!this.snowflakeConnection.isConnectionActive()) return undefined;
+      ddl = await this.snowflakeConnection.fetchDDL(object.objectType, object.name);
+      if (!ddl) return undefined;
+    }
+
+    this.schemaCache.cacheDDL(object.objectType, object.name, ddl);
+    return ddl;
+  }
+
+  /**
+   * Provide a code action per object at a position that opens its DDL (see SHOW_DDL_COMMAND)
+   */
+  provideCodeActions(document: TextDocument, position: Position, context?: SessionContext): CodeAction[] {
+    return this.findObjectsAt(document, position, context).map(object => {
+      const title = `Show DDL of ${objectTypeLabel(object.objectType)} ${object.name}`;
+      return CodeAction.create(title, Command.create(title, SHOW_DDL_COMMAND, object.objectType, object.name));
+    });
+  }
+
+  /**
+   * Write the DDL of an object to a read-only SQL file and return its URI
+   * Helix only opens file URIs from window/showDocument, so the DDL goes to a file in a
+   * directory of this process that only the user can access, rather than a virtual
+   * document. The file is replaced each time, so opening it again shows the DDL as cached now.
+   */
+  async writeDDLDocument(object: DdlObject): Promise<string> {
+    const ddl = await this.getDDL(object);
+    if (!ddl) {
+      throw new Error(`No DDL available for ${objectTypeLabel(object.objectType)} ${object.name}`);
+    }
+
+    // mkdtemp creates the directory with mode 0700 under a name no other process can predict
+    if (!this.documentDir) {
+      this.documentDir = fs.promises.mkdtemp(DDL_DOCUMENT_DIR_PREFIX).catch(error => {
+        this.documentDir = undefined;
+        throw error;
+      });
+    }
+    const dir = await this.documentDir;
+
+    const fileName = `${object.objectType}_${object.name.replace(/[^\w.$-]+/g, '_')}.sql`;
+    const file = path.join(dir, fileName);
+    await fs.promises.rm(file, { force: true });
+    await fs.promises.writeFile(
+      file,
+      `-- DDL of ${objectTypeLabel(object.objectType)} ${object.name} (read-only copy)\n\n${ddl}\n`,
+      { mode: 0o444, flag: 'wx' }
+    );
+
+    return pathToFileURL(file).toString();
+  }
+
+  /**
+   * Delete the DDL documents written by this process
+   */
+  async removeDDLDocuments(): Promise<void> {
+    if (!this.documentDir) return;
+    const dir = await this.documentDir;
+    this.documentDir = undefined;
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+
+  /**
+   * Complete a name with the database and schema of the session context, as deep as the object type needs
+   */
+  private qualify(objectType: DdlObjectType, name: string, context?: SessionContext): string {
+    const paren = name.indexOf('(');
+    const signature = paren === -1 ? '' : name.substring(paren);
+    const parts = parseQualifiedName(paren === -1 ? name : name.substring(0, paren));
+
+    const depth = objectType === DdlObjectType.DATABASE || objectType === DdlObjectType.WAREHOUSE ? 1
+      : objectType === DdlObjectType.SCHEMA ? 2 : 3;
+    if (depth === 3 && parts.length === 1 && context?.schema) parts.unshift(context.schema);
+    if (depth > 1 && parts.length === depth - 1 && context?.database) parts.unshift(context.database);
+
+    return makeQualifiedName(...parts) + signature;
+  }
+}
+
+/**
+ * Get the signature of a user function in the form GET_DDL takes, e.g. DB.S.MY_FN(NUMBER, VARCHAR)
+ * Only the argument types are kept from the SHOW USER FUNCTIONS arguments, without
+ * argument names, the brackets around arguments with defaults and precisions (NUMBER(38, 0) is NUMBER).
+ */
+function functionSignature(fn: UserFunctionInfo): string {
+  const types = userFunctionInfo(fn).parameters.map(param => param.type.replace(/\s*\(.*\)$/, ''));
+  return `${makeQualifiedName(fn.catalog_name, fn.schema_name, fn.name)}(${types.join(', ')})`;
+}
+
+/**
+ * Get the name of an object type as written in SQL, e.g. file format
+ */
+export function objectTypeLabel(objectType: DdlObjectType): string {
+  return objectType.replace('_', ' ').toLowerCase();
+}
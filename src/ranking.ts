@@ -0,0 +1,205 @@
+import { QueryHistoryInfo } from './snowflake';
+import { tokenize, isIdentifier } from './sql-lexer';
+import { buildScopeTree, flattenScopes, splitStatements } from './sql-parser';
+import { makeQualifiedName, parseQualifiedName, resolveIdentifier } from './identifiers';
+
+/**
+ * Candidate with its match score, higher is better
+ */
+export interface Ranked<T> {
+  item: T;
+  score: number;
+}
+
+// Points per matched character, and bonuses for where it matched
+const MATCH_POINTS = 1;
+const CONSECUTIVE_BONUS = 4;   // Right after the previous match
+const NAME_START_BONUS = 8;    // First character of the name
+const WORD_START_BONUS = 6;    // After _ . $ or a lower-to-upper case change (orderLines)
+const PREFIX_BONUS = 10;       // The query is a prefix of the name
+const EXACT_BONUS = 10;        // The query is the whole name
+
+// Session context boosts of objects in the current schema and database
+export const CURRENT_SCHEMA_BOOST = 20;
+export const CURRENT_DATABASE_BOOST = 10;
+
+// Accepted completions count more than names read from query history
+const ACCEPTED_WEIGHT = 2;
+
+// Largest score written into sortText; sortText sorts ascending, so it holds MAX_SCORE - score
+const MAX_SCORE = 9999;
+
+/**
+ * Score how well a query matches a name, or null if it doesn't
+ * The query's characters must appear in the name in order (ORDLN matches ORDER_LINES).
+ * Matching starts at each occurrence of the query's first character and continues
+ * greedily; the best start wins. Matches at the start of words and runs of consecutive
+ * characters score more, and longer names score slightly less.
+ */
+export function fuzzyScore(query: string, name: string): number | null {
+  if (!query) return 0;
+
+  const upperQuery = query.toUpperCase();
+  const upperName = name.toUpperCase();
+  let best: number | null = null;
+
+  for (let start = upperName.indexOf(upperQuery[0]); start !== -1; start = upperName.indexOf(upperQuery[0], start + 1)) {
+    const score = matchFrom(upperQuery, upperName, name, start);
+    if (score === null) break;  // Later starts can't match either
+    if (best === null || score > best) best = score;
+  }
+  if (best === null) return null;
+
+  if (upperName.startsWith(upperQuery)) best += PREFIX_BONUS;
+  if (upperName === upperQuery) best += EXACT_BONUS;
+  return best - Math.floor((name.length - query.length) / 4);
+}
+
+/**
+ * Score a greedy match of the query that starts at a position of the name
+ */
+function matchFrom(upperQuery: string, upperName: string, name: string, start: number): number | null {
+  let score = 0;
+  let matched = 0;
+  let previous = -2;
+
+  for (let i = start; i < upperName.length && matched < upperQuery.length; i++) {
+    if (upperName[i] !== upperQuery[matched]) continue;
+
+    score += MATCH_POINTS;
+    if (i === previous + 1) score += CONSECUTIVE_BONUS;
+    if (i === 0) {
+      score += NAME_START_BONUS;
+    } else if (isWordStart(name, i)) {
+      score += WORD_START_BONUS;
+    }
+    previous = i;
+    matched++;
+  }
+
+  return matched === upperQuery.length ? score : null;
+}
+
+/**
+ * Check if a character starts a word of a name (MY_TABLE, db.schema, orderLines)
+ */
+function isWordStart(name: string, index: number): boolean {
+  const previous = name[index - 1];
+  if (previous === '_' || previous === '.' || previous === '$') return true;
+  return previous === previous.toLowerCase() && previous !== previous.toUpperCase() &&
+         name[index] !== name[index].toLowerCase();
+}
+
+/**
+ * Rank candidates by match score plus a boost, best first, keeping at most `limit`
+ * Candidates that don't match the query are dropped.
+ */
+export function rank<T>(
+  candidates: Iterable<T>,
+  query: string,
+  name: (candidate: T) => string,
+  boost: (candidate: T) => number,
+  limit: number = Infinity
+): Ranked<T>[] {
+  const ranked: Ranked<T>[] = [];
+  for (const item of candidates) {
+    const score = fuzzyScore(query, name(item));
+    if (score === null) continue;
+    ranked.push({ item, score: score + boost(item) });
+  }
+
+  return ranked
+    .sort((a, b) => b.score - a.score || name(a.item).localeCompare(name(b.item)))
+    .slice(0, limit);
+}
+
+/**
+ * Create a sortText that orders items by descending score, then by label
+ */
+export function scoreSortText(score: number, label: string): string {
+  const clamped = Math.max(0, Math.min(MAX_SCORE, Math.round(score)));
+  return `${String(MAX_SCORE - clamped).padStart(4, '0')}_${label}`;
+}
+
+/**
+ * How often objects and columns were used, from query history and accepted completions
+ * Tables are counted by qualified name (DATABASE.SCHEMA.TABLE), resolved against the
+ * database and schema each query ran in; other names by their last part (CUSTOMER_ID).
+ */
+export class UsageStats {
+  private counts: Map<string, number> = new Map();
+
+  /**
+   * Count the tables and names each query refers to (once per query)
+   */
+  recordQueries(queries: QueryHistoryInfo[]): void {
+    for (const query of queries) {
+      try {
+        this.recordQuery(query);
+      } catch (error) {
+        console.error(`Failed to read query ${query.query_id} for usage:`, error);
+      }
+    }
+  }
+
+  /**
+   * Count a completion the user accepted
+   */
+  recordAccepted(name: string): void {
+    this.add(name, ACCEPTED_WEIGHT);
+  }
+
+  /**
+   * Get the usage boost of a name; it grows with the logarithm of the use count
+   */
+  score(name: string): number {
+    const count = this.counts.get(name) || 0;
+    return Math.round(Math.log2(1 + count) * 5);
+  }
+
+  /**
+   * Forget all usage
+   */
+  clear(): void {
+    this.counts.clear();
+  }
+
+  private recordQuery(query: QueryHistoryInfo): void {
+    const tokens = tokenize(query.query_text);
+    const names = new Set<string>();
+
+    for (const token of tokens) {
+      if (isIdentifier(token)) {
+        names.add(makeQualifiedName(resolveIdentifier(token)));
+      }
+    }
+
+    for (const statement of splitStatements(tokens, query.query_text.length)) {
+      for (const scope of flattenScopes(buildScopeTree(statement))) {
+        for (const ref of scope.tables) {
+          const qualified = this.qualify(ref.name, query);
+          if (qualified) names.add(qualified);
+        }
+      }
+    }
+
+    names.forEach(name => this.add(name, 1));
+  }
+
+  /**
+   * Resolve a table name against the database and schema a query ran in
+   */
+  private qualify(name: string, query: QueryHistoryInfo): string | null {
+    const parts = parseQualifiedName(name);
+    if (parts.length === 3) return makeQualifiedName(...parts);
+    if (parts.length === 2 && query.database_name) return makeQualifiedName(query.database_name, ...parts);
+    if (parts.length === 1 && query.database_name && query.schema_name) {
+      return makeQualifiedName(query.database_name, query.schema_name, parts[0]);
+    }
+    return null;
+  }
+
+  private add(name: string, count: number): void {
+    this.counts.set(name, (this.counts.get(name) || 0) + count);
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { SchemaCache } from './schema-cache';
+import { ColumnInfo, TableInfo } from './snowflake';
+
+function table(catalog: string, schema: string, name: string): TableInfo {
+  return {
+    catalog, schema, name, type: 'BASE TABLE', comment: null, owner: 'SYSADMIN', rows: 10, bytes: 1024,
+    created_on: '', kind: 'TABLE', retention_time: 1, is_external: false, cluster_by: null,
+  };
+}
+
+function column(catalog: string, schema: string, tableName: string, columnName: string): ColumnInfo {
+  return {
+    catalog, schema, tableName, columnName, dataType: 'NUMBER', isNullable: 'YES', columnDefault: null,
+    comment: null, kind: 'COLUMN', autoincrement: null,
+  };
+}
+
+// Cache with an ORDERS table in two databases
+function twoDatabases(): SchemaCache {
+  const cache = new SchemaCache();
+  const columns = [column('DEV', 'SALES', 'ORDERS', 'DEV_AMOUNT'), column('PROD', 'SALES', 'ORDERS', 'PROD_AMOUNT')];
+  cache.loadTables([table('DEV', 'SALES', 'ORDERS'), table('PROD', 'SALES', 'ORDERS')], columns);
+  cache.loadColumns(columns);
+  return cache;
+}
+
+describe('SchemaCache.searchColumns', () => {
+  it('resolves the tables in scope with the session context', () => {
+    const cache = twoDatabases();
+    const names = (database: string) => cache.searchColumns('', ['ORDERS'], 50, { database, schema: 'SALES' })
+      .map(({ item }) => item.qualifiedName);
+
+    expect(names('PROD')).toEqual(['PROD.SALES.ORDERS.PROD_AMOUNT']);
+    expect(names('DEV')).toEqual(['DEV.SALES.ORDERS.DEV_AMOUNT']);
+  });
+});
+
+describe('SchemaCache.ensureKeysLoaded', () => {
+  it('shares one fetch between concurrent calls', async () => {
+    const cache = new SchemaCache();
+    let fetches = 0;
+    const primaryKeys = async () => {
+      fetches++;
+      return [];
+    };
+
+    await Promise.all([
+      cache.ensureKeysLoaded('PROD.SALES.ORDERS', primaryKeys, async () => []),
+      cache.ensureKeysLoaded('PROD.SALES.ORDERS', primaryKeys, async () => []),
+    ]);
+    expect(fetches).toBe(1);
+  });
+
+  it('remembers tables whose keys failed to load', async () => {
+    const cache = new SchemaCache();
+    let fetches = 0;
+    const denied = async () => {
+      fetches++;
+      throw new Error('Insufficient privileges');
+    };
+
+    await expect(cache.ensureKeysLoaded('PROD.SALES.ORDERS', denied, async () => [])).rejects.toThrow();
+    await cache.ensureKeysLoaded('PROD.SALES.ORDERS', denied, async () => []);
+    expect(fetches).toBe(1);
+    expect(cache.getTableKeys('PROD.SALES.ORDERS')).toEqual({ primaryKey: [], foreignKeys: [] });
+  });
+});
+
+describe('SchemaCache.ensureSchemaObjectsLoaded', () => {
+  it('shares one fetch between concurrent calls', async () => {
+    const cache = new SchemaCache();
+    let fetches = 0;
+    const tables = async (db: string, schema: string) => {
+      fetches++;
+      return [table(db, schema, 'ORDERS')];
+    };
+
+    await Promise.all([
+      cache.ensureSchemaObjectsLoaded('PROD', 'SALES', tables, async () => []),
+      cache.ensureSchemaObjectsLoaded('PROD', 'SALES', tables, async () => []),
+    ]);
+    expect(fetches).toBe(1);
+    expect(cache.getTable('PROD.SALES.ORDERS')).toBeDefined();
+  });
+
+  it('remembers schemas whose objects failed to load', async () => {
+    const cache = new SchemaCache();
+    let fetches = 0;
+    const denied = async () => {
+      fetches++;
+      throw new Error('Schema does not exist or not authorized');
+    };
+
+    await expect(cache.ensureSchemaObjectsLoaded('PROD', 'O', denied, async () => [])).rejects.toThrow();
+    await cache.ensureSchemaObjectsLoaded('PROD', 'O', denied, async () => []);
+    expect(fetches).toBe(1);
+    expect(cache.getSchema('PROD', 'O')).toBeUndefined();
+  });
+
+  it('does not fetch schemas missing from the loaded schemas of their database', async () => {
+    const cache = new SchemaCache();
+    cache.loadSchemas('PROD', []);
+    let fetches = 0;
+
+    await cache.ensureSchemaObjectsLoaded('PROD', 'O', async () => {
+      fetches++;
+      return [];
+    }, async () => []);
+    expect(fetches).toBe(0);
+  });
+});
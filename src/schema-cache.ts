@@ -1,13 +1,75 @@
-import { TableInfo, ColumnInfo, ViewInfo, WarehouseInfo, RoleInfo, UserInfo, DatabaseInfo, QueryHistoryInfo } from './snowflake';
+import {
+  TableInfo,
+  ColumnInfo,
+  ViewInfo,
+  WarehouseInfo,
+  RoleInfo,
+  UserInfo,
+  DatabaseInfo,
+  SchemaInfo,
+  UserFunctionInfo,
+  PrimaryKeyInfo,
+  ForeignKeyInfo,
+  QueryHistoryInfo,
+  ColumnProfile,
+} from './snowflake';
+import { makeQualifiedName, normalizeName, parseQualifiedName } from './identifiers';
+import { DEFAULT_SEARCH_PATH } from './session-context';
+import { DdlObjectType } from './ddl';
+import { tokenize, TokenType, isSignificant, isIdentifier } from './sql-lexer';
+import {
+  Ranked,
+  UsageStats,
+  CURRENT_DATABASE_BOOST,
+  CURRENT_SCHEMA_BOOST,
+  rank,
+} from './ranking';
 
 export interface CachedTable {
-  qualifiedName: string; // DATABASE.SCHEMA.TABLE
+  qualifiedName: string; // DATABASE.SCHEMA.TABLE, quoted where needed (DB.SALES."Orders")
   info: TableInfo;
   columns: ColumnInfo[];
+  view: ViewInfo | null; // Set for views and materialized views
+}
+
+/**
+ * Session state used to resolve partially qualified names (see SessionContext)
+ */
+export interface NameResolutionContext {
+  database: string | null;
+  schema: string | null;
+  searchPath?: string | null;
+}
+
+/**
+ * Database in the database → schema → object hierarchy
+ */
+export interface CachedDatabase {
+  name: string;
+  info: DatabaseInfo | null;          // null while only known from objects in it
+  schemas: Map<string, CachedSchema>; // Schema name -> schema
+  schemasLoaded: boolean;             // All schemas fetched (SHOW SCHEMAS)
+}
+
+export interface CachedSchema {
+  database: string;
+  name: string;
+  info: SchemaInfo | null;            // null while only known from objects in it
+  tables: Map<string, CachedTable>;   // Table name -> table
+  views: Map<string, ViewInfo>;       // View name -> view
+  objectsLoaded: boolean;             // Tables and views fetched (SHOW TABLES / SHOW VIEWS)
+}
+
+/**
+ * Declared keys of a table
+ */
+export interface TableKeys {
+  primaryKey: PrimaryKeyInfo[];   // Ordered by key_sequence
+  foreignKeys: ForeignKeyInfo[];  // Imported keys: columns of this table referencing other tables
 }
 
 export interface CachedColumn {
-  qualifiedName: string; // DATABASE.SCHEMA.TABLE.COLUMN
+  qualifiedName: string; // DATABASE.SCHEMA.TABLE.COLUMN, quoted where needed
   info: ColumnInfo;
 }
 
@@ -16,6 +78,11 @@ export interface DDLCache {
   fetchedAt: number; // timestamp
 }
 
+export interface ColumnProfileCache {
+  profile: ColumnProfile;
+  fetchedAt: number; // timestamp
+}
+
 export class SchemaCache {
   private tables: Map<string, CachedTable> = new Map();
   private columns: Map<string, CachedColumn> = new Map();
@@ -23,6 +90,16 @@ export class SchemaCache {
   private schemas: Set<string> = new Set(); // Store unique schema names
   private ddlCache: Map<string, DDLCache> = new Map(); // DDL cache with TTL
   private tablesWithColumns: Set<string> = new Set(); // Track which tables have columns loaded
+  private pendingColumnLoads: Map<string, Promise<void>> = new Map(); // Column fetches in flight
+  private pendingColumnProfiles: Map<string, Promise<ColumnProfile>> = new Map(); // Column profile fetches in flight
+  private tableKeys: Map<string, TableKeys> = new Map(); // Declared keys by table (lazy loaded)
+  private pendingKeyLoads: Map<string, Promise<void>> = new Map(); // Key fetches in flight
+  private pendingSchemaObjectLoads: Map<string, Promise<void>> = new Map(); // Schema object fetches in flight
+  private failedSchemaObjectLoads: Set<string> = new Set(); // Schemas whose objects failed to load
+  private columnProfiles: Map<string, ColumnProfileCache> = new Map(); // Sampled column statistics with TTL
+
+  // Tables and views organized by database and schema, for drilling down db.schema.object
+  private catalog: Map<string, CachedDatabase> = new Map();
 
   // Advanced objects
   private warehouses: Map<string, WarehouseInfo> = new Map(); // Warehouse name -> info
@@ -30,14 +107,19 @@ export class SchemaCache {
   private users: Map<string, UserInfo> = new Map(); // User name -> info
   private databases: Map<string, DatabaseInfo> = new Map(); // Database name -> info
   private queryHistory: QueryHistoryInfo[] = []; // Recent queries
+  private userFunctions: Map<string, UserFunctionInfo[]> = new Map(); // Function name -> overloads
+  private usage: UsageStats = new UsageStats(); // Use counts from query history and accepted completions
 
-  // Index for partial matching (lowercase for case-insensitive search)
+  // Index by exact table name, and by lowercase column name for case-insensitive search
   private tableNameIndex: Map<string, string[]> = new Map();
   private columnNameIndex: Map<string, string[]> = new Map();
 
   // DDL cache TTL (24 hours in milliseconds)
   private readonly DDL_CACHE_TTL = 24 * 60 * 60 * 1000;
 
+  // Column profile cache TTL (1 hour in milliseconds); data changes faster than DDL
+  private readonly COLUMN_PROFILE_CACHE_TTL = 60 * 60 * 1000;
+
   /**
    * Clear all cached data
    */
@@ -48,6 +130,10 @@ export class SchemaCache {
     this.schemas.clear();
     this.ddlCache.clear();
     this.tablesWithColumns.clear();
+    this.tableKeys.clear();
+    this.failedSchemaObjectLoads.clear();
+    this.columnProfiles.clear();
+    this.catalog.clear();
     this.tableNameIndex.clear();
     this.columnNameIndex.clear();
     this.warehouses.clear();
@@ -55,6 +141,8 @@ export class SchemaCache {
     this.users.clear();
     this.databases.clear();
     this.queryHistory = [];
+    this.userFunctions.clear();
+    this.usage.clear();
   }
 
   /**
@@ -74,23 +162,37 @@ export class SchemaCache {
     // Cache tables with their columns
     for (const table of tables) {
       const qualifiedName = this.makeQualifiedName(table.catalog, table.schema, table.name);
-      const tableColumns = columnsByTable.get(qualifiedName) || [];
+      // Views listed as tables (INFORMATION_SCHEMA.TABLES) are kept as views
+      if (this.views.has(qualifiedName)) continue;
 
-      this.tables.set(qualifiedName, {
+      const cached: CachedTable = {
         qualifiedName,
         info: table,
-        columns: tableColumns,
-      });
+        columns: columnsByTable.get(qualifiedName) || [],
+        view: null,
+      };
+      this.addRelation(cached);
+      this.schemaNode(table.catalog, table.schema).tables.set(table.name, cached);
+    }
+  }
 
-      // Collect unique schema names
-      this.schemas.add(table.schema);
+  /**
+   * Add a table or view to the lookup maps
+   */
+  private addRelation(cached: CachedTable): void {
+    const { qualifiedName, info } = cached;
+    const isNew = !this.tables.has(qualifiedName);
+    this.tables.set(qualifiedName, cached);
 
-      // Index table name for partial matching
-      const lowerTableName = table.name.toLowerCase();
-      if (!this.tableNameIndex.has(lowerTableName)) {
-        this.tableNameIndex.set(lowerTableName, []);
-      }
-      this.tableNameIndex.get(lowerTableName)!.push(qualifiedName);
+    // Collect unique schema names
+    this.schemas.add(info.schema);
+
+    // Index table name for unqualified lookups
+    if (!this.tableNameIndex.has(info.name)) {
+      this.tableNameIndex.set(info.name, []);
+    }
+    if (isNew) {
+      this.tableNameIndex.get(info.name)!.push(qualifiedName);
     }
   }
 
@@ -122,41 +224,195 @@ export class SchemaCache {
 
   /**
    * Load views into cache
+   * Views are also relations: getTable and searchTables find them, and their columns load
+   * lazily like a table's. In the schema hierarchy they are listed under views only.
    */
   loadViews(views: ViewInfo[]): void {
     for (const view of views) {
       const qualifiedName = this.makeQualifiedName(view.catalog, view.schema, view.name);
       this.views.set(qualifiedName, view);
+
+      const node = this.schemaNode(view.catalog, view.schema);
+      node.views.set(view.name, view);
+      node.tables.delete(view.name);
+
+      this.addRelation({
+        qualifiedName,
+        info: viewTableInfo(view),
+        columns: this.tables.get(qualifiedName)?.columns || [],
+        view,
+      });
+    }
+  }
+
+  /**
+   * Load the schemas of a database into cache
+   */
+  loadSchemas(database: string, schemas: SchemaInfo[]): void {
+    const node = this.databaseNode(database);
+    for (const schema of schemas) {
+      this.schemaNode(database, schema.name).info = schema;
     }
+    node.schemasLoaded = true;
   }
 
   /**
-   * Get table by qualified name or partial match
+   * Check if a name as written in SQL is a known database
    */
-  getTable(name: string): CachedTable | undefined {
-    const upperName = name.toUpperCase();
+  isDatabase(name: string): boolean {
+    const parts = parseQualifiedName(name);
+    return parts.length === 1 && (this.databases.has(parts[0]) || this.catalog.has(parts[0]));
+  }
+
+  /**
+   * Get a database of the hierarchy by resolved name
+   */
+  getDatabase(database: string): CachedDatabase | undefined {
+    return this.catalog.get(database);
+  }
+
+  /**
+   * Get a schema of the hierarchy by resolved names
+   */
+  getSchema(database: string, schema: string): CachedSchema | undefined {
+    return this.catalog.get(database)?.schemas.get(schema);
+  }
+
+  /**
+   * Ensure all schemas of a database are loaded (lazy loading)
+   * @param fetcher - Function to fetch the schemas if not cached
+   */
+  async ensureSchemasLoaded(
+    database: string,
+    fetcher: (db: string) => Promise<SchemaInfo[]>
+  ): Promise<void> {
+    if (this.catalog.get(database)?.schemasLoaded) {
+      return;
+    }
+
+    try {
+      this.loadSchemas(database, await fetcher(database));
+    } catch (error) {
+      console.error(`Failed to load schemas for ${database}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ensure the tables and views of a schema are loaded (lazy loading)
+   * Schemas whose tables came with the initial load are not fetched again. Concurrent
+   * calls for the same schema share one fetch; schemas missing from their database's
+   * loaded schema list or whose fetch failed are not fetched again.
+   */
+  async ensureSchemaObjectsLoaded(
+    database: string,
+    schema: string,
+    tableFetcher: (db: string, schema: string) => Promise<TableInfo[]>,
+    viewFetcher: (db: string, schema: string) => Promise<ViewInfo[]>
+  ): Promise<void> {
+    const node = this.getSchema(database, schema);
+    if (node && (node.objectsLoaded || node.tables.size > 0)) {
+      return;
+    }
+
+    const key = this.makeQualifiedName(database, schema);
+    if ((!node && this.catalog.get(database)?.schemasLoaded) || this.failedSchemaObjectLoads.has(key)) {
+      return;
+    }
+
+    const pending = this.pendingSchemaObjectLoads.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const load = this.fetchSchemaObjects(key, database, schema, tableFetcher, viewFetcher)
+      .finally(() => this.pendingSchemaObjectLoads.delete(key));
+    this.pendingSchemaObjectLoads.set(key, load);
+    return load;
+  }
+
+  /**
+   * Fetch the tables and views of a schema and add them to the cache
+   */
+  private async fetchSchemaObjects(
+    key: string,
+    database: string,
+    schema: string,
+    tableFetcher: (db: string, schema: string) => Promise<TableInfo[]>,
+    viewFetcher: (db: string, schema: string) => Promise<ViewInfo[]>
+  ): Promise<void> {
+    try {
+      const [tables, views] = await Promise.all([
+        tableFetcher(database, schema),
+        viewFetcher(database, schema),
+      ]);
+      this.loadTables(tables, []);
+      this.loadViews(views);
+      this.schemaNode(database, schema).objectsLoaded = true;
+    } catch (error) {
+      console.error(`Failed to load objects for ${key}:`, error);
+      this.failedSchemaObjectLoads.add(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Get or create the hierarchy node of a database
+   */
+  private databaseNode(database: string): CachedDatabase {
+    let node = this.catalog.get(database);
+    if (!node) {
+      node = { name: database, info: this.databases.get(database) || null, schemas: new Map(), schemasLoaded: false };
+      this.catalog.set(database, node);
+    }
+    return node;
+  }
+
+  /**
+   * Get or create the hierarchy node of a schema
+   */
+  private schemaNode(database: string, schema: string): CachedSchema {
+    const schemas = this.databaseNode(database).schemas;
+    let node = schemas.get(schema);
+    if (!node) {
+      node = { database, name: schema, info: null, tables: new Map(), views: new Map(), objectsLoaded: false };
+      schemas.set(schema, node);
+    }
+    return node;
+  }
+
+  /**
+   * Get table by name as written in SQL (table, schema.table or database.schema.table)
+   * Follows Snowflake's identifier rules: unquoted parts match upper case names,
+   * quoted parts match exactly. Partially qualified names are first resolved against
+   * the session context when given, like Snowflake does.
+   */
+  getTable(name: string, context?: NameResolutionContext): CachedTable | undefined {
+    const parts = parseQualifiedName(name);
+    if (parts.length === 0) return undefined;
+
+    const contextual = this.resolveInContext(parts, context);
+    if (contextual) return contextual;
+
+    const key = makeQualifiedName(...parts);
 
     // Try exact match first
-    const exact = this.tables.get(upperName);
+    const exact = this.tables.get(key);
     if (exact) return exact;
 
-    // Try partial match for schema.table format
-    // Check if any full qualified name ends with the provided name
+    // Table name only
+    if (parts.length === 1) {
+      const matches = this.tableNameIndex.get(parts[0]);
+      return matches && matches.length > 0 ? this.tables.get(matches[0]) : undefined;
+    }
+
+    // SCHEMA.TABLE: check if any full qualified name ends with the provided name
     for (const [qualifiedName, table] of this.tables) {
-      // Match SCHEMA.TABLE or DATABASE.SCHEMA.TABLE
-      if (qualifiedName.endsWith('.' + upperName) ||
-          qualifiedName === upperName) {
+      if (qualifiedName.endsWith('.' + key)) {
         return table;
       }
     }
 
-    // Try case-insensitive table name only
-    const lowerName = name.split('.').pop()?.toLowerCase() || name.toLowerCase();
-    const matches = this.tableNameIndex.get(lowerName);
-    if (matches && matches.length > 0) {
-      return this.tables.get(matches[0]);
-    }
-
     return undefined;
   }
 
@@ -167,11 +423,78 @@ export class SchemaCache {
     return this.columns.get(name);
   }
 
+  /**
+   * Get table a partially qualified name refers to in a session
+   * SCHEMA.TABLE resolves in the current database, TABLE in the schemas of the search path.
+   */
+  resolveInContext(parts: string[], context?: NameResolutionContext): CachedTable | undefined {
+    if (!context) return undefined;
+
+    if (parts.length === 2) {
+      return context.database ? this.tables.get(this.makeQualifiedName(context.database, ...parts)) : undefined;
+    }
+    if (parts.length !== 1) return undefined;
+
+    for (const [database, schema] of this.searchPathSchemas(context)) {
+      const table = this.tables.get(this.makeQualifiedName(database, schema, parts[0]));
+      if (table) return table;
+    }
+    return undefined;
+  }
+
+  /**
+   * Expand a session's SEARCH_PATH into [database, schema] pairs
+   * $current is the current schema, $public the PUBLIC schema of the current database.
+   */
+  private searchPathSchemas(context: NameResolutionContext): [string, string][] {
+    const tokens = tokenize(context.searchPath || DEFAULT_SEARCH_PATH).filter(isSignificant);
+    const schemas: [string, string][] = [];
+
+    let entry: string[] = [];
+    let variable: string | null = null;
+    const flush = () => {
+      if (variable === '$CURRENT' && context.database && context.schema) {
+        schemas.push([context.database, context.schema]);
+      } else if (variable === '$PUBLIC' && context.database) {
+        schemas.push([context.database, 'PUBLIC']);
+      } else if (entry.length === 2) {
+        schemas.push([entry[0], entry[1]]);
+      } else if (entry.length === 1 && context.database) {
+        schemas.push([context.database, entry[0]]);
+      }
+      entry = [];
+      variable = null;
+    };
+
+    for (const token of tokens) {
+      if (token.type === TokenType.COMMA) {
+        flush();
+      } else if (token.type === TokenType.VARIABLE) {
+        variable = token.text.toUpperCase();
+      } else if (isIdentifier(token)) {
+        entry.push(...parseQualifiedName(token.text));
+      }
+    }
+    flush();
+
+    return schemas;
+  }
+
+  /**
+   * Check if tables of a database are in the cache
+   */
+  hasTablesInDatabase(database: string): boolean {
+    for (const table of this.tables.values()) {
+      if (table.info.catalog === database) return true;
+    }
+    return false;
+  }
+
   /**
    * Get view by qualified name
    */
   getView(name: string): ViewInfo | undefined {
-    return this.views.get(name);
+    return this.views.get(normalizeName(name));
   }
 
   /**
@@ -183,58 +506,66 @@ export class SchemaCache {
   }
 
   /**
-   * Search tables by prefix (for autocomplete)
+   * Search tables by fuzzy match on their name (for autocomplete)
+   * Tables in the session's current schema and database and tables used often rank higher.
    */
-  searchTables(prefix: string, limit: number = 50): CachedTable[] {
-    const lowerPrefix = prefix.toLowerCase();
-    const results: CachedTable[] = [];
-
-    for (const [qualifiedName, table] of this.tables) {
-      if (qualifiedName.toLowerCase().includes(lowerPrefix) ||
-          table.info.name.toLowerCase().startsWith(lowerPrefix)) {
-        results.push(table);
-        if (results.length >= limit) break;
-      }
-    }
-
-    return results;
+  searchTables(prefix: string, limit: number = 50, context?: NameResolutionContext): Ranked<CachedTable>[] {
+    return rank(
+      this.tables.values(),
+      prefix,
+      table => table.info.name,
+      table => this.contextBoost(table.info.catalog, table.info.schema, context) +
+               this.usage.score(table.qualifiedName),
+      limit
+    );
   }
 
   /**
-   * Search columns by prefix (for autocomplete)
+   * Search columns by fuzzy match on their name (for autocomplete)
+   * Columns used often rank higher. Table names are resolved with the session context.
    */
-  searchColumns(prefix: string, tableContext?: string[], limit: number = 50): CachedColumn[] {
-    const lowerPrefix = prefix.toLowerCase();
-    const results: CachedColumn[] = [];
+  searchColumns(prefix: string, tableContext?: string[], limit: number = 50, context?: NameResolutionContext): Ranked<CachedColumn>[] {
+    let candidates: Iterable<CachedColumn> = this.columns.values();
 
     // If we have table context, filter columns by those tables
     if (tableContext && tableContext.length > 0) {
-      const tableLookup = new Set(tableContext.map(t => t.toLowerCase()));
-
-      for (const [qualifiedName, column] of this.columns) {
-        const tableQualifiedName = this.makeQualifiedName(
-          column.info.catalog,
-          column.info.schema,
-          column.info.tableName
-        ).toLowerCase();
-
-        if (tableLookup.has(tableQualifiedName) &&
-            column.info.columnName.toLowerCase().startsWith(lowerPrefix)) {
-          results.push(column);
-          if (results.length >= limit) break;
-        }
-      }
-    } else {
-      // No table context, search all columns
-      for (const [qualifiedName, column] of this.columns) {
-        if (column.info.columnName.toLowerCase().startsWith(lowerPrefix)) {
-          results.push(column);
-          if (results.length >= limit) break;
-        }
-      }
+      const tableLookup = new Set(
+        tableContext.map(t => this.getTable(t, context)?.qualifiedName).filter((t): t is string => !!t)
+      );
+      candidates = Array.from(this.columns.values()).filter(column => tableLookup.has(
+        this.makeQualifiedName(column.info.catalog, column.info.schema, column.info.tableName)
+      ));
     }
 
-    return results;
+    return rank(
+      candidates,
+      prefix,
+      column => column.info.columnName,
+      column => this.usage.score(makeQualifiedName(column.info.columnName)),
+      limit
+    );
+  }
+
+  /**
+   * Get the boost of an object in the session's current schema or database
+   */
+  contextBoost(database: string, schema: string, context?: NameResolutionContext): number {
+    if (!context?.database || database !== context.database) return 0;
+    return schema === context.schema ? CURRENT_SCHEMA_BOOST : CURRENT_DATABASE_BOOST;
+  }
+
+  /**
+   * Get the usage boost of a table (by qualified name) or another name
+   */
+  getUsageScore(name: string): number {
+    return this.usage.score(name);
+  }
+
+  /**
+   * Count a completion the user accepted, for ranking later completions
+   */
+  recordAcceptedCompletion(name: string): void {
+    this.usage.recordAccepted(name);
   }
 
   /**
@@ -268,9 +599,8 @@ export class SchemaCache {
     const table = this.getTable(tableName);
     if (!table) return false;
 
-    return table.columns.some(
-      col => col.columnName.toLowerCase() === columnName.toLowerCase()
-    );
+    const [name] = parseQualifiedName(columnName);
+    return table.columns.some(col => col.columnName === name);
   }
 
   /**
@@ -278,7 +608,7 @@ export class SchemaCache {
    */
   getStats(): { tables: number; columns: number; views: number; schemas: number } {
     return {
-      tables: this.tables.size,
+      tables: this.tables.size - this.views.size,
       columns: this.columns.size,
       views: this.views.size,
       schemas: this.schemas.size,
@@ -288,15 +618,16 @@ export class SchemaCache {
   /**
    * Check if DDL is cached and not expired
    */
-  hasDDL(qualifiedName: string): boolean {
-    const cached = this.ddlCache.get(qualifiedName.toUpperCase());
+  hasDDL(objectType: DdlObjectType, name: string): boolean {
+    const key = this.ddlKey(objectType, name);
+    const cached = this.ddlCache.get(key);
     if (!cached) return false;
 
     const now = Date.now();
     const isExpired = now - cached.fetchedAt > this.DDL_CACHE_TTL;
 
     if (isExpired) {
-      this.ddlCache.delete(qualifiedName.toUpperCase());
+      this.ddlCache.delete(key);
       return false;
     }
 
@@ -306,32 +637,99 @@ export class SchemaCache {
   /**
    * Get cached DDL
    */
-  getDDL(qualifiedName: string): string | undefined {
-    if (!this.hasDDL(qualifiedName)) return undefined;
+  getDDL(objectType: DdlObjectType, name: string): string | undefined {
+    if (!this.hasDDL(objectType, name)) return undefined;
 
-    const cached = this.ddlCache.get(qualifiedName.toUpperCase());
+    const cached = this.ddlCache.get(this.ddlKey(objectType, name));
     return cached?.ddl;
   }
 
   /**
    * Cache DDL with current timestamp
    */
-  cacheDDL(qualifiedName: string, ddl: string): void {
-    this.ddlCache.set(qualifiedName.toUpperCase(), {
+  cacheDDL(objectType: DdlObjectType, name: string, ddl: string): void {
+    this.ddlCache.set(this.ddlKey(objectType, name), {
       ddl,
       fetchedAt: Date.now(),
     });
   }
 
+  /**
+   * Key of a DDL in the cache: the object type and name, e.g. FUNCTION DB.S.FN(NUMBER,VARCHAR)
+   * Argument types of functions and procedures are compared in upper case without spaces.
+   */
+  private ddlKey(objectType: DdlObjectType, name: string): string {
+    const paren = name.indexOf('(');
+    if (paren === -1) return `${objectType} ${normalizeName(name)}`;
+
+    const signature = name.substring(paren).toUpperCase().replace(/\s+/g, '');
+    return `${objectType} ${normalizeName(name.substring(0, paren))}${signature}`;
+  }
+
+  /**
+   * Get the cached profile of a column, unless expired
+   * @param qualifiedName - DATABASE.SCHEMA.TABLE.COLUMN
+   */
+  getColumnProfile(qualifiedName: string): ColumnProfile | undefined {
+    const key = normalizeName(qualifiedName);
+    const cached = this.columnProfiles.get(key);
+    if (!cached) return undefined;
+
+    if (Date.now() - cached.fetchedAt > this.COLUMN_PROFILE_CACHE_TTL) {
+      this.columnProfiles.delete(key);
+      return undefined;
+    }
+    return cached.profile;
+  }
+
+  /**
+   * Cache a column profile with current timestamp
+   */
+  cacheColumnProfile(qualifiedName: string, profile: ColumnProfile): void {
+    this.columnProfiles.set(normalizeName(qualifiedName), {
+      profile,
+      fetchedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Get the profile of a column from the cache, or fetch and cache it
+   * Concurrent calls for the same column share one fetch.
+   * @param qualifiedName - DATABASE.SCHEMA.TABLE.COLUMN
+   * @param fetcher - Function to fetch the profile if not cached
+   */
+  ensureColumnProfile(qualifiedName: string, fetcher: () => Promise<ColumnProfile>): Promise<ColumnProfile> {
+    const cached = this.getColumnProfile(qualifiedName);
+    if (cached) {
+      return Promise.resolve(cached);
+    }
+
+    const key = normalizeName(qualifiedName);
+    const pending = this.pendingColumnProfiles.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const load = fetcher()
+      .then(profile => {
+        this.cacheColumnProfile(qualifiedName, profile);
+        return profile;
+      })
+      .finally(() => this.pendingColumnProfiles.delete(key));
+    this.pendingColumnProfiles.set(key, load);
+    return load;
+  }
+
   /**
    * Check if table has columns loaded
    */
   hasColumns(qualifiedName: string): boolean {
-    return this.tablesWithColumns.has(qualifiedName.toUpperCase());
+    return this.tablesWithColumns.has(normalizeName(qualifiedName));
   }
 
   /**
    * Ensure columns are loaded for a table (lazy loading)
+   * Concurrent calls for the same table share one fetch.
    * @param qualifiedName - DATABASE.SCHEMA.TABLE
    * @param fetcher - Function to fetch columns if not cached
    */
@@ -339,15 +737,35 @@ export class SchemaCache {
     qualifiedName: string,
     fetcher: (db: string, schema: string, table: string) => Promise<ColumnInfo[]>
   ): Promise<void> {
-    const upperName = qualifiedName.toUpperCase();
+    const key = normalizeName(qualifiedName);
 
     // Already loaded?
-    if (this.tablesWithColumns.has(upperName)) {
+    if (this.tablesWithColumns.has(key)) {
       return;
     }
 
+    // Already being loaded?
+    const pending = this.pendingColumnLoads.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const load = this.fetchColumns(key, qualifiedName, fetcher)
+      .finally(() => this.pendingColumnLoads.delete(key));
+    this.pendingColumnLoads.set(key, load);
+    return load;
+  }
+
+  /**
+   * Fetch the columns of a table and add them to the cache
+   */
+  private async fetchColumns(
+    key: string,
+    qualifiedName: string,
+    fetcher: (db: string, schema: string, table: string) => Promise<ColumnInfo[]>
+  ): Promise<void> {
     // Parse qualified name
-    const parts = upperName.split('.');
+    const parts = parseQualifiedName(qualifiedName);
     if (parts.length !== 3) {
       throw new Error(`Invalid qualified name: ${qualifiedName}`);
     }
@@ -381,13 +799,13 @@ export class SchemaCache {
       }
 
       // Update table's columns array
-      const table_obj = this.tables.get(upperName);
+      const table_obj = this.tables.get(key);
       if (table_obj) {
         table_obj.columns = columns;
       }
 
       // Mark as loaded
-      this.tablesWithColumns.add(upperName);
+      this.tablesWithColumns.add(key);
     } catch (error) {
       console.error(`Failed to load columns for ${qualifiedName}:`, error);
       throw error;
@@ -395,10 +813,75 @@ export class SchemaCache {
   }
 
   /**
-   * Create a qualified name from parts
+   * Get the declared keys of a table, if loaded
+   */
+  getTableKeys(qualifiedName: string): TableKeys | undefined {
+    return this.tableKeys.get(normalizeName(qualifiedName));
+  }
+
+  /**
+   * Ensure the primary and foreign keys of a table are loaded (lazy loading)
+   * Concurrent calls for the same table share one fetch. A table whose keys failed to
+   * load (e.g. without the privilege to show them) is cached without keys.
+   * @param qualifiedName - DATABASE.SCHEMA.TABLE
+   */
+  async ensureKeysLoaded(
+    qualifiedName: string,
+    primaryKeyFetcher: (db: string, schema: string, table: string) => Promise<PrimaryKeyInfo[]>,
+    foreignKeyFetcher: (db: string, schema: string, table: string) => Promise<ForeignKeyInfo[]>
+  ): Promise<void> {
+    const key = normalizeName(qualifiedName);
+    if (this.tableKeys.has(key)) {
+      return;
+    }
+
+    const pending = this.pendingKeyLoads.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const load = this.fetchKeys(key, qualifiedName, primaryKeyFetcher, foreignKeyFetcher)
+      .finally(() => this.pendingKeyLoads.delete(key));
+    this.pendingKeyLoads.set(key, load);
+    return load;
+  }
+
+  /**
+   * Fetch the primary and foreign keys of a table and add them to the cache
+   */
+  private async fetchKeys(
+    key: string,
+    qualifiedName: string,
+    primaryKeyFetcher: (db: string, schema: string, table: string) => Promise<PrimaryKeyInfo[]>,
+    foreignKeyFetcher: (db: string, schema: string, table: string) => Promise<ForeignKeyInfo[]>
+  ): Promise<void> {
+    const parts = parseQualifiedName(qualifiedName);
+    if (parts.length !== 3) {
+      throw new Error(`Invalid qualified name: ${qualifiedName}`);
+    }
+
+    const [db, schema, table] = parts;
+    try {
+      const [primaryKey, foreignKeys] = await Promise.all([
+        primaryKeyFetcher(db, schema, table),
+        foreignKeyFetcher(db, schema, table),
+      ]);
+      this.tableKeys.set(key, {
+        primaryKey: primaryKey.sort((a, b) => a.key_sequence - b.key_sequence),
+        foreignKeys,
+      });
+    } catch (error) {
+      console.error(`Failed to load keys for ${qualifiedName}:`, error);
+      this.tableKeys.set(key, { primaryKey: [], foreignKeys: [] });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a qualified name from resolved name parts
    */
   private makeQualifiedName(...parts: string[]): string {
-    return parts.join('.').toUpperCase();
+    return makeQualifiedName(...parts);
   }
 
   /**
@@ -407,7 +890,7 @@ export class SchemaCache {
   loadWarehouses(warehouses: WarehouseInfo[]): void {
     this.warehouses.clear();
     for (const warehouse of warehouses) {
-      this.warehouses.set(warehouse.name.toUpperCase(), warehouse);
+      this.warehouses.set(warehouse.name, warehouse);
     }
     console.log(`Loaded ${warehouses.length} warehouses into cache`);
   }
@@ -419,6 +902,20 @@ export class SchemaCache {
     return Array.from(this.warehouses.values());
   }
 
+  /**
+   * Get a warehouse by resolved name
+   */
+  getWarehouse(name: string): WarehouseInfo | undefined {
+    return this.warehouses.get(name);
+  }
+
+  /**
+   * Replace the cached info of one warehouse, e.g. with its live state
+   */
+  updateWarehouse(warehouse: WarehouseInfo): void {
+    this.warehouses.set(warehouse.name, warehouse);
+  }
+
   /**
    * Search warehouses by prefix
    */
@@ -435,7 +932,7 @@ export class SchemaCache {
   loadRoles(roles: RoleInfo[]): void {
     this.roles.clear();
     for (const role of roles) {
-      this.roles.set(role.name.toUpperCase(), role);
+      this.roles.set(role.name, role);
     }
     console.log(`Loaded ${roles.length} roles into cache`);
   }
@@ -447,6 +944,13 @@ export class SchemaCache {
     return Array.from(this.roles.values());
   }
 
+  /**
+   * Get a role by resolved name
+   */
+  getRole(name: string): RoleInfo | undefined {
+    return this.roles.get(name);
+  }
+
   /**
    * Search roles by prefix
    */
@@ -463,7 +967,7 @@ export class SchemaCache {
   loadUsers(users: UserInfo[]): void {
     this.users.clear();
     for (const user of users) {
-      this.users.set(user.name.toUpperCase(), user);
+      this.users.set(user.name, user);
     }
     console.log(`Loaded ${users.length} users into cache`);
   }
@@ -475,6 +979,13 @@ export class SchemaCache {
     return Array.from(this.users.values());
   }
 
+  /**
+   * Get a user by resolved name
+   */
+  getUser(name: string): UserInfo | undefined {
+    return this.users.get(name);
+  }
+
   /**
    * Search users by prefix
    */
@@ -492,7 +1003,8 @@ export class SchemaCache {
   loadDatabases(databases: DatabaseInfo[]): void {
     this.databases.clear();
     for (const db of databases) {
-      this.databases.set(db.name.toUpperCase(), db);
+      this.databases.set(db.name, db);
+      this.databaseNode(db.name).info = db;
     }
     console.log(`Loaded ${databases.length} databases into cache`);
   }
@@ -514,11 +1026,41 @@ export class SchemaCache {
     );
   }
 
+  /**
+   * Load user-defined functions into cache
+   */
+  loadUserFunctions(functions: UserFunctionInfo[]): void {
+    this.userFunctions.clear();
+    for (const fn of functions) {
+      if (!this.userFunctions.has(fn.name)) {
+        this.userFunctions.set(fn.name, []);
+      }
+      this.userFunctions.get(fn.name)!.push(fn);
+    }
+    console.log(`Loaded ${functions.length} user functions into cache`);
+  }
+
+  /**
+   * Get the overloads of a user-defined function by name as written in SQL
+   * Qualified names (schema.fn, db.schema.fn) only match functions in that schema.
+   */
+  getUserFunctions(name: string): UserFunctionInfo[] {
+    const parts = parseQualifiedName(name);
+    if (parts.length === 0) return [];
+
+    const [database, schema] = parts.length === 3 ? parts : [null, parts[0]];
+    return (this.userFunctions.get(parts[parts.length - 1]) || []).filter(fn =>
+      (parts.length < 2 || fn.schema_name === schema) &&
+      (parts.length < 3 || fn.catalog_name === database)
+    );
+  }
+
   /**
    * Load query history into cache
    */
   loadQueryHistory(queries: QueryHistoryInfo[]): void {
     this.queryHistory = queries;
+    this.usage.recordQueries(queries);
     console.log(`Loaded ${queries.length} queries into cache`);
   }
 
@@ -545,3 +1087,25 @@ export class SchemaCache {
       .slice(0, limit);
   }
 }
+
+/**
+ * Describe a view as a relation, for lookups that treat views like tables
+ */
+function viewTableInfo(view: ViewInfo): TableInfo {
+  const type = view.is_materialized ? 'MATERIALIZED VIEW' : 'VIEW';
+  return {
+    catalog: view.catalog,
+    schema: view.schema,
+    name: view.name,
+    type,
+    comment: view.comment,
+    owner: view.owner,
+    rows: null,
+    bytes: null,
+    created_on: view.created_on,
+    kind: type,
+    retention_time: 0,
+    is_external: false,
+    cluster_by: null,
+  };
+}
@@ -0,0 +1,311 @@
+import { Token, TokenType, tokenize, isSignificant, isKeyword, isIdentifier } from './sql-lexer';
+import { isReservedKeyword, resolveIdentifier } from './identifiers';
+import type { Statement } from './sql-parser';
+
+export enum ScriptVariableKind {
+  VARIABLE = 'VARIABLE',    // DECLARE x NUMBER DEFAULT 0 / LET x := ...
+  CURSOR = 'CURSOR',        // c1 CURSOR FOR SELECT ...
+  RESULTSET = 'RESULTSET',  // rs RESULTSET DEFAULT (SELECT ...)
+  EXCEPTION = 'EXCEPTION',  // e EXCEPTION (-20001, 'message')
+  ARGUMENT = 'ARGUMENT',    // Argument of the enclosing procedure or function
+  LOOP = 'LOOP',            // FOR i IN 1 TO 10 DO / FOR rec IN c1 DO
+}
+
+export interface ScriptVariable {
+  name: string;             // Resolved name (unquoted names are upper case), referenced as :name
+  kind: ScriptVariableKind;
+  dataType: string | null;  // Declared type, if any
+  value: string | null;     // Default or assigned expression, or the cursor's query
+  start: number;            // Offset of the declaring name
+  end: number;              // Offset after the declaring name
+}
+
+export interface ScriptBody {
+  tokens: Token[];              // Tokens of the body, at document offsets
+  arguments: ScriptVariable[];  // Arguments of the enclosing procedure or function
+}
+
+// Keywords that precede the statement inside a control flow construct (IF ... THEN stmt;)
+const CONTROL_FLOW_KEYWORDS = ['BEGIN', 'DECLARE', 'ELSE', 'DO', 'LOOP', 'REPEAT', 'EXCEPTION'];
+
+// Keywords that start a condition ending with THEN, DO or LOOP
+const CONDITION_KEYWORDS = ['IF', 'ELSEIF', 'WHEN', 'WHILE', 'FOR'];
+
+// Non-reserved keywords that can be followed by a bind variable (RETURN :x, LIMIT :n)
+const BIND_KEYWORDS = ['RETURN', 'LIMIT', 'OFFSET', 'IMMEDIATE', 'FETCH', 'TOP'];
+
+/**
+ * Find the Snowflake Scripting body ($$ ... $$) containing the cursor
+ * Bodies of EXECUTE IMMEDIATE and of SQL procedures and functions (CREATE ... AS $$ ... $$)
+ * are SQL, unlike bodies of other languages, and are tokenized at their document offsets.
+ */
+export function findScriptBody(text: string, tokens: Token[], index: number, position: number): ScriptBody | null {
+  const token = tokens[index];
+  if (token?.type !== TokenType.DOLLAR_STRING) return null;
+
+  const closed = token.text.length >= 4 && token.text.endsWith('$$');
+  const bodyStart = token.start + 2;
+  const bodyEnd = closed ? token.end - 2 : token.end;
+  if (position < bodyStart || position > bodyEnd) return null;
+
+  // Significant tokens of the statement around the body
+  let first = index;
+  while (first > 0 && tokens[first - 1].type !== TokenType.SEMICOLON) first--;
+  let last = index;
+  while (last < tokens.length - 1 && tokens[last + 1].type !== TokenType.SEMICOLON) last++;
+  const before = tokens.slice(first, index).filter(isSignificant);
+  const after = tokens.slice(index + 1, last + 1).filter(isSignificant);
+
+  let args: ScriptVariable[] = [];
+  const previous = before[before.length - 1];
+  if (isKeyword(previous, 'IMMEDIATE') && isKeyword(before[before.length - 2], 'EXECUTE')) {
+    // EXECUTE IMMEDIATE $$ ... $$
+  } else if (isKeyword(previous, 'AS') && isKeyword(before[0], 'CREATE')) {
+    const routine = before.findIndex(t => isKeyword(t, 'PROCEDURE', 'FUNCTION'));
+    if (routine === -1 || !isSqlLanguage([...before, ...after])) return null;
+    args = readArguments(text, before, routine);
+  } else {
+    return null;
+  }
+
+  const bodyTokens = tokenize(text.substring(bodyStart, bodyEnd)).map(t => ({
+    ...t,
+    start: t.start + bodyStart,
+    end: t.end + bodyStart,
+  }));
+  return { tokens: bodyTokens, arguments: args };
+}
+
+/**
+ * Check if a statement is a Snowflake Scripting block (DECLARE ... BEGIN ... END)
+ */
+export function isScriptingBlock(statement: Statement): boolean {
+  const significant = statement.tokens.filter(isSignificant);
+  if (isKeyword(significant[0], 'DECLARE')) return true;
+  return isKeyword(significant[0], 'BEGIN') && significant.length > 1 &&
+         !isKeyword(significant[1], 'TRANSACTION', 'WORK', 'NAME');
+}
+
+/**
+ * Split a scripting block into the statements nested in it
+ * Every semicolon ends a statement; leading control flow such as BEGIN or IF ... THEN
+ * is not part of the statement that follows it.
+ */
+export function splitBlockStatements(block: Statement): Statement[] {
+  const statements: Statement[] = [];
+  let current: Token[] = [];
+  let start = block.start;
+
+  const push = (end: number) => {
+    const significant = current.filter(isSignificant);
+    const skip = skipControlFlow(significant);
+    const first = significant[skip];
+    statements.push({
+      start,
+      end,
+      tokens: first ? current.filter(t => t.start >= first.start) : [],
+    });
+  };
+
+  for (const token of block.tokens) {
+    if (token.type === TokenType.SEMICOLON) {
+      push(token.start);
+      current = [];
+      start = token.end;
+    } else {
+      current.push(token);
+    }
+  }
+  push(block.end);
+
+  return statements;
+}
+
+/**
+ * Collect the variables declared in a scripting block before a position
+ * Covers DECLARE sections, LET, and FOR loop variables of nested blocks too.
+ */
+export function findScriptVariables(text: string, block: Statement, position: number): ScriptVariable[] {
+  const variables: ScriptVariable[] = [];
+  let inDeclare = false;
+
+  const pieces: Token[][] = [[]];
+  for (const token of block.tokens) {
+    if (token.type === TokenType.SEMICOLON) pieces.push([]);
+    else if (isSignificant(token)) pieces[pieces.length - 1].push(token);
+  }
+
+  for (const tokens of pieces) {
+    if (tokens.length === 0 || tokens[0].start >= position) continue;
+
+    // Walk the control flow prefix, tracking DECLARE sections and loop variables
+    const skip = skipControlFlow(tokens);
+    for (let i = 0; i < skip; i++) {
+      if (isKeyword(tokens[i], 'DECLARE')) inDeclare = true;
+      else if (isKeyword(tokens[i], 'BEGIN')) inDeclare = false;
+      else if (isKeyword(tokens[i], 'FOR') && isIdentifier(tokens[i + 1]) && isKeyword(tokens[i + 2], 'IN')) {
+        variables.push(declaredVariable(tokens[i + 1], ScriptVariableKind.LOOP, null, null));
+      }
+    }
+
+    if (isKeyword(tokens[skip], 'LET') && isIdentifier(tokens[skip + 1])) {
+      variables.push(readDeclaration(text, tokens, skip + 1));
+    } else if (inDeclare && isIdentifier(tokens[skip])) {
+      variables.push(readDeclaration(text, tokens, skip));
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Find the bind variable reference (:name) at the cursor
+ * Returns the name being typed (possibly empty), or null if the cursor is not on a bind.
+ * A colon after an operand is a semi-structured path (src:name), not a bind.
+ */
+export function findBindAt(tokens: Token[], index: number, position: number): string | null {
+  let colon = index;
+  let name = '';
+  if (isIdentifier(tokens[index]) && tokens[index].start < position) {
+    colon = index - 1;
+    name = tokens[index].text;
+  } else if (isIdentifier(tokens[index + 1]) && tokens[index + 1].start === position) {
+    name = tokens[index + 1].text;
+  }
+
+  const token = tokens[colon];
+  if (token?.type !== TokenType.OPERATOR || token.text !== ':' || token.end > position) return null;
+  if (name === '' && token.end !== position) return null;
+
+  let previous = colon - 1;
+  while (previous >= 0 && !isSignificant(tokens[previous])) previous--;
+  const operand = tokens[previous];
+  if (operand) {
+    if (operand.type === TokenType.IDENTIFIER &&
+        !isReservedKeyword(operand.text) && !isKeyword(operand, ...BIND_KEYWORDS)) return null;
+    if (operand.type === TokenType.QUOTED_IDENTIFIER || operand.type === TokenType.RIGHT_PAREN ||
+        operand.text === ']') return null;
+  }
+
+  return name;
+}
+
+/**
+ * Get the number of leading control flow tokens before the statement in a piece of a block
+ */
+function skipControlFlow(tokens: Token[]): number {
+  let i = 0;
+  while (i < tokens.length) {
+    if (isKeyword(tokens[i], ...CONTROL_FLOW_KEYWORDS)) {
+      i++;
+      continue;
+    }
+    if (isKeyword(tokens[i], ...CONDITION_KEYWORDS)) {
+      // Skip the condition up to THEN, DO or LOOP
+      let depth = 0;
+      let j = i + 1;
+      for (; j < tokens.length; j++) {
+        if (tokens[j].type === TokenType.LEFT_PAREN) depth++;
+        else if (tokens[j].type === TokenType.RIGHT_PAREN) depth--;
+        else if (depth === 0 && isKeyword(tokens[j], 'THEN', 'DO', 'LOOP')) break;
+      }
+      if (j === tokens.length) break;
+      i = j + 1;
+      continue;
+    }
+    break;
+  }
+  return i;
+}
+
+/**
+ * Read a declaration starting at the variable name
+ * name CURSOR FOR query | name RESULTSET [DEFAULT | :=] (query) | name EXCEPTION (...)
+ * | name [type] [DEFAULT | := expression]
+ */
+function readDeclaration(text: string, tokens: Token[], index: number): ScriptVariable {
+  const name = tokens[index];
+  const next = tokens[index + 1];
+  const rest = (from: number) => from < tokens.length ? textOf(text, tokens.slice(from)) : null;
+
+  if (isKeyword(next, 'CURSOR')) {
+    const query = isKeyword(tokens[index + 2], 'FOR') ? index + 3 : index + 2;
+    return declaredVariable(name, ScriptVariableKind.CURSOR, null, rest(query));
+  }
+  if (isKeyword(next, 'EXCEPTION')) {
+    return declaredVariable(name, ScriptVariableKind.EXCEPTION, null, rest(index + 2));
+  }
+
+  const assignment = tokens.findIndex((t, i) => i > index && (isKeyword(t, 'DEFAULT') || t.text === ':='));
+  const value = assignment === -1 ? null : rest(assignment + 1);
+  if (isKeyword(next, 'RESULTSET')) {
+    return declaredVariable(name, ScriptVariableKind.RESULTSET, null, value);
+  }
+
+  const typeEnd = assignment === -1 ? tokens.length : assignment;
+  const dataType = typeEnd > index + 1 ? textOf(text, tokens.slice(index + 1, typeEnd)).toUpperCase() : null;
+  return declaredVariable(name, ScriptVariableKind.VARIABLE, dataType, value);
+}
+
+/**
+ * Read the arguments of CREATE PROCEDURE / FUNCTION name (arg type [DEFAULT value], ...)
+ */
+function readArguments(text: string, tokens: Token[], routine: number): ScriptVariable[] {
+  const open = tokens.findIndex((t, i) => i > routine && t.type === TokenType.LEFT_PAREN);
+  if (open === -1) return [];
+
+  const args: ScriptVariable[] = [];
+  let item: Token[] = [];
+  let depth = 0;
+  const flush = () => {
+    if (isIdentifier(item[0])) {
+      const defaultIndex = item.findIndex(t => isKeyword(t, 'DEFAULT'));
+      const typeTokens = item.slice(1, defaultIndex === -1 ? item.length : defaultIndex);
+      const dataType = typeTokens.length > 0 ? textOf(text, typeTokens).toUpperCase() : null;
+      const value = defaultIndex === -1 ? null : textOf(text, item.slice(defaultIndex + 1));
+      args.push(declaredVariable(item[0], ScriptVariableKind.ARGUMENT, dataType, value));
+    }
+    item = [];
+  };
+
+  for (let i = open + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === TokenType.LEFT_PAREN) depth++;
+    if (token.type === TokenType.RIGHT_PAREN && depth-- === 0) break;
+    if (token.type === TokenType.COMMA && depth === 0) {
+      flush();
+      continue;
+    }
+    item.push(token);
+  }
+  flush();
+
+  return args;
+}
+
+/**
+ * Check if a CREATE PROCEDURE / FUNCTION statement has a SQL body (the default language)
+ */
+function isSqlLanguage(tokens: Token[]): boolean {
+  const language = tokens.findIndex(t => isKeyword(t, 'LANGUAGE'));
+  return language === -1 || isKeyword(tokens[language + 1], 'SQL');
+}
+
+/**
+ * Create a script variable declared by a name token
+ */
+function declaredVariable(
+  name: Token,
+  kind: ScriptVariableKind,
+  dataType: string | null,
+  value: string | null
+): ScriptVariable {
+  return { name: resolveIdentifier(name), kind, dataType, value, start: name.start, end: name.end };
+}
+
+/**
+ * Get the document text spanned by a list of tokens
+ */
+function textOf(text: string, tokens: Token[]): string {
+  return tokens.length > 0 ? text.substring(tokens[0].start, tokens[tokens.length - 1].end) : '';
+}
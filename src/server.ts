@@ -10,13 +10,16 @@ import {
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { SnowflakeConnection, loadConfigFromEnv } from './snowflake';
 import { SchemaCache } from './schema-cache';
-import { CompletionProvider } from './completion';
+import { CompletionProvider, RECORD_COMPLETION_COMMAND } from './completion';
 import { HoverProvider } from './hover';
+import { ObjectDdlProvider, SHOW_DDL_COMMAND } from './object-ddl';
 import { DefinitionProvider } from './definition';
 import { DiagnosticsProvider } from './diagnostics';
 import { FormattingProvider } from './formatting';
+import { SignatureHelpProvider } from './signature-help';
 import { SessionContextManager } from './session-context';
-import { parseUseCommands } from './sql-parser';
+import { DocumentCache } from './document-cache';
+import { DdlObjectType } from './ddl';
 
 // Create LSP connection using stdio for communication with Helix
 const connection = createConnection(ProposedFeatures.all, process.stdin, process.stdout);
@@ -29,11 +32,16 @@ let snowflakeConnection: SnowflakeConnection;
 let schemaCache: SchemaCache;
 let completionProvider: CompletionProvider;
 let hoverProvider: HoverProvider;
+let ddlProvider: ObjectDdlProvider;
 let definitionProvider: DefinitionProvider;
 let diagnosticsProvider: DiagnosticsProvider;
 let formattingProvider: FormattingProvider;
+let signatureHelpProvider: SignatureHelpProvider;
 let sessionContextManager: SessionContextManager;
 
+// Parse results of open documents, shared by all providers
+const documentCache = new DocumentCache();
+
 let isInitialized = false;
 
 /**
@@ -46,12 +54,20 @@ connection.onInitialize(async (params: InitializeParams) => {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
       completionProvider: {
-        resolveProvider: false,
-        triggerCharacters: ['.', ' '],
+        resolveProvider: true,
+        triggerCharacters: ['.', ' ', '$'],
+      },
+      signatureHelpProvider: {
+        triggerCharacters: ['(', ','],
+        retriggerCharacters: [')'],
       },
       hoverProvider: true,
       definitionProvider: true,
       documentFormattingProvider: true,
+      codeActionProvider: true,
+      executeCommandProvider: {
+        commands: [RECORD_COMPLETION_COMMAND, SHOW_DDL_COMMAND],
+      },
     },
   };
 
@@ -81,7 +97,7 @@ connection.onInitialized(async () => {
     connection.console.log('Loading schema from Snowflake...');
 
     // Load schema data (columns loaded lazily on-demand)
-    const [tables, views, warehouses, roles, users, databases, queryHistory] = await Promise.all([
+    const [tables, views, warehouses, roles, users, databases, queryHistory, userFunctions] = await Promise.all([
       snowflakeConnection.fetchTables(),
       snowflakeConnection.fetchViews(),
       snowflakeConnection.fetchWarehouses(),
@@ -89,11 +105,13 @@ connection.onInitialized(async () => {
       snowflakeConnection.fetchUsers(),
       snowflakeConnection.fetchDatabases(),
       snowflakeConnection.fetchQueryHistory(),
+      snowflakeConnection.fetchUserFunctions(),
     ]);
 
     connection.console.log(`Loaded ${tables.length} tables, ${views.length} views`);
     connection.console.log(`Loaded ${warehouses.length} warehouses, ${roles.length} roles, ${users.length} users, ${databases.length} databases`);
     connection.console.log(`Loaded ${queryHistory.length} queries from history`);
+    connection.console.log(`Loaded ${userFunctions.length} user function signatures`);
     connection.console.log('Note: Columns will be loaded lazily on first access');
 
     // Load tables without columns (empty array) - columns loaded on-demand
@@ -104,16 +122,19 @@ connection.onInitialized(async () => {
     schemaCache.loadUsers(users);
     schemaCache.loadDatabases(databases);
     schemaCache.loadQueryHistory(queryHistory);
+    schemaCache.loadUserFunctions(userFunctions);
 
     const stats = schemaCache.getStats();
     connection.console.log(`Schema cache populated: ${JSON.stringify(stats)}`);
 
     // Initialize providers
-    completionProvider = new CompletionProvider(schemaCache);
-    hoverProvider = new HoverProvider(schemaCache, snowflakeConnection);
-    definitionProvider = new DefinitionProvider(schemaCache);
-    diagnosticsProvider = new DiagnosticsProvider(schemaCache);
+    completionProvider = new CompletionProvider(schemaCache, snowflakeConnection, documentCache);
     formattingProvider = new FormattingProvider();
+    ddlProvider = new ObjectDdlProvider(schemaCache, snowflakeConnection, documentCache, formattingProvider);
+    hoverProvider = new HoverProvider(schemaCache, snowflakeConnection, documentCache, ddlProvider);
+    definitionProvider = new DefinitionProvider(schemaCache, documentCache);
+    diagnosticsProvider = new DiagnosticsProvider(schemaCache, documentCache);
+    signatureHelpProvider = new SignatureHelpProvider(schemaCache, documentCache);
 
     // Initialize session context manager
     sessionContextManager = new SessionContextManager();
@@ -144,15 +165,88 @@ connection.onCompletion(async (params): Promise<CompletionItem[]> => {
   }
 
   try {
-    // Get session context for this document
-    const context = sessionContextManager?.getContext(params.textDocument.uri);
-    return completionProvider.provideCompletions(document, params, context);
+    // Get session context in effect at the cursor
+    const context = sessionContextManager?.getContextAt(
+      params.textDocument.uri,
+      document.offsetAt(params.position)
+    );
+    return await completionProvider.provideCompletions(document, params, context);
   } catch (error) {
     connection.console.error(`Completion error: ${error}`);
     return [];
   }
 });
 
+/**
+ * Resolve documentation of the focused completion item
+ */
+connection.onCompletionResolve(async (item): Promise<CompletionItem> => {
+  if (!isInitialized || !completionProvider) {
+    return item;
+  }
+
+  try {
+    return await completionProvider.resolveCompletionItem(item);
+  } catch (error) {
+    connection.console.error(`Completion resolve error: ${error}`);
+    return item;
+  }
+});
+
+/**
+ * Handle commands; accepted completion items report themselves to rank later completions,
+ * and DDL code actions open the DDL of an object in a read-only document
+ */
+connection.onExecuteCommand(async (params) => {
+  if (!isInitialized || !schemaCache) {
+    return;
+  }
+
+  if (params.command === RECORD_COMPLETION_COMMAND && typeof params.arguments?.[0] === 'string') {
+    schemaCache.recordAcceptedCompletion(params.arguments[0]);
+  }
+
+  if (params.command === SHOW_DDL_COMMAND && ddlProvider) {
+    const [objectType, name] = params.arguments || [];
+    if (!Object.values(DdlObjectType).includes(objectType) || typeof name !== 'string') {
+      return;
+    }
+
+    try {
+      const uri = await ddlProvider.writeDDLDocument({ objectType, name });
+      await connection.window.showDocument({ uri, takeFocus: true });
+    } catch (error) {
+      connection.console.error(`Show DDL error: ${error}`);
+      connection.window.showErrorMessage(`Could not show DDL of ${name}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+});
+
+/**
+ * Handle code action requests; objects at the cursor offer to show their DDL
+ */
+connection.onCodeAction((params) => {
+  if (!isInitialized || !ddlProvider) {
+    return [];
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return [];
+  }
+
+  try {
+    const context = sessionContextManager?.getContextAt(
+      params.textDocument.uri,
+      document.offsetAt(params.range.start)
+    );
+    return ddlProvider.provideCodeActions(document, params.range.start, context);
+  } catch (error) {
+    connection.console.error(`Code action error: ${error}`);
+    return [];
+  }
+});
+
 /**
  * Handle hover requests
  */
@@ -167,13 +261,42 @@ connection.onHover(async (params) => {
   }
 
   try {
-    return await hoverProvider.provideHover(document, params);
+    const context = sessionContextManager?.getContextAt(
+      params.textDocument.uri,
+      document.offsetAt(params.position)
+    );
+    return await hoverProvider.provideHover(document, params, context);
   } catch (error) {
     connection.console.error(`Hover error: ${error}`);
     return undefined;
   }
 });
 
+/**
+ * Handle signature help requests
+ */
+connection.onSignatureHelp(async (params) => {
+  if (!isInitialized || !signatureHelpProvider) {
+    return null;
+  }
+
+  const document = documents.get(params.textDocument.uri);
+  if (!document) {
+    return null;
+  }
+
+  try {
+    const context = sessionContextManager?.getContextAt(
+      params.textDocument.uri,
+      document.offsetAt(params.position)
+    );
+    return signatureHelpProvider.provideSignatureHelp(document, params, context);
+  } catch (error) {
+    connection.console.error(`Signature help error: ${error}`);
+    return null;
+  }
+});
+
 /**
  * Handle definition requests
  */
@@ -225,7 +348,7 @@ async function validateDocument(document: TextDocument): Promise<void> {
   }
 
   try {
-    const diagnostics = await diagnosticsProvider.provideDiagnostics(document);
+    const diagnostics = await diagnosticsProvider.provideDiagnostics(document, sessionContextManager);
     connection.sendDiagnostics({
       uri: document.uri,
       diagnostics,
@@ -238,24 +361,22 @@ async function validateDocument(document: TextDocument): Promise<void> {
 // Document change handlers
 documents.onDidOpen((event) => {
   // Parse USE commands and initialize context for this document
-  const useCommands = parseUseCommands(event.document.getText());
   if (sessionContextManager) {
-    sessionContextManager.updateContext(event.document.uri, useCommands);
+    sessionContextManager.updateContext(event.document.uri, documentCache.get(event.document).useCommands);
   }
   validateDocument(event.document);
 });
 
 documents.onDidChangeContent((change) => {
-  // Re-parse USE commands on document change
-  // TODO: Optimize by only parsing when text contains "USE"
+  // Re-parse USE commands on document change (only the edited statements are tokenized again)
   if (sessionContextManager) {
-    const useCommands = parseUseCommands(change.document.getText());
-    sessionContextManager.updateContext(change.document.uri, useCommands);
+    sessionContextManager.updateContext(change.document.uri, documentCache.get(change.document).useCommands);
   }
   validateDocument(change.document);
 });
 
 documents.onDidClose((event) => {
+  documentCache.remove(event.document.uri);
   // Clear session context for this document
   if (sessionContextManager) {
     sessionContextManager.clearContext(event.document.uri);
@@ -274,8 +395,17 @@ documents.listen(connection);
 connection.listen();
 
 // Handle cleanup on shutdown
+connection.onShutdown(async () => {
+  if (ddlProvider) {
+    await ddlProvider.removeDDLDocuments();
+  }
+});
+
 process.on('SIGINT', async () => {
   connection.console.log('Shutting down Snowflake Language Server...');
+  if (ddlProvider) {
+    await ddlProvider.removeDDLDocuments();
+  }
   if (snowflakeConnection) {
     await snowflakeConnection.disconnect();
   }
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { SessionContextManager, UseCommand, UseCommandType } from './session-context';
+
+const URI = 'file:///script.sql';
+
+const COMMANDS: UseCommand[] = [
+  { type: UseCommandType.DATABASE, value: 'PROD', line: 0, offset: 10 },
+  { type: UseCommandType.SET_VARIABLE, value: 'CUTOFF', line: 1, offset: 20,
+    variable: { name: 'CUTOFF', value: "'2024-01-01'", dataType: 'VARCHAR', line: 1 } },
+  { type: UseCommandType.SCHEMA, value: 'SALES', line: 2, offset: 30 },
+  { type: UseCommandType.UNSET_VARIABLE, value: 'CUTOFF', line: 3, offset: 40 },
+];
+
+describe('SessionContextManager.getContextsAt', () => {
+  it('gives each offset the context getContextAt gives it, in the order of the offsets', () => {
+    const manager = new SessionContextManager();
+    manager.updateContext(URI, COMMANDS);
+    const offsets = [45, 0, 25, 10, 35, 25, 15];
+
+    const contexts = manager.getContextsAt(URI, offsets);
+    const plain = (offset: number) => {
+      const { lastUpdated, ...context } = manager.getContextAt(URI, offset);
+      return context;
+    };
+    offsets.forEach((offset, i) => {
+      const { lastUpdated, ...context } = contexts[i];
+      expect(context, `offset ${offset}`).toEqual(plain(offset));
+    });
+  });
+
+  it('shares contexts between offsets with no command between them', () => {
+    const manager = new SessionContextManager();
+    manager.updateContext(URI, COMMANDS);
+
+    const [first, second, third] = manager.getContextsAt(URI, [12, 18, 22]);
+    expect(second).toBe(first);
+    expect(third).not.toBe(first);
+    expect(first.variables.has('CUTOFF')).toBe(false);
+    expect(third.variables.get('CUTOFF')?.value).toBe("'2024-01-01'");
+  });
+});
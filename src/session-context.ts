@@ -6,24 +6,44 @@ export interface SessionContext {
   schema: string | null;
   warehouse: string | null;
   role: string | null;
+  secondaryRoles: string | null; // ALL, NONE or a comma separated role list
+  searchPath: string | null;     // SEARCH_PATH session parameter, null for the default
+  variables: Map<string, SessionVariable>; // Session variables by name (SET name = ...)
   lastUpdated: number;
 }
 
+export interface SessionVariable {
+  name: string;      // Resolved name (unquoted names are upper case), referenced as $name
+  value: string;     // Value expression as written
+  dataType: string;  // Inferred from the value, UNKNOWN for expressions
+  line: number;
+}
+
 export enum UseCommandType {
   DATABASE = 'DATABASE',
   SCHEMA = 'SCHEMA',
   WAREHOUSE = 'WAREHOUSE',
   ROLE = 'ROLE',
+  SECONDARY_ROLES = 'SECONDARY_ROLES',
+  SEARCH_PATH = 'SEARCH_PATH',
+  SET_VARIABLE = 'SET_VARIABLE',     // value is the variable name
+  UNSET_VARIABLE = 'UNSET_VARIABLE', // value is the variable name
 }
 
+// Snowflake's default SEARCH_PATH: current schema, then PUBLIC of the current database
+export const DEFAULT_SEARCH_PATH = '$current, $public';
+
 export interface UseCommand {
   type: UseCommandType;
   value: string;
   line: number;
+  offset: number; // End of the statement; the command applies to text after it
+  variable?: SessionVariable; // For SET_VARIABLE
 }
 
 export class SessionContextManager {
   private contexts: Map<string, SessionContext> = new Map();
+  private commands: Map<string, UseCommand[]> = new Map();
   private globalContext: SessionContext | null = null;
 
   /**
@@ -50,6 +70,9 @@ export class SessionContextManager {
           schema: row.CURRENT_SCHEMA || row.current_schema || null,
           warehouse: row.CURRENT_WAREHOUSE || row.current_warehouse || null,
           role: row.CURRENT_ROLE || row.current_role || null,
+          secondaryRoles: null,
+          searchPath: null,
+          variables: new Map(),
           lastUpdated: Date.now(),
         };
 
@@ -64,26 +87,21 @@ export class SessionContextManager {
         schema: null,
         warehouse: null,
         role: null,
+        secondaryRoles: null,
+        searchPath: null,
+        variables: new Map(),
         lastUpdated: Date.now(),
       };
     }
   }
 
   /**
-   * Get context for a document
+   * Get context for a document (after all of its USE commands)
    * If not exists, creates from global context
    */
   getContext(uri: string): SessionContext {
     if (!this.contexts.has(uri)) {
-      // Create new context from global
-      const newContext: SessionContext = {
-        uri,
-        database: this.globalContext?.database || null,
-        schema: this.globalContext?.schema || null,
-        warehouse: this.globalContext?.warehouse || null,
-        role: this.globalContext?.role || null,
-        lastUpdated: Date.now(),
-      };
+      const newContext = this.createContext(uri);
       this.contexts.set(uri, newContext);
       return newContext;
     }
@@ -91,37 +109,115 @@ export class SessionContextManager {
     return this.contexts.get(uri)!;
   }
 
+  /**
+   * Get context in effect at an offset of a document
+   * Only the USE commands that precede the offset are replayed, so a USE at the
+   * bottom of a script does not affect the statements above it.
+   */
+  getContextAt(uri: string, offset: number): SessionContext {
+    const context = this.createContext(uri);
+    const commands = this.commands.get(uri) || [];
+    this.applyCommands(context, commands.filter(cmd => cmd.offset <= offset));
+    return context;
+  }
+
+  /**
+   * Get the contexts in effect at several offsets of a document, in the order of the offsets
+   * The commands are replayed once over the sorted offsets; offsets with no command between
+   * them share one context object.
+   */
+  getContextsAt(uri: string, offsets: number[]): SessionContext[] {
+    const commands = this.commands.get(uri) || [];
+    const order = offsets.map((_, i) => i).sort((a, b) => offsets[a] - offsets[b]);
+    const contexts: SessionContext[] = new Array(offsets.length);
+
+    let context = this.createContext(uri);
+    let next = 0;
+    for (const i of order) {
+      const applied = next;
+      while (next < commands.length && commands[next].offset <= offsets[i]) next++;
+      if (next > applied) {
+        context = { ...context, variables: new Map(context.variables) };
+        this.applyCommands(context, commands.slice(applied, next));
+      }
+      contexts[i] = context;
+    }
+
+    return contexts;
+  }
+
   /**
    * Update context based on USE commands
-   * Commands are applied sequentially
+   * Commands are applied sequentially, starting from the global context
    */
   updateContext(uri: string, commands: UseCommand[]): void {
-    const context = this.getContext(uri);
+    const context = this.createContext(uri);
+    this.applyCommands(context, commands);
 
+    this.commands.set(uri, commands);
+    this.contexts.set(uri, context);
+  }
+
+  /**
+   * Create a new context from the global context
+   */
+  private createContext(uri: string): SessionContext {
+    return {
+      uri,
+      database: this.globalContext?.database || null,
+      schema: this.globalContext?.schema || null,
+      warehouse: this.globalContext?.warehouse || null,
+      role: this.globalContext?.role || null,
+      secondaryRoles: this.globalContext?.secondaryRoles || null,
+      searchPath: this.globalContext?.searchPath || null,
+      variables: new Map(this.globalContext?.variables),
+      lastUpdated: Date.now(),
+    };
+  }
+
+  /**
+   * Apply USE commands to a context in order
+   */
+  private applyCommands(context: SessionContext, commands: UseCommand[]): void {
     for (const cmd of commands) {
       switch (cmd.type) {
         case UseCommandType.DATABASE:
-          context.database = cmd.value.toUpperCase();
+          context.database = cmd.value;
           // Reset schema when database changes
           context.schema = null;
           break;
 
         case UseCommandType.SCHEMA:
-          context.schema = cmd.value.toUpperCase();
+          context.schema = cmd.value;
           break;
 
         case UseCommandType.WAREHOUSE:
-          context.warehouse = cmd.value.toUpperCase();
+          context.warehouse = cmd.value;
           break;
 
         case UseCommandType.ROLE:
-          context.role = cmd.value.toUpperCase();
+          context.role = cmd.value;
+          break;
+
+        case UseCommandType.SECONDARY_ROLES:
+          context.secondaryRoles = cmd.value;
+          break;
+
+        case UseCommandType.SEARCH_PATH:
+          context.searchPath = cmd.value;
+          break;
+
+        case UseCommandType.SET_VARIABLE:
+          context.variables.set(cmd.value, cmd.variable!);
+          break;
+
+        case UseCommandType.UNSET_VARIABLE:
+          context.variables.delete(cmd.value);
           break;
       }
     }
 
     context.lastUpdated = Date.now();
-    this.contexts.set(uri, context);
   }
 
   /**
@@ -129,6 +225,7 @@ export class SessionContextManager {
    */
   clearContext(uri: string): void {
     this.contexts.delete(uri);
+    this.commands.delete(uri);
   }
 
   /**
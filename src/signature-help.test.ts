@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SignatureHelpProvider } from './signature-help';
+import { SchemaCache } from './schema-cache';
+import { DocumentCache } from './document-cache';
+
+// Signature help at the offset of |
+function helpAt(sql: string) {
+  const text = sql.replace('|', '');
+  const document = TextDocument.create('file:///help.sql', 'sql', 1, text);
+  const provider = new SignatureHelpProvider(new SchemaCache(), new DocumentCache());
+  return provider.provideSignatureHelp(document, { textDocument: { uri: document.uri }, position: document.positionAt(sql.indexOf('|')) });
+}
+
+describe('SignatureHelpProvider', () => {
+  it('finds the function called at the cursor and the active parameter', () => {
+    const help = helpAt('SELECT COALESCE(a, |) FROM t');
+    expect(help?.signatures[0].label).toMatch(/^COALESCE\(/);
+    expect(help?.activeParameter).toBe(1);
+  });
+
+  it('finds function names written before whitespace and the parenthesis', () => {
+    const help = helpAt('SELECT COALESCE (a, |) FROM t');
+    expect(help?.signatures[0].label).toMatch(/^COALESCE\(/);
+    expect(help?.activeParameter).toBe(1);
+    expect(helpAt('SELECT COALESCE\n  (|')?.signatures[0].label).toMatch(/^COALESCE\(/);
+  });
+
+  it('gives no help in parentheses without a function name', () => {
+    expect(helpAt('SELECT (a + |')).toBeNull();
+  });
+});
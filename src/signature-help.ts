@@ -0,0 +1,213 @@
+import {
+  ParameterInformation,
+  SignatureHelp,
+  SignatureInformation,
+  TextDocumentPositionParams,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SchemaCache } from './schema-cache';
+import { DocumentCache } from './document-cache';
+import { SessionContext } from './session-context';
+import { QueryScope, SQLContext, Statement, parseContext } from './sql-parser';
+import { Token, TokenType, tokenIndexAt, isIdentifier, isLiteralOrComment } from './sql-lexer';
+import { findScriptBody } from './scripting';
+import { parseQualifiedName, quoteIdentifier } from './identifiers';
+import { FunctionInfo, formatParameter, getFunctionOverloads, userFunctionInfo } from './functions';
+
+/**
+ * Function call around the cursor
+ */
+interface FunctionCall {
+  overloads: FunctionInfo[];
+  argumentIndex: number;  // Zero-based index of the argument under the cursor
+}
+
+export class SignatureHelpProvider {
+  constructor(
+    private schemaCache: SchemaCache,
+    private documentCache: DocumentCache
+  ) {}
+
+  /**
+   * Provide signatures of the built-in or user-defined function called at the cursor
+   * The active parameter is the number of commas before the cursor at the call's own
+   * parenthesis level; commas in nested calls, parentheses and strings do not count.
+   * Outside of calls, values of an INSERT show the target column they are written to.
+   */
+  provideSignatureHelp(
+    document: TextDocument,
+    params: TextDocumentPositionParams,
+    context?: SessionContext
+  ): SignatureHelp | null {
+    const { text, tokens, statements, scopeTree } = this.documentCache.get(document);
+    const offset = document.offsetAt(params.position);
+
+    // Bodies of EXECUTE IMMEDIATE and SQL procedures are SQL, not a string
+    const body = findScriptBody(text, tokens, tokenIndexAt(tokens, offset), offset);
+    const call = this.findCallAt(body ? body.tokens : tokens, offset);
+    if (!call) {
+      return this.provideTargetColumnHelp(text, offset, tokens, statements, scopeTree, context);
+    }
+
+    const signatures = call.overloads.map(fn => this.createSignature(fn));
+
+    // Prefer the first overload that takes as many arguments as are written
+    const activeSignature = Math.max(0, call.overloads.findIndex(fn =>
+      fn.parameters.length > call.argumentIndex || fn.parameters.some(param => param.variadic)
+    ));
+
+    return {
+      signatures,
+      activeSignature,
+      activeParameter: this.activeParameter(call.overloads[activeSignature], call.argumentIndex),
+    };
+  }
+
+  /**
+   * Show the target columns of an INSERT as a signature, with the column of the value at the cursor
+   * Works in VALUES tuples and the SELECT list of INSERT ... SELECT, also in MERGE ... THEN INSERT.
+   * Columns are the INSERT's column list, or all columns of the target table.
+   */
+  private provideTargetColumnHelp(
+    text: string,
+    offset: number,
+    tokens: Token[],
+    statements: Statement[],
+    scopeTree: (statement: Statement) => QueryScope,
+    context?: SessionContext
+  ): SignatureHelp | null {
+    const parsed = parseContext(text, offset, tokens, statements, scopeTree);
+    const target = parsed.dmlTarget;
+    if (!target || target.valueIndex === null || parsed.context === SQLContext.LITERAL) return null;
+
+    const table = this.schemaCache.getTable(target.table, context);
+    const types = new Map((table?.columns || []).map(column => [column.columnName, column.dataType]));
+    const columns = target.insertColumns || table?.columns.map(column => column.columnName) || [];
+    if (columns.length === 0) return null;
+
+    const parameters: ParameterInformation[] = [];
+    let label = `${table?.qualifiedName || target.table}(`;
+    columns.forEach((column, i) => {
+      if (i > 0) label += ', ';
+      const text = types.has(column) ? `${quoteIdentifier(column)} ${types.get(column)}` : quoteIdentifier(column);
+      parameters.push({ label: [label.length, label.length + text.length] });
+      label += text;
+    });
+    label += ')';
+
+    return {
+      signatures: [{ label, documentation: 'Target columns of the INSERT', parameters }],
+      activeSignature: 0,
+      activeParameter: target.valueIndex,
+    };
+  }
+
+  /**
+   * Find the innermost call of a known function whose argument list contains the offset
+   * Parentheses that are not calls of known functions (subqueries, IN lists, OVER) are skipped.
+   */
+  private findCallAt(tokens: Token[], offset: number): FunctionCall | null {
+    const index = tokenIndexAt(tokens, offset);
+    if (index === -1) return null;
+
+    // No signature help inside strings and comments
+    const cursorToken = tokens[index];
+    if (isLiteralOrComment(cursorToken) && cursorToken.start < offset && offset < cursorToken.end) {
+      return null;
+    }
+
+    let depth = 0;
+    let commas = 0;
+    for (let i = index; i >= 0; i--) {
+      const token = tokens[i];
+      if (token.end > offset) continue;
+
+      if (token.type === TokenType.SEMICOLON) break;
+      if (token.type === TokenType.RIGHT_PAREN) {
+        depth++;
+      } else if (token.type === TokenType.LEFT_PAREN) {
+        if (depth > 0) {
+          depth--;
+          continue;
+        }
+        const overloads = this.findOverloads(this.readFunctionName(tokens, i));
+        if (overloads.length > 0) {
+          return { overloads, argumentIndex: commas };
+        }
+        // Argument of an enclosing call, if any
+        commas = 0;
+      } else if (token.type === TokenType.COMMA && depth === 0) {
+        commas++;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Read the (possibly qualified) name written before an opening parenthesis
+   * Whitespace may separate the name from the parenthesis, as in COALESCE (a, b).
+   */
+  private readFunctionName(tokens: Token[], paren: number): string | null {
+    let end = paren;
+    while (end > 0 && tokens[end - 1].type === TokenType.WHITESPACE) end--;
+
+    let first = end;
+    for (let i = end - 1; i >= 0; i--) {
+      const token = tokens[i];
+      const expectName = (end - i) % 2 === 1;
+      if (expectName ? !isIdentifier(token) : token.type !== TokenType.DOT) break;
+      first = i;
+    }
+
+    // A name can't end at a dot
+    if (first === end || tokens[first].type === TokenType.DOT) return null;
+    return tokens.slice(first, end).map(t => t.text).join('');
+  }
+
+  /**
+   * Get the overloads of a function by name as written in SQL
+   * Built-in functions are never qualified; user-defined functions may be.
+   */
+  private findOverloads(name: string | null): FunctionInfo[] {
+    if (!name) return [];
+
+    const parts = parseQualifiedName(name);
+    const builtIn = parts.length === 1 ? getFunctionOverloads(parts[0]) : [];
+    return [...builtIn, ...this.schemaCache.getUserFunctions(name).map(userFunctionInfo)];
+  }
+
+  /**
+   * Create the signature information of a function, with parameter label offsets
+   */
+  private createSignature(fn: FunctionInfo): SignatureInformation {
+    const parameters: ParameterInformation[] = [];
+    let label = `${fn.name}(`;
+
+    fn.parameters.forEach((param, i) => {
+      if (i > 0) label += ', ';
+      const text = formatParameter(param);
+      parameters.push({ label: [label.length, label.length + text.length] });
+      label += text;
+    });
+    label += `) → ${fn.returnType}`;
+
+    const origin = fn.qualifiedName ? `${fn.category} function ${fn.qualifiedName}` : `${fn.category} function`;
+    return {
+      label,
+      documentation: `${fn.description}\n${origin}`,
+      parameters,
+    };
+  }
+
+  /**
+   * Get the parameter an argument binds to; repeated arguments bind to the variadic parameter
+   */
+  private activeParameter(fn: FunctionInfo, argumentIndex: number): number {
+    const last = fn.parameters.length - 1;
+    if (argumentIndex > last && fn.parameters[last]?.variadic) {
+      return last;
+    }
+    return argumentIndex;
+  }
+}
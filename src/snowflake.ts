@@ -2,6 +2,8 @@ import snowflake from 'snowflake-sdk';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { makeQualifiedName, parseQualifiedName } from './identifiers';
+import { DdlObjectType } from './ddl';
 
 export interface SnowflakeConfig {
   account: string;
@@ -16,7 +18,7 @@ export interface TableInfo {
   catalog: string;
   schema: string;
   name: string;
-  type: string; // 'BASE TABLE' or 'VIEW'
+  type: string; // 'BASE TABLE', 'VIEW' or 'MATERIALIZED VIEW'
 
   // Enhanced metadata from SHOW TABLES
   comment: string | null;
@@ -24,7 +26,7 @@ export interface TableInfo {
   rows: number | null;
   bytes: number | null;
   created_on: string;
-  kind: string; // TABLE, TEMPORARY, TRANSIENT, EXTERNAL
+  kind: string; // TABLE, TEMPORARY, TRANSIENT, EXTERNAL, VIEW, MATERIALIZED VIEW
   retention_time: number;
   is_external: boolean;
   cluster_by: string | null;
@@ -49,7 +51,12 @@ export interface ViewInfo {
   catalog: string;
   schema: string;
   name: string;
-  definition: string;
+  definition: string | null; // CREATE VIEW statement; null for secure views of other owners
+  is_secure: boolean;
+  is_materialized: boolean;
+  owner: string;
+  comment: string | null;
+  created_on: string;
 }
 
 export interface DatabaseInfo {
@@ -68,6 +75,28 @@ export interface SchemaInfo {
   comment: string | null;
 }
 
+export interface PrimaryKeyInfo {
+  database_name: string;
+  schema_name: string;
+  table_name: string;
+  column_name: string;
+  key_sequence: number;
+  constraint_name: string;
+}
+
+export interface ForeignKeyInfo {
+  pk_database_name: string;
+  pk_schema_name: string;
+  pk_table_name: string;
+  pk_column_name: string;
+  fk_database_name: string;
+  fk_schema_name: string;
+  fk_table_name: string;
+  fk_column_name: string;
+  key_sequence: number;
+  fk_name: string;
+}
+
 export interface DDLInfo {
   qualifiedName: string;
   ddl: string;
@@ -83,7 +112,7 @@ export interface WarehouseInfo {
   queued: number; // number of queued queries
   is_default: boolean;
   is_current: boolean;
-  auto_suspend: number | null; // minutes
+  auto_suspend: number | null; // seconds
   auto_resume: boolean;
   available: string; // available percentage
   provisioning: string;
@@ -137,6 +166,16 @@ export interface UserInfo {
   comment: string | null;
 }
 
+export interface UserFunctionInfo {
+  name: string;
+  schema_name: string;
+  catalog_name: string;
+  arguments: string; // Signature, e.g. MY_FN(NUMBER, VARCHAR) RETURN VARCHAR
+  description: string | null;
+  is_table_function: boolean;
+  language: string;
+}
+
 export interface QueryHistoryInfo {
   query_id: string;
   query_text: string;
@@ -167,6 +206,19 @@ export interface QueryHistoryInfo {
   transaction_blocked_time: number;
 }
 
+/**
+ * Statistics of a column computed on a sample of its table
+ */
+export interface ColumnProfile {
+  samplePercent: number;        // Share of the table's blocks sampled, 100 for the whole table
+  sampledRows: number;
+  nullCount: number;
+  distinctCount: number;        // Approximate (HyperLogLog)
+  min: string | null;
+  max: string | null;
+  topValues: { value: string | null; count: number }[];  // Approximate, most frequent first
+}
+
 export class SnowflakeConnection {
   private connection: snowflake.Connection | null = null;
   private config: SnowflakeConfig;
@@ -232,7 +284,7 @@ export class SnowflakeConnection {
    * Fetch schemas using SHOW SCHEMAS IN DATABASE
    */
   async fetchSchemas(database: string): Promise<SchemaInfo[]> {
-    const query = `SHOW SCHEMAS IN DATABASE ${database}`;
+    const query = `SHOW SCHEMAS IN DATABASE ${makeQualifiedName(database)}`;
 
     try {
       const rows = await this.executeQuery<any>(query);
@@ -253,8 +305,8 @@ export class SnowflakeConnection {
   /**
    * Fetch tables using SHOW TABLES IN SCHEMA
    */
-  private async fetchTablesViaShow(database: string, schema: string): Promise<TableInfo[]> {
-    const query = `SHOW TABLES IN SCHEMA ${database}.${schema}`;
+  async fetchTablesInSchema(database: string, schema: string): Promise<TableInfo[]> {
+    const query = `SHOW TABLES IN SCHEMA ${makeQualifiedName(database, schema)}`;
 
     try {
       const rows = await this.executeQuery<any>(query);
@@ -288,15 +340,15 @@ export class SnowflakeConnection {
   async fetchTables(): Promise<TableInfo[]> {
     if (this.useShowCommands) {
       try {
-        // Get current database and all schemas
-        const database = this.config.database;
+        // Get current database (as written in config, e.g. my_db or "MyDb") and all schemas
+        const database = parseQualifiedName(this.config.database)[0];
         const schemas = await this.fetchSchemas(database);
 
         // Fetch tables for all schemas
         const allTables: TableInfo[] = [];
         for (const schema of schemas) {
           if (schema.name === 'INFORMATION_SCHEMA') continue;
-          const tables = await this.fetchTablesViaShow(database, schema.name);
+          const tables = await this.fetchTablesInSchema(database, schema.name);
           allTables.push(...tables);
         }
 
@@ -374,10 +426,11 @@ export class SnowflakeConnection {
   }
 
   /**
-   * Fetch columns for a specific table using SHOW COLUMNS
+   * Fetch columns for a specific table or view using SHOW COLUMNS
    */
   async fetchColumnsForTable(database: string, schema: string, table: string): Promise<ColumnInfo[]> {
-    const query = `SHOW COLUMNS IN TABLE ${database}.${schema}.${table}`;
+    // Without TABLE, SHOW COLUMNS also accepts views
+    const query = `SHOW COLUMNS IN ${makeQualifiedName(database, schema, table)}`;
 
     try {
       const rows = await this.executeQuery<any>(query);
@@ -397,7 +450,7 @@ export class SnowflakeConnection {
         autoincrement: row.autoincrement || null,
       }));
     } catch (error) {
-      console.error(`SHOW COLUMNS IN TABLE ${database}.${schema}.${table} failed:`, error);
+      console.error(`SHOW COLUMNS IN ${database}.${schema}.${table} failed:`, error);
       throw error;
     }
   }
@@ -470,12 +523,62 @@ export class SnowflakeConnection {
   }
 
   /**
-   * Fetch DDL for a specific table using GET_DDL
-   * Returns DDL string or throws error
+   * Fetch the primary key columns of a table using SHOW PRIMARY KEYS
+   */
+  async fetchPrimaryKeys(database: string, schema: string, table: string): Promise<PrimaryKeyInfo[]> {
+    const query = `SHOW PRIMARY KEYS IN TABLE ${makeQualifiedName(database, schema, table)}`;
+
+    try {
+      const rows = await this.executeQuery<any>(query);
+      // SHOW commands return lowercase column names
+      return rows.map(row => ({
+        database_name: row.database_name,
+        schema_name: row.schema_name,
+        table_name: row.table_name,
+        column_name: row.column_name,
+        key_sequence: Number(row.key_sequence),
+        constraint_name: row.constraint_name,
+      }));
+    } catch (error) {
+      console.error(`SHOW PRIMARY KEYS IN TABLE ${database}.${schema}.${table} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the foreign keys of a table (columns referencing other tables) using SHOW IMPORTED KEYS
    */
-  async fetchDDL(database: string, schema: string, table: string): Promise<string> {
-    const qualifiedName = `${database}.${schema}.${table}`;
-    const query = `SELECT GET_DDL('TABLE', '${qualifiedName}')`;
+  async fetchImportedKeys(database: string, schema: string, table: string): Promise<ForeignKeyInfo[]> {
+    const query = `SHOW IMPORTED KEYS IN TABLE ${makeQualifiedName(database, schema, table)}`;
+
+    try {
+      const rows = await this.executeQuery<any>(query);
+      // SHOW commands return lowercase column names
+      return rows.map(row => ({
+        pk_database_name: row.pk_database_name,
+        pk_schema_name: row.pk_schema_name,
+        pk_table_name: row.pk_table_name,
+        pk_column_name: row.pk_column_name,
+        fk_database_name: row.fk_database_name,
+        fk_schema_name: row.fk_schema_name,
+        fk_table_name: row.fk_table_name,
+        fk_column_name: row.fk_column_name,
+        key_sequence: Number(row.key_sequence),
+        fk_name: row.fk_name,
+      }));
+    } catch (error) {
+      console.error(`SHOW IMPORTED KEYS IN TABLE ${database}.${schema}.${table} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the DDL of an object using GET_DDL
+   * Functions and procedures are named with their argument types, e.g. DB.S.FN(NUMBER, VARCHAR).
+   * Returns the DDL, undefined if GET_DDL returned none, or throws error
+   */
+  async fetchDDL(objectType: DdlObjectType, name: string): Promise<string | undefined> {
+    const query = `SELECT GET_DDL('${objectType}', '${name.replace(/'/g, "''")}')`;
 
     try {
       const rows = await this.executeQuery<any>(query);
@@ -483,25 +586,98 @@ export class SnowflakeConnection {
         // GET_DDL returns a single column with the DDL
         const firstRow = rows[0];
         const ddl = firstRow[Object.keys(firstRow)[0]]; // Get first column value
-        return ddl || 'DDL not available';
+        return ddl || undefined;
       }
-      return 'DDL not available';
+      return undefined;
+    } catch (error) {
+      console.error(`GET_DDL for ${objectType} ${name} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Compute statistics of a column on a block sample of its table (SAMPLE SYSTEM)
+   * Distinct counts and top values are approximate; all statistics describe the sample.
+   */
+  async fetchColumnProfile(
+    database: string,
+    schema: string,
+    table: string,
+    column: string,
+    samplePercent: number,
+    topValues: number
+  ): Promise<ColumnProfile> {
+    const name = makeQualifiedName(column);
+    const sample = samplePercent < 100 ? ` SAMPLE SYSTEM (${samplePercent.toFixed(4)})` : '';
+    const query = `
+      SELECT
+        COUNT(*) AS sampled_rows,
+        COUNT_IF(${name} IS NULL) AS null_count,
+        APPROX_COUNT_DISTINCT(${name}) AS distinct_count,
+        MIN(${name})::VARCHAR AS min_value,
+        MAX(${name})::VARCHAR AS max_value,
+        APPROX_TOP_K(${name}, ${topValues}) AS top_values
+      FROM ${makeQualifiedName(database, schema, table)}${sample}
+    `;
+
+    try {
+      const [row] = await this.executeQuery<any>(query);
+      // APPROX_TOP_K returns [[value, count], ...] as VARIANT
+      const top = typeof row.TOP_VALUES === 'string' ? JSON.parse(row.TOP_VALUES) : row.TOP_VALUES;
+      return {
+        samplePercent,
+        sampledRows: Number(row.SAMPLED_ROWS) || 0,
+        nullCount: Number(row.NULL_COUNT) || 0,
+        distinctCount: Number(row.DISTINCT_COUNT) || 0,
+        min: row.MIN_VALUE ?? null,
+        max: row.MAX_VALUE ?? null,
+        topValues: (top || []).map(([value, count]: [unknown, unknown]) => ({
+          value: value === null ? null : String(value),
+          count: Number(count) || 0,
+        })),
+      };
     } catch (error) {
-      console.error(`GET_DDL for ${qualifiedName} failed:`, error);
+      console.error(`Profiling ${database}.${schema}.${table}.${column} failed:`, error);
       throw error;
     }
   }
 
   /**
-   * Fetch all views from INFORMATION_SCHEMA
+   * Fetch all views of the current database, including secure and materialized views
+   * Uses SHOW VIEWS, falling back to INFORMATION_SCHEMA (which lists no materialized views).
    */
   async fetchViews(): Promise<ViewInfo[]> {
+    if (this.useShowCommands) {
+      try {
+        const database = parseQualifiedName(this.config.database)[0];
+        const rows = await this.executeQuery<any>(`SHOW VIEWS IN DATABASE ${makeQualifiedName(database)}`);
+        return rows
+          .filter(row => row.schema_name !== 'INFORMATION_SCHEMA')
+          .map(row => this.toViewInfo(row));
+      } catch (error) {
+        // Only this fetch falls back; tables and columns fetched alongside keep using SHOW
+        console.error('SHOW VIEWS failed, falling back to INFORMATION_SCHEMA');
+        return await this.fetchViewsViaInformationSchema();
+      }
+    } else {
+      return await this.fetchViewsViaInformationSchema();
+    }
+  }
+
+  /**
+   * Fetch all views from INFORMATION_SCHEMA (fallback method)
+   */
+  private async fetchViewsViaInformationSchema(): Promise<ViewInfo[]> {
     const query = `
       SELECT
         table_catalog,
         table_schema,
         table_name,
-        view_definition
+        table_owner,
+        view_definition,
+        is_secure,
+        comment,
+        created
       FROM information_schema.views
       WHERE table_schema NOT IN ('INFORMATION_SCHEMA')
       ORDER BY table_schema, table_name
@@ -512,10 +688,48 @@ export class SnowflakeConnection {
       catalog: row.TABLE_CATALOG,
       schema: row.TABLE_SCHEMA,
       name: row.TABLE_NAME,
-      definition: row.VIEW_DEFINITION,
+      definition: row.VIEW_DEFINITION || null,
+      is_secure: row.IS_SECURE === 'YES',
+      is_materialized: false,
+      owner: row.TABLE_OWNER,
+      comment: row.COMMENT || null,
+      created_on: row.CREATED,
     }));
   }
 
+  /**
+   * Fetch views using SHOW VIEWS IN SCHEMA
+   */
+  async fetchViewsInSchema(database: string, schema: string): Promise<ViewInfo[]> {
+    const query = `SHOW VIEWS IN SCHEMA ${makeQualifiedName(database, schema)}`;
+
+    try {
+      const rows = await this.executeQuery<any>(query);
+      return rows.map(row => this.toViewInfo(row));
+    } catch (error) {
+      console.error(`SHOW VIEWS IN SCHEMA ${database}.${schema} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map a row of SHOW VIEWS to view info
+   * SHOW commands return lowercase column names; text is empty for secure views of other owners.
+   */
+  private toViewInfo(row: any): ViewInfo {
+    return {
+      catalog: row.database_name,
+      schema: row.schema_name,
+      name: row.name,
+      definition: row.text || null,
+      is_secure: row.is_secure === 'true',
+      is_materialized: row.is_materialized === 'true',
+      owner: row.owner,
+      comment: row.comment || null,
+      created_on: row.created_on,
+    };
+  }
+
   /**
    * Disconnect from Snowflake
    */
@@ -552,40 +766,65 @@ export class SnowflakeConnection {
 
     try {
       const rows = await this.executeQuery<any>(query);
-      return rows.map(row => ({
-        name: row.name,
-        state: row.state,
-        type: row.type,
-        size: row.size,
-        running: Number(row.running) || 0,
-        queued: Number(row.queued) || 0,
-        is_default: row.is_default === 'Y',
-        is_current: row.is_current === 'Y',
-        auto_suspend: row.auto_suspend !== null ? Number(row.auto_suspend) : null,
-        auto_resume: row.auto_resume === 'true',
-        available: row.available || '',
-        provisioning: row.provisioning || '',
-        quiescing: row.quiescing || '',
-        other: row.other || '',
-        created_on: row.created_on,
-        resumed_on: row.resumed_on,
-        updated_on: row.updated_on,
-        owner: row.owner,
-        comment: row.comment || null,
-        resource_monitor: row.resource_monitor,
-        actives: Number(row.actives) || 0,
-        pendings: Number(row.pendings) || 0,
-        failed: Number(row.failed) || 0,
-        suspended: Number(row.suspended) || 0,
-        uuid: row.uuid,
-        scaling_policy: row.scaling_policy,
-      }));
+      return rows.map(row => this.toWarehouseInfo(row));
     } catch (error) {
       console.error('SHOW WAREHOUSES failed:', error);
       return [];
     }
   }
 
+  /**
+   * Fetch the current state of one warehouse using SHOW WAREHOUSES LIKE
+   * Returns null if the warehouse doesn't exist or isn't visible to the current role.
+   */
+  async fetchWarehouse(name: string): Promise<WarehouseInfo | null> {
+    const query = `SHOW WAREHOUSES LIKE '${name.replace(/'/g, "''")}'`;
+
+    try {
+      const rows = await this.executeQuery<any>(query);
+      // LIKE ignores case and treats _ as a wildcard
+      const row = rows.find(r => r.name === name);
+      return row ? this.toWarehouseInfo(row) : null;
+    } catch (error) {
+      console.error(`SHOW WAREHOUSES LIKE '${name}' failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map a row of SHOW WAREHOUSES to warehouse info
+   */
+  private toWarehouseInfo(row: any): WarehouseInfo {
+    return {
+      name: row.name,
+      state: row.state,
+      type: row.type,
+      size: row.size,
+      running: Number(row.running) || 0,
+      queued: Number(row.queued) || 0,
+      is_default: row.is_default === 'Y',
+      is_current: row.is_current === 'Y',
+      auto_suspend: row.auto_suspend !== null ? Number(row.auto_suspend) : null,
+      auto_resume: row.auto_resume === 'true',
+      available: row.available || '',
+      provisioning: row.provisioning || '',
+      quiescing: row.quiescing || '',
+      other: row.other || '',
+      created_on: row.created_on,
+      resumed_on: row.resumed_on,
+      updated_on: row.updated_on,
+      owner: row.owner,
+      comment: row.comment || null,
+      resource_monitor: row.resource_monitor,
+      actives: Number(row.actives) || 0,
+      pendings: Number(row.pendings) || 0,
+      failed: Number(row.failed) || 0,
+      suspended: Number(row.suspended) || 0,
+      uuid: row.uuid,
+      scaling_policy: row.scaling_policy,
+    };
+  }
+
   /**
    * Fetch all roles using SHOW ROLES
    */
@@ -667,6 +906,30 @@ export class SnowflakeConnection {
     }
   }
 
+  /**
+   * Fetch user-defined functions using SHOW USER FUNCTIONS
+   * Each overload is a separate row.
+   */
+  async fetchUserFunctions(): Promise<UserFunctionInfo[]> {
+    const query = 'SHOW USER FUNCTIONS IN ACCOUNT';
+
+    try {
+      const rows = await this.executeQuery<any>(query);
+      return rows.map(row => ({
+        name: row.name,
+        schema_name: row.schema_name,
+        catalog_name: row.catalog_name,
+        arguments: row.arguments,
+        description: row.description || null,
+        is_table_function: row.is_table_function === 'Y',
+        language: row.language,
+      }));
+    } catch (error) {
+      console.error('SHOW USER FUNCTIONS failed:', error);
+      return [];
+    }
+  }
+
   /**
    * Fetch recent query history using INFORMATION_SCHEMA.QUERY_HISTORY()
    * Returns last 50 successful queries
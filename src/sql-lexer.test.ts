@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { Token, TokenType, identifierValue, isSignificant, tokenIndexAt, tokenize } from './sql-lexer';
+
+// Type and text of the significant tokens
+function significant(text: string): [TokenType, string][] {
+  return tokenize(text).filter(isSignificant).map(token => [token.type, token.text]);
+}
+
+describe('tokenize', () => {
+  it('covers the text with contiguous tokens', () => {
+    const text = "SELECT a.b, 'x' -- c\nFROM t; /* d */";
+    const tokens = tokenize(text);
+
+    expect(tokens.map(token => token.text).join('')).toBe(text);
+    tokens.forEach((token: Token, i) => {
+      expect(token.start).toBe(i === 0 ? 0 : tokens[i - 1].end);
+      expect(text.substring(token.start, token.end)).toBe(token.text);
+    });
+  });
+
+  it('reads identifiers, numbers, operators and punctuation', () => {
+    expect(significant('select o.id, 1.5e3 from t where x >= $v::number;')).toEqual([
+      [TokenType.IDENTIFIER, 'select'],
+      [TokenType.IDENTIFIER, 'o'],
+      [TokenType.DOT, '.'],
+      [TokenType.IDENTIFIER, 'id'],
+      [TokenType.COMMA, ','],
+      [TokenType.NUMBER, '1.5e3'],
+      [TokenType.IDENTIFIER, 'from'],
+      [TokenType.IDENTIFIER, 't'],
+      [TokenType.IDENTIFIER, 'where'],
+      [TokenType.IDENTIFIER, 'x'],
+      [TokenType.OPERATOR, '>='],
+      [TokenType.VARIABLE, '$v'],
+      [TokenType.OPERATOR, '::'],
+      [TokenType.IDENTIFIER, 'number'],
+      [TokenType.SEMICOLON, ';'],
+    ]);
+  });
+
+  it('reads strings with escaped quotes as one token', () => {
+    expect(significant("SELECT 'it''s', 'a\\'b', 'x;y'")).toEqual([
+      [TokenType.IDENTIFIER, 'SELECT'],
+      [TokenType.STRING, "'it''s'"],
+      [TokenType.COMMA, ','],
+      [TokenType.STRING, "'a\\'b'"],
+      [TokenType.COMMA, ','],
+      [TokenType.STRING, "'x;y'"],
+    ]);
+  });
+
+  it('reads an unterminated string to the end of the text', () => {
+    const tokens = tokenize("SELECT 'abc");
+    expect(tokens[tokens.length - 1]).toMatchObject({ type: TokenType.STRING, text: "'abc" });
+  });
+
+  it('reads line and block comments', () => {
+    const tokens = tokenize('a -- one; two\nb // three\nc /* four; */ d /* open');
+    expect(tokens.filter(token => !isSignificant(token) && token.type !== TokenType.WHITESPACE).map(token => [token.type, token.text])).toEqual([
+      [TokenType.LINE_COMMENT, '-- one; two'],
+      [TokenType.LINE_COMMENT, '// three'],
+      [TokenType.BLOCK_COMMENT, '/* four; */'],
+      [TokenType.BLOCK_COMMENT, '/* open'],
+    ]);
+    expect(tokens.filter(isSignificant).map(token => token.text)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('reads $$ bodies as one token', () => {
+    expect(significant("CREATE PROCEDURE p() AS $$ SELECT ';'; $$;")).toEqual([
+      [TokenType.IDENTIFIER, 'CREATE'],
+      [TokenType.IDENTIFIER, 'PROCEDURE'],
+      [TokenType.IDENTIFIER, 'p'],
+      [TokenType.LEFT_PAREN, '('],
+      [TokenType.RIGHT_PAREN, ')'],
+      [TokenType.IDENTIFIER, 'AS'],
+      [TokenType.DOLLAR_STRING, "$$ SELECT ';'; $$"],
+      [TokenType.SEMICOLON, ';'],
+    ]);
+  });
+
+  it('reads quoted identifiers with escaped quotes', () => {
+    const tokens = tokenize('SELECT "My ""Col""" FROM "Sales"."Order Lines"').filter(isSignificant);
+
+    expect(tokens.map(token => [token.type, token.text])).toEqual([
+      [TokenType.IDENTIFIER, 'SELECT'],
+      [TokenType.QUOTED_IDENTIFIER, '"My ""Col"""'],
+      [TokenType.IDENTIFIER, 'FROM'],
+      [TokenType.QUOTED_IDENTIFIER, '"Sales"'],
+      [TokenType.DOT, '.'],
+      [TokenType.QUOTED_IDENTIFIER, '"Order Lines"'],
+    ]);
+    expect(identifierValue(tokens[1])).toBe('My "Col"');
+    expect(identifierValue(tokens[0])).toBe('SELECT');
+  });
+});
+
+describe('tokenIndexAt', () => {
+  // SELECT␣a,␣b: SELECT 0-6, space 6-7, a 7-8, comma 8-9, space 9-10, b 10-11
+  const tokens = tokenize('SELECT a, b');
+
+  it('finds the token containing an offset', () => {
+    expect(tokenIndexAt(tokens, 3)).toBe(0);
+    expect(tokens[tokenIndexAt(tokens, 7)].type).toBe(TokenType.WHITESPACE);
+  });
+
+  it('gives a boundary to the token that ends there', () => {
+    expect(tokens[tokenIndexAt(tokens, 6)].text).toBe('SELECT');
+    expect(tokens[tokenIndexAt(tokens, 8)].text).toBe('a');
+    expect(tokens[tokenIndexAt(tokens, 9)].text).toBe(',');
+    expect(tokens[tokenIndexAt(tokens, 11)].text).toBe('b');
+  });
+
+  it('gives the start of the text to the first token', () => {
+    expect(tokenIndexAt(tokens, 0)).toBe(0);
+  });
+
+  it('gives offsets past the end to the last token, and -1 without tokens', () => {
+    expect(tokenIndexAt(tokens, 50)).toBe(tokens.length - 1);
+    expect(tokenIndexAt([], 0)).toBe(-1);
+  });
+});
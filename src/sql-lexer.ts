@@ -0,0 +1,247 @@
+export enum TokenType {
+  IDENTIFIER,         // Unquoted word (keywords are identifiers too)
+  QUOTED_IDENTIFIER,  // "Double quoted" identifier
+  STRING,             // 'single quoted' literal
+  DOLLAR_STRING,      // $$ dollar quoted $$ body
+  NUMBER,             // 42, 3.14, 1e10
+  VARIABLE,           // $name or $1
+  OPERATOR,           // =, <>, ::, :=, =>, ||, ...
+  DOT,
+  COMMA,
+  LEFT_PAREN,
+  RIGHT_PAREN,
+  SEMICOLON,
+  LINE_COMMENT,       // -- comment or // comment
+  BLOCK_COMMENT,      // /* comment */
+  WHITESPACE,
+  UNKNOWN,
+}
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;  // Offset of first character
+  end: number;    // Offset after last character
+}
+
+// Multi-character operators, longest first so that greedy matching works
+const OPERATORS = ['->>', '::', ':=', '=>', '<=', '>=', '<>', '!=', '||', '->'];
+
+/**
+ * Split SQL text into tokens
+ * Every character of the input belongs to exactly one token, so offsets can be
+ * mapped back to the document. Unterminated strings and comments run to the end of the text.
+ */
+export function tokenize(text: string): Token[] {
+  return tokenizeFrom(text, 0);
+}
+
+/**
+ * Split SQL text into tokens, starting at an offset where a token starts
+ * Stops before the first token for which `stop` returns true, so that re-tokenizing
+ * after an edit can end where the new tokens line up with the previous ones again.
+ */
+export function tokenizeFrom(text: string, start: number, stop?: (token: Token) => boolean): Token[] {
+  const tokens: Token[] = [];
+  let pos = start;
+  let stopped = false;
+
+  const push = (type: TokenType, end: number) => {
+    const token = { type, text: text.substring(pos, end), start: pos, end };
+    if (stop && stop(token)) {
+      stopped = true;
+      return;
+    }
+    tokens.push(token);
+    pos = end;
+  };
+
+  while (pos < text.length && !stopped) {
+    const ch = text[pos];
+    const next = text[pos + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      let end = pos + 1;
+      while (end < text.length && /\s/.test(text[end])) end++;
+      push(TokenType.WHITESPACE, end);
+      continue;
+    }
+
+    // Line comments: -- and //
+    if ((ch === '-' && next === '-') || (ch === '/' && next === '/')) {
+      const newline = text.indexOf('\n', pos);
+      push(TokenType.LINE_COMMENT, newline === -1 ? text.length : newline);
+      continue;
+    }
+
+    // Block comments
+    if (ch === '/' && next === '*') {
+      const close = text.indexOf('*/', pos + 2);
+      push(TokenType.BLOCK_COMMENT, close === -1 ? text.length : close + 2);
+      continue;
+    }
+
+    // String literals ('' and backslash escapes)
+    if (ch === '\'') {
+      push(TokenType.STRING, scanQuoted(text, pos, '\'', true));
+      continue;
+    }
+
+    // Quoted identifiers ("" escape)
+    if (ch === '"') {
+      push(TokenType.QUOTED_IDENTIFIER, scanQuoted(text, pos, '"', false));
+      continue;
+    }
+
+    // Dollar quoted strings and session variables
+    if (ch === '$') {
+      if (next === '$') {
+        const close = text.indexOf('$$', pos + 2);
+        push(TokenType.DOLLAR_STRING, close === -1 ? text.length : close + 2);
+        continue;
+      }
+      if (next !== undefined && /[\w]/.test(next)) {
+        let end = pos + 1;
+        while (end < text.length && /[\w$]/.test(text[end])) end++;
+        push(TokenType.VARIABLE, end);
+        continue;
+      }
+    }
+
+    // Numbers
+    if (/\d/.test(ch) || (ch === '.' && next !== undefined && /\d/.test(next))) {
+      const match = text.substring(pos).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      push(TokenType.NUMBER, pos + match![0].length);
+      continue;
+    }
+
+    // Unquoted identifiers and keywords
+    if (/[A-Za-z_]/.test(ch)) {
+      let end = pos + 1;
+      while (end < text.length && /[\w$]/.test(text[end])) end++;
+      push(TokenType.IDENTIFIER, end);
+      continue;
+    }
+
+    // Punctuation
+    switch (ch) {
+      case '.': push(TokenType.DOT, pos + 1); continue;
+      case ',': push(TokenType.COMMA, pos + 1); continue;
+      case '(': push(TokenType.LEFT_PAREN, pos + 1); continue;
+      case ')': push(TokenType.RIGHT_PAREN, pos + 1); continue;
+      case ';': push(TokenType.SEMICOLON, pos + 1); continue;
+    }
+
+    // Operators
+    const op = OPERATORS.find(o => text.startsWith(o, pos));
+    if (op) {
+      push(TokenType.OPERATOR, pos + op.length);
+      continue;
+    }
+    if ('=<>+-*/%!|&^~:@[]{}?'.includes(ch)) {
+      push(TokenType.OPERATOR, pos + 1);
+      continue;
+    }
+
+    push(TokenType.UNKNOWN, pos + 1);
+  }
+
+  return tokens;
+}
+
+/**
+ * Find the end offset of a quoted token starting at `start`
+ */
+function scanQuoted(text: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let pos = start + 1;
+
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (backslashEscapes && ch === '\\') {
+      pos += 2;
+      continue;
+    }
+    if (ch === quote) {
+      // Doubled quote is an escaped quote
+      if (text[pos + 1] === quote) {
+        pos += 2;
+        continue;
+      }
+      return pos + 1;
+    }
+    pos++;
+  }
+
+  return text.length;
+}
+
+/**
+ * Check if a token carries meaning (not whitespace or a comment)
+ */
+export function isSignificant(token: Token): boolean {
+  return token.type !== TokenType.WHITESPACE &&
+         token.type !== TokenType.LINE_COMMENT &&
+         token.type !== TokenType.BLOCK_COMMENT;
+}
+
+/**
+ * Check if a token is a comment or literal, whose content must never be treated as SQL
+ */
+export function isLiteralOrComment(token: Token): boolean {
+  return token.type === TokenType.STRING ||
+         token.type === TokenType.DOLLAR_STRING ||
+         token.type === TokenType.LINE_COMMENT ||
+         token.type === TokenType.BLOCK_COMMENT;
+}
+
+/**
+ * Check if a token is an unquoted identifier matching one of the given keywords
+ */
+export function isKeyword(token: Token | undefined, ...keywords: string[]): boolean {
+  if (!token || token.type !== TokenType.IDENTIFIER) return false;
+  const upper = token.text.toUpperCase();
+  return keywords.some(kw => kw === upper);
+}
+
+/**
+ * Check if a token can be part of an object name
+ */
+export function isIdentifier(token: Token | undefined): boolean {
+  return !!token && (token.type === TokenType.IDENTIFIER || token.type === TokenType.QUOTED_IDENTIFIER);
+}
+
+/**
+ * Get the name an identifier token refers to (quotes removed for quoted identifiers)
+ */
+export function identifierValue(token: Token): string {
+  if (token.type === TokenType.QUOTED_IDENTIFIER) {
+    const closed = token.text.length > 1 && token.text.endsWith('"');
+    return token.text.substring(1, closed ? token.text.length - 1 : token.text.length).replace(/""/g, '"');
+  }
+  return token.text;
+}
+
+/**
+ * Find the index of the token containing the offset
+ * An offset on a boundary belongs to the token that ends there, so the
+ * token just typed before the cursor is found. Returns -1 for empty input.
+ */
+export function tokenIndexAt(tokens: Token[], offset: number): number {
+  let low = 0;
+  let high = tokens.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const token = tokens[mid];
+    if (offset <= token.start && mid > 0) {
+      high = mid - 1;
+    } else if (offset > token.end) {
+      low = mid + 1;
+    } else {
+      return mid;
+    }
+  }
+
+  return tokens.length > 0 ? tokens.length - 1 : -1;
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import { AccountObjectKind, SQLContext, findAccountObjectAt, parseContext, parseUseCommands } from './sql-parser';
+import { DEFAULT_SEARCH_PATH, UseCommandType } from './session-context';
+
+// Type and value of each command, in order
+function commands(text: string): [UseCommandType, string][] {
+  return parseUseCommands(text).map(command => [command.type, command.value]);
+}
+
+describe('parseUseCommands', () => {
+  it('reads each USE form', () => {
+    expect(commands('USE DATABASE prod')).toEqual([[UseCommandType.DATABASE, 'PROD']]);
+    expect(commands('USE SCHEMA analytics')).toEqual([[UseCommandType.SCHEMA, 'ANALYTICS']]);
+    expect(commands('USE WAREHOUSE compute_wh')).toEqual([[UseCommandType.WAREHOUSE, 'COMPUTE_WH']]);
+    expect(commands('USE ROLE analyst')).toEqual([[UseCommandType.ROLE, 'ANALYST']]);
+    expect(commands('use prod')).toEqual([[UseCommandType.DATABASE, 'PROD']]);
+  });
+
+  it('keeps quoted names as written', () => {
+    expect(commands('use role "My Role"')).toEqual([[UseCommandType.ROLE, 'My Role']]);
+    expect(commands('USE DATABASE "prod"')).toEqual([[UseCommandType.DATABASE, 'prod']]);
+    expect(commands("USE WAREHOUSE IDENTIFIER('my_wh')")).toEqual([[UseCommandType.WAREHOUSE, 'MY_WH']]);
+  });
+
+  it('splits a qualified schema into its database and schema', () => {
+    expect(commands('USE SCHEMA db.schema')).toEqual([
+      [UseCommandType.DATABASE, 'DB'],
+      [UseCommandType.SCHEMA, 'SCHEMA'],
+    ]);
+    expect(commands('USE prod.analytics')).toEqual([
+      [UseCommandType.DATABASE, 'PROD'],
+      [UseCommandType.SCHEMA, 'ANALYTICS'],
+    ]);
+    expect(commands("USE SCHEMA IDENTIFIER('prod.\"Raw\"')")).toEqual([
+      [UseCommandType.DATABASE, 'PROD'],
+      [UseCommandType.SCHEMA, 'Raw'],
+    ]);
+  });
+
+  it('reads USE SECONDARY ROLES', () => {
+    expect(commands('USE SECONDARY ROLES ALL')).toEqual([[UseCommandType.SECONDARY_ROLES, 'ALL']]);
+    expect(commands('use secondary roles none')).toEqual([[UseCommandType.SECONDARY_ROLES, 'NONE']]);
+    expect(commands('USE SECONDARY ROLES reader, "Writer"')).toEqual([[UseCommandType.SECONDARY_ROLES, 'READER, "Writer"']]);
+  });
+
+  it('reads ALTER SESSION SET and UNSET SEARCH_PATH', () => {
+    expect(commands("ALTER SESSION SET SEARCH_PATH = '$current, util.public'")).toEqual([
+      [UseCommandType.SEARCH_PATH, '$current, util.public'],
+    ]);
+    expect(commands("ALTER SESSION SET TIMEZONE = 'UTC', SEARCH_PATH = '$public'")).toEqual([
+      [UseCommandType.SEARCH_PATH, '$public'],
+    ]);
+    expect(commands('ALTER SESSION UNSET SEARCH_PATH')).toEqual([[UseCommandType.SEARCH_PATH, DEFAULT_SEARCH_PATH]]);
+    expect(commands("ALTER SESSION SET TIMEZONE = 'UTC'")).toEqual([]);
+  });
+
+  it('ignores incomplete commands and USE inside other statements', () => {
+    expect(commands('USE ROLE;')).toEqual([]);
+    expect(commands('USE WAREHOUSE IDENTIFIER($wh)')).toEqual([]);
+    expect(commands("SELECT 'USE ROLE admin' FROM t -- USE ROLE x")).toEqual([]);
+  });
+
+  it('reads several statements on one line with the offset each applies from', () => {
+    const text = 'USE ROLE r; USE DATABASE d; SELECT 1; USE SCHEMA s';
+    const parsed = parseUseCommands(text);
+
+    expect(parsed.map(command => [command.type, command.value])).toEqual([
+      [UseCommandType.ROLE, 'R'],
+      [UseCommandType.DATABASE, 'D'],
+      [UseCommandType.SCHEMA, 'S'],
+    ]);
+    expect(parsed.map(command => command.line)).toEqual([0, 0, 0]);
+    expect(parsed.map(command => command.offset)).toEqual([
+      text.indexOf(';'),
+      text.indexOf('; SELECT'),
+      text.length,
+    ]);
+  });
+
+  it('numbers lines from the start of each statement', () => {
+    const parsed = parseUseCommands('SELECT 1;\n\nUSE WAREHOUSE wh;\nUSE\n  ROLE r;');
+    expect(parsed.map(command => command.line)).toEqual([2, 3]);
+  });
+});
+
+// Query with | at the cursor; tables in scope include aliases, aliases map to table names
+interface ContextCase {
+  sql: string;
+  context: SQLContext;
+  tables: string[];
+  aliases: [string, string][];
+}
+
+const CONTEXT_CASES: ContextCase[] = [
+  {
+    sql: 'SELECT | FROM orders o JOIN customers c ON o.cid = c.id',
+    context: SQLContext.SELECT_LIST,
+    tables: ['ORDERS', 'O', 'CUSTOMERS', 'C'],
+    aliases: [['O', 'ORDERS'], ['C', 'CUSTOMERS']],
+  },
+  { sql: 'SELECT o.| FROM orders o', context: SQLContext.TABLE_DOT, tables: ['ORDERS', 'O'], aliases: [['O', 'ORDERS']] },
+  { sql: 'SELECT * FROM |', context: SQLContext.FROM_CLAUSE, tables: [], aliases: [] },
+  {
+    sql: 'SELECT * FROM orders o JOIN customers c ON |',
+    context: SQLContext.JOIN_ON,
+    tables: ['ORDERS', 'O', 'CUSTOMERS', 'C'],
+    aliases: [['O', 'ORDERS'], ['C', 'CUSTOMERS']],
+  },
+  { sql: 'SELECT * FROM orders o WHERE o.x = 1 AND |', context: SQLContext.WHERE_CLAUSE, tables: ['ORDERS', 'O'], aliases: [['O', 'ORDERS']] },
+  { sql: 'SELECT a FROM orders GROUP BY |', context: SQLContext.GROUP_BY, tables: ['ORDERS'], aliases: [] },
+  { sql: 'SELECT a FROM orders GROUP BY a HAVING |', context: SQLContext.HAVING_CLAUSE, tables: ['ORDERS'], aliases: [] },
+  { sql: 'SELECT a FROM orders QUALIFY |', context: SQLContext.QUALIFY_CLAUSE, tables: ['ORDERS'], aliases: [] },
+  { sql: 'SELECT a FROM orders ORDER BY |', context: SQLContext.ORDER_BY, tables: ['ORDERS'], aliases: [] },
+  {
+    sql: 'WITH recent AS (SELECT id, amount FROM orders) SELECT | FROM recent r',
+    context: SQLContext.SELECT_LIST,
+    tables: ['RECENT', 'R'],
+    aliases: [['R', 'RECENT']],
+  },
+  { sql: 'SELECT | FROM (SELECT id FROM orders) sub', context: SQLContext.SELECT_LIST, tables: ['SUB'], aliases: [['SUB', 'SUB']] },
+  { sql: 'SELECT * FROM (SELECT | FROM orders o) sub', context: SQLContext.SELECT_LIST, tables: ['ORDERS', 'O'], aliases: [['O', 'ORDERS']] },
+  {
+    sql: 'SELECT f.| FROM events e, LATERAL FLATTEN(input => e.payload) f',
+    context: SQLContext.TABLE_DOT,
+    tables: ['EVENTS', 'E', 'F'],
+    aliases: [['E', 'EVENTS'], ['F', 'F']],
+  },
+  {
+    sql: 'SELECT * FROM orders o WHERE EXISTS (SELECT 1 FROM items i WHERE i.oid = |)',
+    context: SQLContext.WHERE_CLAUSE,
+    tables: ['ITEMS', 'I', 'ORDERS', 'O'],
+    aliases: [['I', 'ITEMS'], ['O', 'ORDERS']],
+  },
+  {
+    sql: 'MERGE INTO target t USING source s ON |',
+    context: SQLContext.JOIN_ON,
+    tables: ['TARGET', 'SOURCE'],
+    aliases: [['T', 'TARGET'], ['S', 'SOURCE']],
+  },
+  {
+    sql: 'MERGE INTO target t USING source s ON t.id = s.id WHEN MATCHED THEN UPDATE SET |',
+    context: SQLContext.UPDATE_SET,
+    tables: ['TARGET', 'SOURCE'],
+    aliases: [['T', 'TARGET'], ['S', 'SOURCE']],
+  },
+  { sql: 'SELECT CAST(x AS |) FROM t', context: SQLContext.DATA_TYPE, tables: ['T'], aliases: [] },
+  { sql: 'SELECT x::| FROM t', context: SQLContext.DATA_TYPE, tables: ['T'], aliases: [] },
+  { sql: "SELECT 'abc|' FROM t", context: SQLContext.LITERAL, tables: ['T'], aliases: [] },
+  { sql: 'USE WAREHOUSE |', context: SQLContext.USE_WAREHOUSE, tables: [], aliases: [] },
+  { sql: 'SELECT $|', context: SQLContext.VARIABLE, tables: [], aliases: [] },
+  { sql: 'USE ROLE |', context: SQLContext.USE_ROLE, tables: [], aliases: [] },
+  { sql: 'USE DATABASE |', context: SQLContext.USE_DATABASE, tables: [], aliases: [] },
+  { sql: 'GRANT SELECT ON TABLE t TO ROLE |', context: SQLContext.GRANT_TO_ROLE, tables: [], aliases: [] },
+  { sql: 'GRANT ROLE r TO USER |', context: SQLContext.GRANT_TO_USER, tables: [], aliases: [] },
+  { sql: 'INSERT INTO orders (id, |) VALUES (1, 2)', context: SQLContext.INSERT_COLUMNS, tables: [], aliases: [] },
+  { sql: 'INSERT INTO orders (id, amount) VALUES (1, |)', context: SQLContext.INSERT_VALUES, tables: [], aliases: [] },
+  { sql: 'UPDATE orders o SET | = 1', context: SQLContext.UPDATE_SET, tables: ['ORDERS'], aliases: [['O', 'ORDERS']] },
+  { sql: 'CREATE TABLE t (id NUMBER, name |)', context: SQLContext.DATA_TYPE, tables: [], aliases: [] },
+  { sql: 'CREATE TABLE t (id NUMBER |)', context: SQLContext.COLUMN_OPTION, tables: [], aliases: [] },
+  { sql: 'CREATE WAREHOUSE wh WITH |', context: SQLContext.OBJECT_PROPERTY, tables: [], aliases: [] },
+  { sql: 'ALTER TABLE t SET |', context: SQLContext.OBJECT_PROPERTY, tables: [], aliases: [] },
+  { sql: 'CREATE WAREHOUSE wh WAREHOUSE_SIZE = |', context: SQLContext.PROPERTY_VALUE, tables: [], aliases: [] },
+  { sql: 'BEGIN LET x NUMBER := 1; SELECT :| FROM t; END', context: SQLContext.BIND_VARIABLE, tables: ['T'], aliases: [] },
+  { sql: 'EXECUTE IMMEDIATE $$ SELECT | FROM orders o $$', context: SQLContext.SELECT_LIST, tables: ['ORDERS', 'O'], aliases: [['O', 'ORDERS']] },
+];
+
+describe('parseContext', () => {
+  it.each(CONTEXT_CASES)('$sql', ({ sql, context, tables, aliases }) => {
+    const parsed = parseContext(sql.replace('|', ''), sql.indexOf('|'));
+
+    expect(SQLContext[parsed.context]).toBe(SQLContext[context]);
+    expect(parsed.tablesInScope).toEqual(tables);
+    expect(Array.from(parsed.aliases)).toEqual(aliases);
+  });
+
+  it('defines CTEs, derived tables and table functions as virtual tables', () => {
+    expect(Array.from(parseContext('WITH recent AS (SELECT id FROM orders) SELECT  FROM recent', 46).virtualTables.keys())).toEqual(['RECENT']);
+    expect(Array.from(parseContext('SELECT  FROM (SELECT id FROM orders) sub', 7).virtualTables.keys())).toEqual(['SUB']);
+    expect(Array.from(parseContext('SELECT  FROM events e, LATERAL FLATTEN(input => e.payload) f', 7).virtualTables.keys())).toEqual(['F']);
+  });
+
+  it('marks subqueries that can reference the enclosing query as correlated', () => {
+    const sql = 'SELECT * FROM orders o WHERE EXISTS (SELECT 1 FROM items i WHERE i.oid = )';
+    expect(parseContext(sql, sql.length - 1).scope.correlated).toBe(true);
+    expect(parseContext(sql, 8).scope.correlated).toBe(false);
+  });
+
+  it('reads the INSERT target, its column list and the value at the cursor', () => {
+    const sql = 'INSERT INTO orders (id, amount) VALUES (1, )';
+    const target = parseContext(sql, sql.length - 1).dmlTarget;
+
+    expect(target).toMatchObject({ table: 'ORDERS', insertColumns: ['ID', 'AMOUNT'], valueIndex: 1 });
+  });
+
+  it('reads the object kind and property of DDL clauses', () => {
+    const sql = 'CREATE WAREHOUSE wh WAREHOUSE_SIZE = ';
+    expect(parseContext(sql, sql.length).ddl).toEqual({ objectKind: 'WAREHOUSE', property: 'WAREHOUSE_SIZE' });
+  });
+
+  it('collects scripting variables declared before the cursor', () => {
+    const sql = 'BEGIN LET x NUMBER := 1; SELECT : FROM t; LET y NUMBER := 2; END';
+    expect(Array.from(parseContext(sql, sql.indexOf(': FROM') + 1).scriptVariables.keys())).toEqual(['X']);
+  });
+
+  it('reads the qualifier of the word at the cursor', () => {
+    expect(parseContext('SELECT o. FROM orders o', 9).qualifier).toBe('O');
+    expect(parseContext('SELECT * FROM db.', 17).qualifier).toBe('DB');
+  });
+});
+
+describe('findAccountObjectAt', () => {
+  // Kind and name of the account object at the offset after the text before |
+  function objectAt(sql: string): [AccountObjectKind, string] | null {
+    const object = findAccountObjectAt(sql.replace('|', ''), sql.indexOf('|'));
+    return object && [object.kind, object.name];
+  }
+
+  it('reads the first part of three-part object names as a database', () => {
+    expect(objectAt('SELECT * FROM p|rod.sales.orders')).toEqual([AccountObjectKind.DATABASE, 'PROD']);
+    expect(objectAt('SELECT * FROM t JOIN p|rod.sales.orders o ON o.id = t.id')).toEqual([AccountObjectKind.DATABASE, 'PROD']);
+    expect(objectAt('SELECT * FROM (SELECT 1 FROM t) x, p|rod.sales.orders')).toEqual([AccountObjectKind.DATABASE, 'PROD']);
+    expect(objectAt('INSERT INTO p|rod.sales.orders VALUES (1)')).toEqual([AccountObjectKind.DATABASE, 'PROD']);
+    expect(objectAt('ALTER TABLE p|rod.sales.orders ADD COLUMN x NUMBER')).toEqual([AccountObjectKind.DATABASE, 'PROD']);
+  });
+
+  it('reads no database in three-part column references', () => {
+    expect(objectAt('SELECT s|ales.orders.amount FROM sales.orders')).toBeNull();
+    expect(objectAt('SELECT a, s|ales.orders.amount FROM sales.orders')).toBeNull();
+    expect(objectAt('SELECT * FROM sales.orders WHERE s|ales.orders.amount > 0')).toBeNull();
+    expect(objectAt('SELECT * FROM sales.orders ORDER BY a, s|ales.orders.amount')).toBeNull();
+  });
+
+  it('reads databases of schema names and USE', () => {
+    expect(objectAt('USE SCHEMA p|rod.sales')).toEqual([AccountObjectKind.DATABASE, 'PROD']);
+    expect(objectAt('USE p|rod')).toEqual([AccountObjectKind.DATABASE, 'PROD']);
+    expect(objectAt('USE WAREHOUSE c|ompute_wh')).toEqual([AccountObjectKind.WAREHOUSE, 'COMPUTE_WH']);
+  });
+});
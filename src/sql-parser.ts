@@ -1,187 +1,1619 @@
-import { UseCommand, UseCommandType } from './session-context';
+import { UseCommand, UseCommandType, SessionVariable, DEFAULT_SEARCH_PATH } from './session-context';
+import {
+  Token,
+  TokenType,
+  tokenize,
+  tokenIndexAt,
+  isSignificant,
+  isLiteralOrComment,
+  isKeyword,
+  isIdentifier,
+} from './sql-lexer';
+import { makeQualifiedName, parseQualifiedName, resolveIdentifier } from './identifiers';
+import { DdlObjectType, getObjectProperty } from './ddl';
+import {
+  ScriptVariable,
+  findScriptBody,
+  findScriptVariables,
+  findBindAt,
+  isScriptingBlock,
+  splitBlockStatements,
+} from './scripting';
 
 export enum SQLContext {
   SELECT_LIST,    // After SELECT, before FROM
   FROM_CLAUSE,    // After FROM or JOIN
   WHERE_CLAUSE,   // After WHERE
+  GROUP_BY,       // After GROUP BY
+  HAVING_CLAUSE,  // After HAVING
+  QUALIFY_CLAUSE, // After QUALIFY
+  ORDER_BY,       // After ORDER BY
+  JOIN_ON,        // After JOIN ... ON
   TABLE_DOT,      // After table_name.
-  SCHEMA_DOT,     // After schema_name.
+  SCHEMA_DOT,     // After schema_name. or database_name.schema_name.
+  DATABASE_DOT,   // After database_name.
   USE_WAREHOUSE,  // After USE WAREHOUSE
   USE_ROLE,       // After USE ROLE
   USE_DATABASE,   // After USE DATABASE
   GRANT_TO_ROLE,  // After GRANT ... TO ROLE
   GRANT_TO_USER,  // After GRANT ... TO USER
+  INSERT_COLUMNS, // Inside the column list of INSERT INTO table (...)
+  INSERT_VALUES,  // Inside a VALUES tuple of an INSERT
+  UPDATE_SET,     // Column assigned in UPDATE ... SET or MERGE ... UPDATE SET
+  DATA_TYPE,      // After a column name in CREATE TABLE or ALTER TABLE, after :: or CAST(... AS
+  COLUMN_OPTION,  // After the data type of a column definition
+  OBJECT_PROPERTY, // Property name in CREATE or ALTER ... SET of tables, warehouses, stages, tasks, file formats
+  PROPERTY_VALUE, // After PROPERTY =
+  LITERAL,        // Inside a string literal or comment
+  VARIABLE,       // Session variable reference ($name)
+  BIND_VARIABLE,  // Snowflake Scripting variable reference (:name)
   GENERAL,        // Default context
 }
 
 export interface ParsedContext {
   context: SQLContext;
   currentWord: string;
-  tablesInScope: string[];  // Tables mentioned in FROM/JOIN
+  tablesInScope: string[];  // Tables mentioned in FROM/JOIN (qualified name form, e.g. SALES."Orders")
   aliases: Map<string, string>;  // alias -> table name mapping
+  qualifier: string | null;  // Name before the last dot of the current word (e.g. O in o.amount)
   previousKeyword: string | null;
+  cursorToken: Token | null;  // Token containing the cursor
+  virtualTables: Map<string, VirtualTable>;  // CTE name or derived table alias -> definition
+  scope: QueryScope;  // Innermost query containing the cursor
+  scriptVariables: Map<string, ScriptVariable>;  // Scripting variables, arguments and cursors declared before the cursor
+  dmlTarget: DmlTarget | null;  // Target of the INSERT, UPDATE or MERGE statement under the cursor
+  ddl: DdlClause | null;  // Object and property at the cursor in OBJECT_PROPERTY and PROPERTY_VALUE contexts
 }
 
+/**
+ * Place of the cursor in the properties of a CREATE or ALTER statement
+ */
+export interface DdlClause {
+  objectKind: string;        // TABLE, WAREHOUSE, STAGE, TASK, FILE FORMAT, or COPY OPTIONS inside (...)
+  property: string | null;   // Property whose value is being written
+}
+
+/**
+ * Table written by an INSERT, UPDATE or MERGE statement, and the cursor's place in it
+ */
+export interface DmlTarget {
+  table: string;                  // Qualified name form, e.g. SALES.ORDERS
+  alias: string | null;           // Alias of UPDATE and MERGE targets
+  source: TableReference | null;  // MERGE ... USING table
+  insertColumns: string[] | null; // Column list of the INSERT at the cursor, null if it has none
+  listedColumns: string[];        // Columns listed or assigned in the clause at the cursor, except the one being typed
+  valueIndex: number | null;      // Index of the value at the cursor in a VALUES tuple or the INSERT's SELECT list
+}
+
+export interface TableReference {
+  name: string;          // Qualified name form of the dotted name, e.g. DB.SALES."Orders"
+  alias: string | null;  // Alias in qualified name form
+  start: number;         // Offset of the name's first token
+  end: number;           // Offset after the name's last token
+}
+
+export interface Statement {
+  start: number;    // Offset of the statement's first token
+  end: number;      // Offset of the terminating semicolon, or end of text
+  tokens: Token[];  // All tokens of the statement, excluding the semicolon
+}
+
+export interface ProjectedColumn {
+  name: string;                  // Resolved output column name, or '*' for star expansion
+  qualifier: string | null;      // Table or alias in t.col or t.* (qualified name form)
+  sourceColumn: string | null;   // Referenced column when the expression is a plain column
+  dataType?: string;             // Known output type, e.g. of table function columns
+}
+
+export enum VirtualTableKind {
+  CTE = 'CTE',                      // WITH name AS (SELECT ...)
+  DERIVED_TABLE = 'DERIVED_TABLE',  // FROM (SELECT ...) alias
+  TABLE_FUNCTION = 'TABLE_FUNCTION',  // FROM TABLE(fn(...)) alias, LATERAL FLATTEN(...) alias
+}
+
+export interface VirtualTable {
+  name: string;                    // Qualified name form, e.g. ORDERS_CTE or "my cte"
+  kind: VirtualTableKind;
+  columns: ProjectedColumn[];      // Inferred from the defining SELECT list
+  columnAliases: string[] | null;  // Explicit resolved names: WITH cte (a, b) AS (...)
+  scope: QueryScope;               // Scope of the defining query (enclosing query for table functions)
+  start: number;                   // Offset of the name
+  end: number;                     // Offset after the name
+  functionName?: string;           // Called function, for table functions
+}
+
+export interface QueryScope {
+  start: number;                   // Offset where the query starts
+  end: number;                     // Offset where the query ends
+  parent: QueryScope | null;
+  children: QueryScope[];
+  correlated: boolean;             // Subquery that can reference tables of the enclosing query
+  tables: TableReference[];        // FROM/JOIN references of this query level
+  derivedTables: VirtualTable[];   // Subqueries in the FROM clause
+  ctes: VirtualTable[];            // WITH clause of this query level
+}
+
+export enum AccountObjectKind {
+  WAREHOUSE = 'WAREHOUSE',
+  ROLE = 'ROLE',
+  USER = 'USER',
+  DATABASE = 'DATABASE',
+}
+
+/**
+ * Warehouse, role, user or database named at a position
+ */
+export interface AccountObjectReference {
+  kind: AccountObjectKind;
+  name: string;   // Resolved name, e.g. COMPUTE_WH or "my role" without quotes
+  start: number;  // Offset of the name part
+  end: number;    // Offset after the name part
+}
+
+/**
+ * Object named after its kind keyword at a position, in the form GET_DDL takes
+ */
+export interface ObjectReference {
+  objectType: DdlObjectType;
+  name: string;   // Qualified name form as written; functions and procedures end with argument types: FN(NUMBER, VARCHAR)
+  start: number;  // Offset of the name
+  end: number;    // Offset after the name
+}
+
+interface ParenGroup {
+  tokens: Token[];                 // Significant tokens between the parentheses
+  scope: QueryScope | null;        // Set if the group is a query
+}
+
+// Words that can follow a table name without being its alias
+const NON_ALIAS_KEYWORDS = new Set([
+  'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'NATURAL', 'ASOF',
+  'ON', 'USING', 'GROUP', 'ORDER', 'HAVING', 'QUALIFY', 'LIMIT', 'OFFSET', 'FETCH',
+  'UNION', 'MINUS', 'EXCEPT', 'INTERSECT', 'WINDOW', 'LATERAL', 'SAMPLE', 'TABLESAMPLE',
+  'PIVOT', 'UNPIVOT', 'MATCH_RECOGNIZE', 'AT', 'BEFORE', 'CHANGES', 'CONNECT', 'START',
+  'SELECT', 'FROM', 'SET', 'VALUES', 'WHEN', 'THEN', 'AS',
+]);
+
+// Keywords reported as previousKeyword
+const CONTEXT_KEYWORDS = ['select', 'from', 'where', 'join', 'inner', 'left', 'right',
+                          'outer', 'on', 'group', 'by', 'order', 'having', 'as', 'and', 'or'];
+
+// Keywords that start a clause of a SELECT statement
+const CLAUSE_KEYWORDS = ['SELECT', 'FROM', 'JOIN', 'ON', 'WHERE', 'GROUP', 'HAVING', 'QUALIFY', 'ORDER', 'LIMIT'];
+
+// Clause keywords and the context they start
+const CLAUSE_CONTEXTS: Record<string, SQLContext> = {
+  SELECT: SQLContext.SELECT_LIST,
+  ON: SQLContext.JOIN_ON,
+  WHERE: SQLContext.WHERE_CLAUSE,
+  GROUP: SQLContext.GROUP_BY,
+  HAVING: SQLContext.HAVING_CLAUSE,
+  QUALIFY: SQLContext.QUALIFY_CLAUSE,
+  ORDER: SQLContext.ORDER_BY,
+};
+
+// Output columns of built-in table functions (empty if they depend on the arguments)
+const TABLE_FUNCTION_COLUMNS: Record<string, [string, string][]> = {
+  FLATTEN: [['SEQ', 'NUMBER'], ['KEY', 'VARCHAR'], ['PATH', 'VARCHAR'], ['INDEX', 'NUMBER'], ['VALUE', 'VARIANT'], ['THIS', 'VARIANT']],
+  SPLIT_TO_TABLE: [['SEQ', 'NUMBER'], ['INDEX', 'NUMBER'], ['VALUE', 'VARCHAR']],
+  STRTOK_SPLIT_TO_TABLE: [['SEQ', 'NUMBER'], ['INDEX', 'NUMBER'], ['VALUE', 'VARCHAR']],
+  GENERATOR: [],
+  RESULT_SCAN: [],
+};
+
+// Modifiers between CREATE [OR REPLACE] and the object kind
+const CREATE_MODIFIERS = ['TRANSIENT', 'TEMPORARY', 'TEMP', 'VOLATILE', 'LOCAL', 'GLOBAL', 'HYBRID'];
+
+// Object kinds whose properties are completed (FILE FORMAT is two words)
+const DDL_OBJECT_KINDS = ['TABLE', 'WAREHOUSE', 'STAGE', 'TASK'];
+
+// Words of a column definition that are followed by a value rather than another option
+const COLUMN_OPTION_VALUE_KEYWORDS = ['DEFAULT', 'COLLATE', 'COMMENT', 'REFERENCES', 'POLICY', 'TAG', 'AS', 'START', 'INCREMENT'];
+
+// Keywords that start a constraint or clause rather than a column in a column list or ALTER TABLE ADD
+const NON_COLUMN_KEYWORDS = ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'ROW', 'SEARCH', 'TAG'];
+
+// Keywords written before the name of an account object (USE ROLE, ALTER WAREHOUSE, ON DATABASE)
+const ACCOUNT_OBJECT_KEYWORDS: Record<string, AccountObjectKind> = {
+  WAREHOUSE: AccountObjectKind.WAREHOUSE,
+  ROLE: AccountObjectKind.ROLE,
+  USER: AccountObjectKind.USER,
+  DATABASE: AccountObjectKind.DATABASE,
+};
+
+// Properties whose value is an account object (CREATE TASK ... WAREHOUSE = name, ALTER USER SET DEFAULT_ROLE = name)
+const ACCOUNT_OBJECT_PROPERTIES: Record<string, AccountObjectKind> = {
+  WAREHOUSE: AccountObjectKind.WAREHOUSE,
+  DEFAULT_WAREHOUSE: AccountObjectKind.WAREHOUSE,
+  DEFAULT_ROLE: AccountObjectKind.ROLE,
+};
+
+// Keywords written before the name of an object GET_DDL can describe (ALTER TASK, ON SCHEMA); FILE FORMAT is two words
+const DDL_OBJECT_TYPE_KEYWORDS: Record<string, DdlObjectType> = {
+  DATABASE: DdlObjectType.DATABASE,
+  SCHEMA: DdlObjectType.SCHEMA,
+  TABLE: DdlObjectType.TABLE,
+  VIEW: DdlObjectType.VIEW,
+  FUNCTION: DdlObjectType.FUNCTION,
+  PROCEDURE: DdlObjectType.PROCEDURE,
+  SEQUENCE: DdlObjectType.SEQUENCE,
+  STAGE: DdlObjectType.STAGE,
+  TASK: DdlObjectType.TASK,
+  PIPE: DdlObjectType.PIPE,
+  STREAM: DdlObjectType.STREAM,
+  WAREHOUSE: DdlObjectType.WAREHOUSE,
+};
+
+// Keywords written before the name of a table or other schema object (FROM, CREATE TABLE ... CLONE); FILE FORMAT is two words
+const OBJECT_NAME_KEYWORDS = ['FROM', 'JOIN', 'INTO', 'UPDATE', 'USING', 'LIKE', 'CLONE', 'FORMAT',
+                              ...Object.keys(DDL_OBJECT_TYPE_KEYWORDS)];
+
+// Keywords that end a SELECT list
+const SELECT_LIST_END_KEYWORDS = ['FROM', 'WHERE', 'GROUP', 'HAVING', 'QUALIFY', 'ORDER', 'LIMIT',
+                                  'UNION', 'MINUS', 'EXCEPT', 'INTERSECT', 'WINDOW', 'INTO'];
+
+// Keywords that end an expression without being its alias (x IS NULL, CASE ... END)
+const NON_COLUMN_ALIAS_KEYWORDS = ['END', 'NULL', 'TRUE', 'FALSE'];
+
+// Keywords that need an operand after them, so the next word is not an alias
+const OPERAND_KEYWORDS = ['IS', 'NOT', 'AND', 'OR', 'LIKE', 'ILIKE', 'RLIKE', 'REGEXP', 'IN', 'BETWEEN',
+                          'CASE', 'WHEN', 'THEN', 'ELSE', 'DISTINCT', 'AS', 'ESCAPE'];
+
 /**
  * Parse SQL text and determine context at cursor position
+ * Only the statement containing the cursor is considered; inside Snowflake Scripting
+ * that is the statement nested in the block or $$ body.
+ * Pass already computed tokens, statements and scope trees (see DocumentCache) to avoid parsing the document again.
+ * `isDatabase` tells whether a name before a dot is a database (e.g. looked up in the schema cache).
+ */
+export function parseContext(
+  text: string,
+  position: number,
+  tokens: Token[] = tokenize(text),
+  statements: Statement[] = splitStatements(tokens, text.length),
+  scopeTree: (statement: Statement) => QueryScope = buildScopeTree,
+  isDatabase: (name: string) => boolean = () => false
+): ParsedContext {
+  // Bodies of EXECUTE IMMEDIATE and SQL procedures are parsed as SQL, not as a string
+  const body = findScriptBody(text, tokens, tokenIndexAt(tokens, position), position);
+  if (body) {
+    const bodyStatements = splitStatements(body.tokens, text.length);
+    return parseStatementContext(text, position, body.tokens, bodyStatements, body.arguments, scopeTree, isDatabase);
+  }
+  return parseStatementContext(text, position, tokens, statements, [], scopeTree, isDatabase);
+}
+
+/**
+ * Find the warehouse, role, user or database named at a position
+ * Names follow their kind keyword (USE WAREHOUSE, GRANT ... TO ROLE, ALTER USER IF EXISTS,
+ * ON DATABASE), plain USE, USE SECONDARY ROLES lists, and properties like DEFAULT_ROLE = name.
+ * The first part of DATABASE.SCHEMA.OBJECT where an object is named (FROM, JOIN, INTO, TABLE)
+ * and of schema names after SCHEMA is a database; in SCHEMA.TABLE.COLUMN it is not.
+ */
+export function findAccountObjectAt(text: string, position: number, tokens: Token[] = tokenize(text)): AccountObjectReference | null {
+  const body = findScriptBody(text, tokens, tokenIndexAt(tokens, position), position);
+  if (body) tokens = body.tokens;
+
+  const index = tokenIndexAt(tokens, position);
+  const word = findWordAt(tokens, index, position);
+  if (!word) return null;
+
+  const parts = tokens.slice(word.first, word.last + 1).filter(isIdentifier);
+  const part = parts.find(t => t.start <= position && position <= t.end);
+  if (!part) return null;
+  const partIndex = parts.indexOf(part);
+  const reference = (kind: AccountObjectKind): AccountObjectReference =>
+    ({ kind, name: resolveIdentifier(part), start: part.start, end: part.end });
+
+  const before = tokensBeforeName(tokens, word.first);
+  const last = before[before.length - 1];
+
+  if (parts.length === 1) {
+    if (isKeyword(last, ...Object.keys(ACCOUNT_OBJECT_KEYWORDS))) {
+      return reference(ACCOUNT_OBJECT_KEYWORDS[last.text.toUpperCase()]);
+    }
+    if (last?.type === TokenType.OPERATOR && last.text === '=' &&
+        isKeyword(before[before.length - 2], ...Object.keys(ACCOUNT_OBJECT_PROPERTIES))) {
+      return reference(ACCOUNT_OBJECT_PROPERTIES[before[before.length - 2].text.toUpperCase()]);
+    }
+    if (isSecondaryRoleList(before)) {
+      return reference(AccountObjectKind.ROLE);
+    }
+  }
+
+  // USE name and USE database.schema name a database first
+  const namesDatabase = (parts.length === 3 && isObjectNamePosition(before)) ||
+    (parts.length === 2 && isKeyword(last, 'SCHEMA')) ||
+    (parts.length <= 2 && isKeyword(last, 'USE') && before.length === 1);
+  return partIndex === 0 && namesDatabase ? reference(AccountObjectKind.DATABASE) : null;
+}
+
+/**
+ * Get the parts of the dotted name at a position and the index of the part under it
+ * Parts are in qualified name form: with the cursor on amount in o.amount, parts are O and
+ * AMOUNT and the index is 1. `end` is the offset after the whole name.
+ */
+export function findNamePartAt(text: string, position: number, tokens: Token[] = tokenize(text)): { parts: string[]; index: number; end: number } | null {
+  const body = findScriptBody(text, tokens, tokenIndexAt(tokens, position), position);
+  if (body) tokens = body.tokens;
+
+  const word = findWordAt(tokens, tokenIndexAt(tokens, position), position);
+  if (!word) return null;
+
+  const parts = tokens.slice(word.first, word.last + 1).filter(isIdentifier);
+  const index = parts.findIndex(t => t.start <= position && position <= t.end);
+  if (index === -1) return null;
+
+  return { parts: parts.map(t => makeQualifiedName(resolveIdentifier(t))), index, end: tokens[word.last].end };
+}
+
+/**
+ * Find the object named after its kind keyword at a position, for GET_DDL
+ * Covers CREATE, ALTER, DROP, DESCRIBE, GRANT ... ON and USE of databases, schemas, tables,
+ * views, functions, procedures, sequences, stages (also @name), tasks, pipes, streams, file
+ * formats and warehouses. Functions and procedures need their argument types written in
+ * parentheses after the name; in CREATE they are read from the argument definitions.
+ */
+export function findObjectReferenceAt(text: string, position: number, tokens: Token[] = tokenize(text)): ObjectReference | null {
+  const body = findScriptBody(text, tokens, tokenIndexAt(tokens, position), position);
+  if (body) tokens = body.tokens;
+
+  const word = findWordAt(tokens, tokenIndexAt(tokens, position), position);
+  if (!word) return null;
+
+  const parts = tokens.slice(word.first, word.last + 1).filter(isIdentifier);
+  if (parts.length === 0) return null;
+  const before = tokensBeforeName(tokens, word.first);
+  const last = before[before.length - 1];
+
+  let objectType: DdlObjectType | undefined;
+  if (endsWithKeywords(before, 'FILE', 'FORMAT')) {
+    objectType = DdlObjectType.FILE_FORMAT;
+  } else if (last?.type === TokenType.OPERATOR && last.text === '@' && last.end === tokens[word.first].start) {
+    objectType = DdlObjectType.STAGE;
+  } else if (isKeyword(last, ...Object.keys(DDL_OBJECT_TYPE_KEYWORDS))) {
+    objectType = DDL_OBJECT_TYPE_KEYWORDS[last.text.toUpperCase()];
+  }
+  if (!objectType) return null;
+
+  let name = makeQualifiedName(...parts.map(resolveIdentifier));
+  if (objectType === DdlObjectType.FUNCTION || objectType === DdlObjectType.PROCEDURE) {
+    const paren = tokens.findIndex((t, i) => i > word.last && isSignificant(t));
+    if (tokens[paren]?.type !== TokenType.LEFT_PAREN) return null;
+    const types = readArgumentTypes(tokens, paren, isKeyword(before[0], 'CREATE'));
+    if (!types) return null;
+    name += `(${types.join(', ')})`;
+  }
+
+  return { objectType, name, start: tokens[word.first].start, end: tokens[word.last].end };
+}
+
+/**
+ * Get the significant tokens of the statement before a name, without a trailing IF [NOT] EXISTS
+ */
+function tokensBeforeName(tokens: Token[], first: number): Token[] {
+  const before: Token[] = [];
+  for (let i = first - 1; i >= 0 && tokens[i].type !== TokenType.SEMICOLON; i--) {
+    if (isSignificant(tokens[i])) before.unshift(tokens[i]);
+  }
+  if (endsWithKeywords(before, 'IF', 'EXISTS')) before.splice(-2);
+  if (endsWithKeywords(before, 'IF', 'NOT', 'EXISTS')) before.splice(-3);
+  return before;
+}
+
+/**
+ * Read the argument types of a signature from the parentheses that start at an index
+ * Types lose their precision like in GET_DDL signatures: NUMBER(38, 0) is NUMBER.
+ * Definitions name each argument before its type and may give it a DEFAULT.
+ */
+function readArgumentTypes(tokens: Token[], paren: number, definition: boolean): string[] | null {
+  const args: Token[][] = [[]];
+  let depth = 0;
+
+  for (let i = paren + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === TokenType.SEMICOLON) return null;
+    if (!isSignificant(token)) continue;
+
+    if (token.type === TokenType.LEFT_PAREN) {
+      depth++;
+    } else if (token.type === TokenType.RIGHT_PAREN) {
+      if (depth === 0) {
+        return args
+          .map(arg => {
+            const end = arg.findIndex(t => isKeyword(t, 'DEFAULT'));
+            const type = arg.slice(definition ? 1 : 0, end === -1 ? arg.length : end);
+            return type.map(t => t.text.toUpperCase()).join(' ');
+          })
+          .filter(type => type.length > 0);
+      }
+      depth--;
+    } else if (depth === 0) {
+      if (token.type === TokenType.COMMA) {
+        args.push([]);
+      } else {
+        args[args.length - 1].push(token);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Determine context at cursor position from the tokens of a document or script body
+ */
+function parseStatementContext(
+  text: string,
+  position: number,
+  tokens: Token[],
+  statements: Statement[],
+  declared: ScriptVariable[],
+  scopeTree: (statement: Statement) => QueryScope,
+  isDatabase: (name: string) => boolean
+): ParsedContext {
+  const index = tokenIndexAt(tokens, position);
+  const cursorToken = index >= 0 ? tokens[index] : null;
+  let statement = statementAt(statements, position);
+
+  // Statements nested in a scripting block are parsed on their own; the block declares variables
+  const scriptVariables = new Map(declared.map(v => [v.name, v]));
+  if (isScriptingBlock(statement)) {
+    for (const variable of findScriptVariables(text, statement, position)) {
+      scriptVariables.set(variable.name, variable);
+    }
+    statement = statementAt(splitBlockStatements(statement), position);
+  }
+
+  // Extract current word at cursor
+  const word = findWordAt(tokens, index, position);
+  const currentWord = word ? tokens.slice(word.first, word.last + 1).map(t => t.text).join('') : '';
+  const wordStart = word ? tokens[word.first].start : position;
+  const wordEnd = word ? tokens[word.last].end : position;
+
+  // Significant tokens of the statement before the word being typed
+  const before = statement.tokens.filter(t => t.end <= wordStart && isSignificant(t));
+
+  // Find tables in scope (mentioned anywhere in the FROM/JOIN clauses of the query under the cursor)
+  // and their aliases, except for the name being typed
+  const scope = scopeAt(scopeTree(statement), position);
+  const { tables: tablesInScope, aliases, virtualTables } = collectVisibleRelations(scope, wordStart, wordEnd);
+
+  // UPDATE and MERGE targets (and MERGE sources) are in scope of the statement's own clauses
+  const significant = statement.tokens.filter(isSignificant);
+  const dml = findDmlTarget(significant, position, wordStart, wordEnd);
+  if (dml && !scope.parent && !isKeyword(significant[0], 'INSERT')) {
+    for (const ref of [{ name: dml.target.table, alias: dml.target.alias }, dml.target.source]) {
+      if (!ref) continue;
+      tablesInScope.push(ref.name);
+      if (ref.alias) aliases.set(ref.alias, ref.name);
+    }
+  }
+  const qualifier = word ? findQualifier(tokens, word.first, position) : null;
+
+  // Determine previous keyword
+  const previousKeyword = findPreviousKeyword(statement.tokens.filter(t => t.end <= position && isSignificant(t)));
+
+  const result = (context: SQLContext): ParsedContext => ({
+    context,
+    currentWord,
+    tablesInScope,
+    aliases,
+    qualifier,
+    previousKeyword,
+    cursorToken,
+    virtualTables,
+    scope,
+    scriptVariables,
+    dmlTarget: dml ? dml.target : null,
+    ddl: null,
+  });
+
+  // Nothing to complete inside strings and comments
+  if (cursorToken && isCursorInside(cursorToken, position, text.length)) {
+    return result(SQLContext.LITERAL);
+  }
+
+  // Session variable reference; the word is the variable name without $
+  const variable = findVariableAt(tokens, index, position);
+  if (variable) {
+    return { ...result(SQLContext.VARIABLE), currentWord: variable.text.substring(1) };
+  }
+
+  // Bind variable reference in Snowflake Scripting; the word is the name without :
+  const bind = findBindAt(tokens, index, position);
+  if (bind !== null) {
+    return { ...result(SQLContext.BIND_VARIABLE), currentWord: bind };
+  }
+
+  // Check for USE WAREHOUSE / ROLE / DATABASE context
+  if (endsWithKeywords(before, 'USE', 'WAREHOUSE')) {
+    return result(SQLContext.USE_WAREHOUSE);
+  }
+  if (endsWithKeywords(before, 'USE', 'ROLE') || isSecondaryRoleList(before)) {
+    return result(SQLContext.USE_ROLE);
+  }
+  // Plain USE <name> is shorthand for USE DATABASE
+  if (endsWithKeywords(before, 'USE', 'DATABASE') || endsWithKeywords(before, 'USE')) {
+    return result(SQLContext.USE_DATABASE);
+  }
+
+  // Check for GRANT ... TO ROLE / USER context
+  if (endsWithKeywords(before, 'TO', 'ROLE') && isKeyword(before[0], 'GRANT')) {
+    return result(SQLContext.GRANT_TO_ROLE);
+  }
+  if (endsWithKeywords(before, 'TO', 'USER') && isKeyword(before[0], 'GRANT')) {
+    return result(SQLContext.GRANT_TO_USER);
+  }
+
+  // Check for database.| or schema.| or table.| or alias.| pattern
+  if (qualifier) {
+    // Check if it's an alias first, then table, then database, otherwise assume schema
+    if (aliases.has(qualifier) || virtualTables.has(qualifier) ||
+        tablesInScope.some(t => t === qualifier || t.endsWith('.' + qualifier))) {
+      return result(SQLContext.TABLE_DOT);
+    }
+    const parts = parseQualifiedName(qualifier);
+    if (parts.length >= 3) {
+      return result(SQLContext.TABLE_DOT);
+    }
+    if (parts.length === 1 && isDatabase(qualifier)) {
+      return result(SQLContext.DATABASE_DOT);
+    }
+    return result(SQLContext.SCHEMA_DOT);
+  }
+
+  // Data types, column options and object properties of DDL statements
+  const ddl = findDdlClause(before);
+  if (ddl) {
+    return { ...result(ddl.context), ddl: ddl.clause };
+  }
+  const last = before[before.length - 1];
+  if ((last?.type === TokenType.OPERATOR && last.text === '::') || isCastType(before)) {
+    return result(SQLContext.DATA_TYPE);
+  }
+
+  // Column lists, VALUES tuples and SET assignments of DML statements
+  if (dml?.context !== undefined) {
+    return result(dml.context);
+  }
+
+  // Check for FROM/JOIN context, or a table written or read by a DML statement
+  if (isKeyword(last, 'FROM', 'JOIN', 'INTO') ||
+      (isKeyword(last, 'UPDATE') && before.length === 1) ||
+      (isKeyword(last, 'USING') && isKeyword(before[0], 'MERGE'))) {
+    return result(SQLContext.FROM_CLAUSE);
+  }
+
+  // Otherwise the most recent clause keyword of the query under the cursor decides,
+  // skipping over complete parenthesized groups such as subqueries
+  let depth = 0;
+  for (let i = before.length - 1; i >= 0 && before[i].start >= scope.start; i--) {
+    if (before[i].type === TokenType.RIGHT_PAREN) depth++;
+    else if (before[i].type === TokenType.LEFT_PAREN && depth > 0) depth--;
+    else if (depth === 0 && isKeyword(before[i], ...CLAUSE_KEYWORDS)) {
+      const keyword = before[i].text.toUpperCase();
+      // ON also appears outside of queries (GRANT ... ON ...)
+      if (keyword === 'ON' && !before.slice(0, i).some(t => isKeyword(t, 'JOIN', 'USING'))) break;
+      if (keyword in CLAUSE_CONTEXTS) return result(CLAUSE_CONTEXTS[keyword]);
+      break;
+    }
+  }
+
+  return result(SQLContext.GENERAL);
+}
+
+/**
+ * Find the data type, column option or property position of a CREATE or ALTER statement
+ * `before` are the significant tokens before the word at the cursor. Handles column
+ * definitions of CREATE TABLE (...) and ALTER TABLE ... ADD [COLUMN], ALTER COLUMN ... TYPE,
+ * and properties of CREATE and ALTER ... SET/UNSET, including nested lists like FILE_FORMAT = (...).
+ */
+function findDdlClause(before: Token[]): { context: SQLContext; clause: DdlClause | null } | null {
+  const create = isKeyword(before[0], 'CREATE');
+  if (!create && !isKeyword(before[0], 'ALTER')) return null;
+
+  let index = 1;
+  if (create) {
+    if (isKeyword(before[1], 'OR') && isKeyword(before[2], 'REPLACE')) index = 3;
+    while (isKeyword(before[index], ...CREATE_MODIFIERS)) index++;
+  }
+
+  let kind: string;
+  if (isKeyword(before[index], 'FILE') && isKeyword(before[index + 1], 'FORMAT')) {
+    kind = 'FILE FORMAT';
+    index += 2;
+  } else if (isKeyword(before[index], ...DDL_OBJECT_KINDS)) {
+    kind = before[index].text.toUpperCase();
+    index++;
+  } else {
+    return null;
+  }
+  if (isKeyword(before[index], 'IF')) index += create ? 3 : 2;
+
+  const name = readQualifiedName(before, index);
+  if (!name) return null;
+
+  // Open parentheses before the cursor, and whether the object's properties were started
+  const open: number[] = [];
+  let set = create;
+  for (let i = name.next; i < before.length; i++) {
+    if (before[i].type === TokenType.LEFT_PAREN) {
+      open.push(i);
+    } else if (before[i].type === TokenType.RIGHT_PAREN) {
+      open.pop();
+    } else if (open.length === 0 && isKeyword(before[i], 'AS')) {
+      // Queries of CREATE TABLE AS SELECT and task bodies are not DDL
+      return null;
+    } else if (open.length === 0 && isKeyword(before[i], 'SET', 'UNSET')) {
+      set = true;
+    }
+  }
+
+  // Column definitions of CREATE TABLE t (...)
+  if (create && kind === 'TABLE' && open[0] === name.next) {
+    return open.length === 1 ? readColumnDefinition(before, open[0]) : null;
+  }
+
+  // Column definitions of ALTER TABLE t ADD [COLUMN] ..., ALTER COLUMN c [SET DATA] TYPE and ALTER COLUMN c SET
+  if (!create && kind === 'TABLE' && open.length === 0) {
+    const last = before[before.length - 1];
+    if (isKeyword(last, 'TYPE')) {
+      return { context: SQLContext.DATA_TYPE, clause: null };
+    }
+    if (before.slice(name.next).some(t => isKeyword(t, 'ALTER', 'MODIFY'))) {
+      return isKeyword(last, 'SET', 'UNSET') ? { context: SQLContext.COLUMN_OPTION, clause: null } : null;
+    }
+    const add = before.map(t => isKeyword(t, 'ADD')).lastIndexOf(true);
+    if (add >= name.next && !set) {
+      let start = isKeyword(before[add + 1], 'COLUMN') ? add + 1 : add;
+      if (isKeyword(before[start + 1], 'IF')) start += 3;
+      return readColumnDefinition(before, start);
+    }
+  }
+
+  // Properties in parentheses belong to the property before them, e.g. FILE_FORMAT = (TYPE = CSV)
+  let levelKind = kind;
+  for (const paren of open) {
+    const property = before[paren - 2];
+    const nested = before[paren - 1]?.text === '=' && isIdentifier(property)
+      ? getObjectProperty(levelKind, property.text)?.nested
+      : undefined;
+    if (!nested) return null;
+    levelKind = nested;
+  }
+  if (!set) return null;
+
+  const last = before[before.length - 1];
+  const levelStart = open.length > 0 ? open[open.length - 1] : name.next - 1;
+  if (last.type === TokenType.OPERATOR && last.text === '=' && isIdentifier(before[before.length - 2])) {
+    return {
+      context: SQLContext.PROPERTY_VALUE,
+      clause: { objectKind: levelKind, property: before[before.length - 2].text.toUpperCase() },
+    };
+  }
+
+  // A property name follows the object name, [WITH], SET, a comma, a parenthesized value, or a complete value
+  if (before.length - 1 === levelStart || isKeyword(last, 'WITH', 'SET', 'UNSET') || last.type === TokenType.COMMA ||
+      last.type === TokenType.RIGHT_PAREN || before[before.length - 2]?.text === '=') {
+    return { context: SQLContext.OBJECT_PROPERTY, clause: { objectKind: levelKind, property: null } };
+  }
+  return null;
+}
+
+/**
+ * Read the column definition after `start` (an opening parenthesis, comma or ADD [COLUMN])
+ * A data type follows the column name; options follow the data type.
+ */
+function readColumnDefinition(before: Token[], start: number): { context: SQLContext; clause: null } | null {
+  // The definition starts after the last comma of the column list
+  let first = start + 1;
+  for (let i = before.length - 1, depth = 0; i > start; i--) {
+    if (before[i].type === TokenType.RIGHT_PAREN) depth++;
+    else if (before[i].type === TokenType.LEFT_PAREN) depth--;
+    else if (depth === 0 && before[i].type === TokenType.COMMA) {
+      first = i + 1;
+      break;
+    }
+  }
+
+  const definition = before.slice(first);
+  if (definition.length === 0 || isKeyword(definition[0], ...NON_COLUMN_KEYWORDS)) return null;
+  if (definition.length === 1) return { context: SQLContext.DATA_TYPE, clause: null };
+
+  // Not inside type parameters, or where an option's value goes
+  const depth = definition.reduce((d, t) =>
+    d + (t.type === TokenType.LEFT_PAREN ? 1 : t.type === TokenType.RIGHT_PAREN ? -1 : 0), 0);
+  const last = definition[definition.length - 1];
+  if (depth > 0 || isKeyword(last, ...COLUMN_OPTION_VALUE_KEYWORDS) || last.type === TokenType.OPERATOR) return null;
+  return { context: SQLContext.COLUMN_OPTION, clause: null };
+}
+
+/**
+ * Check if the cursor follows AS in CAST(expr AS or TRY_CAST(expr AS
+ */
+function isCastType(before: Token[]): boolean {
+  if (!isKeyword(before[before.length - 1], 'AS')) return false;
+
+  let depth = 0;
+  for (let i = before.length - 2; i > 0; i--) {
+    if (before[i].type === TokenType.RIGHT_PAREN) depth++;
+    else if (before[i].type === TokenType.LEFT_PAREN && depth-- === 0) {
+      return isKeyword(before[i - 1], 'CAST', 'TRY_CAST');
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the target of the INSERT, UPDATE or MERGE statement whose significant tokens are given
+ * Also returns the context if the cursor is in a column list, VALUES tuple or SET assignment.
+ * Handles: INSERT [OVERWRITE] INTO t [(cols)] {VALUES (...) [, ...] | SELECT ...},
+ * UPDATE t [[AS] alias] SET col = expr [, ...], and
+ * MERGE INTO t [[AS] alias] USING s [alias] ON ... WHEN ... THEN {INSERT [(cols)] VALUES (...) | UPDATE SET ...}
+ */
+function findDmlTarget(
+  tokens: Token[],
+  position: number,
+  wordStart: number,
+  wordEnd: number
+): { target: DmlTarget; context?: SQLContext } | null {
+  let index: number;
+  if (isKeyword(tokens[0], 'INSERT')) {
+    index = isKeyword(tokens[1], 'OVERWRITE') ? 2 : 1;
+    if (!isKeyword(tokens[index], 'INTO')) return null;
+    index++;
+  } else if (isKeyword(tokens[0], 'UPDATE')) {
+    index = 1;
+  } else if (isKeyword(tokens[0], 'MERGE') && isKeyword(tokens[1], 'INTO')) {
+    index = 2;
+  } else {
+    return null;
+  }
+
+  // The table name being typed is not a target yet
+  const name = readQualifiedName(tokens, index);
+  if (!name || name.parts[name.parts.length - 1].end >= wordStart) return null;
+
+  const target: DmlTarget = {
+    table: makeQualifiedName(...name.parts.map(resolveIdentifier)),
+    alias: null,
+    source: null,
+    insertColumns: null,
+    listedColumns: [],
+    valueIndex: null,
+  };
+  index = name.next;
+
+  if (isKeyword(tokens[0], 'INSERT')) {
+    return { target, context: readInsertClause(tokens, index, position, wordStart, wordEnd, target) };
+  }
+
+  const { alias, next } = readAlias(tokens, index);
+  target.alias = alias ? makeQualifiedName(resolveIdentifier(alias)) : null;
+  index = next;
+
+  if (isKeyword(tokens[0], 'UPDATE')) {
+    const context = isKeyword(tokens[index], 'SET') ? readSetClause(tokens, index, position, target) : undefined;
+    return { target, context };
+  }
+
+  // MERGE source table (subqueries are not tables)
+  const source = isKeyword(tokens[index], 'USING') ? readQualifiedName(tokens, index + 1) : null;
+  if (source && tokens[source.next]?.type !== TokenType.LEFT_PAREN && source.parts[source.parts.length - 1].end < wordStart) {
+    const { alias: sourceAlias } = readAlias(tokens, source.next);
+    target.source = {
+      name: makeQualifiedName(...source.parts.map(resolveIdentifier)),
+      alias: sourceAlias ? makeQualifiedName(resolveIdentifier(sourceAlias)) : null,
+      start: source.parts[0].start,
+      end: source.parts[source.parts.length - 1].end,
+    };
+  }
+
+  // The WHEN ... THEN INSERT or UPDATE action containing the cursor
+  for (let i = tokens.length - 1; i > index; i--) {
+    if (tokens[i].end > position || !isKeyword(tokens[i - 1], 'THEN')) continue;
+    if (isKeyword(tokens[i], 'INSERT')) {
+      return { target, context: readInsertClause(tokens, i + 1, position, wordStart, wordEnd, target) };
+    }
+    if (isKeyword(tokens[i], 'UPDATE') && isKeyword(tokens[i + 1], 'SET')) {
+      return { target, context: readSetClause(tokens, i + 1, position, target) };
+    }
+    break;
+  }
+  return { target };
+}
+
+/**
+ * Read the column list and values of an INSERT starting at `index` (after the target)
+ * Fills in the target's columns and value index; returns the context of the cursor, if inside.
+ */
+function readInsertClause(
+  tokens: Token[],
+  index: number,
+  position: number,
+  wordStart: number,
+  wordEnd: number,
+  target: DmlTarget
+): SQLContext | undefined {
+  let context: SQLContext | undefined;
+
+  if (tokens[index]?.type === TokenType.LEFT_PAREN) {
+    const close = findClosingParen(tokens, index);
+    const columns = tokens.slice(index + 1, close).filter(isIdentifier);
+    target.insertColumns = columns.map(resolveIdentifier);
+
+    if (position >= tokens[index].end && (close === tokens.length || position <= tokens[close].start)) {
+      target.listedColumns = columns
+        .filter(t => t.end < wordStart || t.start > wordEnd)
+        .map(resolveIdentifier);
+      context = SQLContext.INSERT_COLUMNS;
+    }
+    index = close + 1;
+  }
+
+  if (isKeyword(tokens[index], 'VALUES')) {
+    // Each row is a parenthesized tuple
+    for (index++; tokens[index]?.type === TokenType.LEFT_PAREN; index += 2) {
+      const close = findClosingParen(tokens, index);
+      if (position >= tokens[index].end && (close === tokens.length || position <= tokens[close].start)) {
+        target.valueIndex = countArguments(tokens, index + 1, position);
+        return SQLContext.INSERT_VALUES;
+      }
+      index = close;
+      if (tokens[index + 1]?.type !== TokenType.COMMA) break;
+    }
+    return context;
+  }
+
+  // INSERT ... [WITH ...] SELECT: the SELECT list of the top query level maps to the columns
+  let depth = 0;
+  for (let i = index; i < tokens.length && tokens[i].start < position; i++) {
+    if (tokens[i].type === TokenType.LEFT_PAREN) depth++;
+    else if (tokens[i].type === TokenType.RIGHT_PAREN) depth--;
+    else if (depth === 0 && isKeyword(tokens[i], 'SELECT')) {
+      const end = tokens.findIndex((t, j) => j > i && isKeyword(t, ...SELECT_LIST_END_KEYWORDS));
+      if (end === -1 || position <= tokens[end].start) {
+        const first = isKeyword(tokens[i + 1], 'DISTINCT', 'ALL') ? i + 2 : i + 1;
+        target.valueIndex = countArguments(tokens, first, position);
+      }
+      break;
+    }
+  }
+  return context;
+}
+
+/**
+ * Read the assignments of a SET clause at `index` up to the cursor
+ * Returns UPDATE_SET if the cursor is where a column name is expected, WHERE_CLAUSE in a value.
+ */
+function readSetClause(tokens: Token[], index: number, position: number, target: DmlTarget): SQLContext | undefined {
+  let depth = 0;
+  let expectColumn = true;
+  const assigned: string[] = [];
+
+  for (let i = index + 1; i < tokens.length && tokens[i].start < position; i++) {
+    const token = tokens[i];
+    if (token.type === TokenType.LEFT_PAREN) depth++;
+    else if (token.type === TokenType.RIGHT_PAREN) depth--;
+    else if (depth > 0) continue;
+    else if (isKeyword(token, 'FROM', 'WHERE', 'WHEN')) return undefined;
+    else if (token.type === TokenType.COMMA) expectColumn = true;
+    else if (token.type === TokenType.OPERATOR && token.text === '=') expectColumn = false;
+    else if (expectColumn && isIdentifier(token) && token.end < position && tokens[i + 1]?.type !== TokenType.DOT) {
+      assigned.push(resolveIdentifier(token));
+    }
+  }
+
+  // The assigned value is an expression over the tables in scope, like a WHERE condition
+  if (!expectColumn) return SQLContext.WHERE_CLAUSE;
+  target.listedColumns = assigned;
+  return SQLContext.UPDATE_SET;
+}
+
+/**
+ * Count the arguments before the cursor in a comma separated list starting at `index`
+ * Commas inside parentheses belong to nested expressions and don't count.
+ */
+function countArguments(tokens: Token[], index: number, position: number): number {
+  let depth = 0;
+  let commas = 0;
+  for (let i = index; i < tokens.length && tokens[i].end <= position; i++) {
+    if (tokens[i].type === TokenType.LEFT_PAREN) depth++;
+    else if (tokens[i].type === TokenType.RIGHT_PAREN) depth--;
+    else if (depth === 0 && tokens[i].type === TokenType.COMMA) commas++;
+  }
+  return commas;
+}
+
+/**
+ * Find the dotted name (e.g. schema.table) touching the cursor
+ * Returns the indices of its first and last token
+ */
+function findWordAt(tokens: Token[], index: number, position: number): { first: number; last: number } | null {
+  const isWordToken = (token: Token | undefined) => isIdentifier(token) || token?.type === TokenType.DOT;
+
+  let first: number;
+  if (index >= 0 && isWordToken(tokens[index]) && tokens[index].start < position) {
+    first = index;
+  } else if (isWordToken(tokens[index + 1]) && tokens[index + 1].start === position) {
+    first = index + 1;
+  } else {
+    return null;
+  }
+
+  let last = first;
+  while (first > 0 && isWordToken(tokens[first - 1])) first--;
+  while (last < tokens.length - 1 && isWordToken(tokens[last + 1])) last++;
+
+  return { first, last };
+}
+
+/**
+ * Find the session variable token ($name, or a lone $ being typed) at the cursor
+ */
+function findVariableAt(tokens: Token[], index: number, position: number): Token | null {
+  const isVariable = (token: Token | undefined) =>
+    token?.type === TokenType.VARIABLE || (token?.type === TokenType.UNKNOWN && token.text === '$');
+
+  if (index >= 0 && isVariable(tokens[index]) && tokens[index].start < position) {
+    return tokens[index];
+  }
+  if (isVariable(tokens[index + 1]) && tokens[index + 1].start === position) {
+    return tokens[index + 1];
+  }
+  return null;
+}
+
+/**
+ * Get the name before the last dot that precedes the cursor, in qualified name form
+ * Returns null if the word at the cursor is not qualified
+ */
+function findQualifier(tokens: Token[], first: number, position: number): string | null {
+  let lastDot = -1;
+  for (let i = first; i < tokens.length && tokens[i].end <= position; i++) {
+    if (tokens[i].type === TokenType.DOT) lastDot = i;
+  }
+  if (lastDot === -1) return null;
+
+  const parts = tokens.slice(first, lastDot).filter(isIdentifier).map(resolveIdentifier);
+  return parts.length > 0 ? makeQualifiedName(...parts) : null;
+}
+
+/**
+ * Check if the cursor is inside a string literal or comment token
+ */
+function isCursorInside(token: Token, position: number, textLength: number): boolean {
+  if (!isLiteralOrComment(token) || position <= token.start) return false;
+  if (position < token.end) return true;
+
+  // At the end of the token: only a line comment or unterminated token still contains the cursor
+  if (token.type === TokenType.LINE_COMMENT) return true;
+  return token.end === textLength && isUnterminated(token);
+}
+
+/**
+ * Check if a string or comment token is missing its closing delimiter
  */
-export function parseContext(text: string, position: number): ParsedContext {
-  const beforeCursor = text.substring(0, position);
-  const textLower = beforeCursor.toLowerCase();
+function isUnterminated(token: Token): boolean {
+  switch (token.type) {
+    case TokenType.STRING:
+      return token.text.length < 2 || !token.text.endsWith('\'');
+    case TokenType.DOLLAR_STRING:
+      return token.text.length < 4 || !token.text.endsWith('$$');
+    case TokenType.BLOCK_COMMENT:
+      return token.text.length < 4 || !token.text.endsWith('*/');
+    default:
+      return false;
+  }
+}
 
-  // Extract current word at cursor
-  const currentWord = extractCurrentWord(text, position);
+/**
+ * Check if the last significant tokens are exactly the given keywords
+ */
+function endsWithKeywords(tokens: Token[], ...keywords: string[]): boolean {
+  if (tokens.length < keywords.length) return false;
 
-  // Find tables in scope (mentioned in FROM/JOIN clauses) and their aliases
-  const { tables: tablesInScope, aliases } = extractTablesAndAliases(beforeCursor);
+  const offset = tokens.length - keywords.length;
+  return keywords.every((kw, i) => isKeyword(tokens[offset + i], kw));
+}
 
-  // Determine previous keyword
-  const previousKeyword = findPreviousKeyword(beforeCursor);
-
-  // Determine context based on patterns
-  let context = SQLContext.GENERAL;
-
-  // Check for USE WAREHOUSE context
-  if (/\buse\s+warehouse\s+[^;\s]*$/i.test(textLower)) {
-    context = SQLContext.USE_WAREHOUSE;
-  }
-  // Check for USE ROLE context
-  else if (/\buse\s+role\s+[^;\s]*$/i.test(textLower)) {
-    context = SQLContext.USE_ROLE;
-  }
-  // Check for USE DATABASE context
-  else if (/\buse\s+database\s+[^;\s]*$/i.test(textLower)) {
-    context = SQLContext.USE_DATABASE;
-  }
-  // Check for USE (shorthand) context - treat as DATABASE
-  else if (/\buse\s+[^;\s]*$/i.test(textLower) && !/\buse\s+(schema|warehouse|role|database)\b/i.test(textLower)) {
-    context = SQLContext.USE_DATABASE;
-  }
-  // Check for GRANT ... TO ROLE context
-  else if (/\bgrant\b.*\bto\s+role\s+[^;\s]*$/i.test(textLower)) {
-    context = SQLContext.GRANT_TO_ROLE;
-  }
-  // Check for GRANT ... TO USER context
-  else if (/\bgrant\b.*\bto\s+user\s+[^;\s]*$/i.test(textLower)) {
-    context = SQLContext.GRANT_TO_USER;
-  }
-  // Check for schema.| or table.| or alias.| pattern
-  else if (/(\w+)\.\s*$/i.test(beforeCursor)) {
-    const match = beforeCursor.match(/(\w+)\.\s*$/i);
-    if (match) {
-      const identifier = match[1].toLowerCase();
-      // Check if it's an alias first, then table, otherwise assume schema
-      if (aliases.has(identifier)) {
-        context = SQLContext.TABLE_DOT;
-      } else if (tablesInScope.some(t => t.toLowerCase().includes(identifier))) {
-        context = SQLContext.TABLE_DOT;
+/**
+ * Find the previous SQL keyword before cursor
+ */
+function findPreviousKeyword(tokens: Token[]): string | null {
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.type === TokenType.IDENTIFIER && CONTEXT_KEYWORDS.includes(token.text.toLowerCase())) {
+      return token.text.toLowerCase();
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split tokens into statements at semicolons
+ * Semicolons inside strings and comments are separate tokens already; semicolons inside
+ * Snowflake Scripting blocks (DECLARE ... BEGIN ... END) do not end the statement.
+ * There is always a final statement after the last semicolon, which may be empty.
+ * Splitting can begin at a statement boundary (`from`), and end early at the first
+ * semicolon for which `stop` returns true; the statement it ends is the last one returned.
+ */
+export function splitStatements(
+  tokens: Token[],
+  textLength: number,
+  from: { index: number; offset: number } = { index: 0, offset: 0 },
+  stop?: (semicolon: Token, index: number) => boolean
+): Statement[] {
+  const statements: Statement[] = [];
+  let current: Token[] = [];
+  let start = from.offset;
+  let blockDepth = 0;
+  let pendingDeclare = false;  // DECLARE section seen, its BEGIN not yet
+  let previous: Token | undefined;
+
+  const significantAfter = (i: number): Token | undefined => {
+    for (let j = i + 1; j < tokens.length; j++) {
+      if (isSignificant(tokens[j])) return tokens[j];
+    }
+    return undefined;
+  };
+
+  for (let i = from.index; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === TokenType.SEMICOLON && blockDepth === 0 && !pendingDeclare) {
+      statements.push({ start, end: token.start, tokens: current });
+      if (stop?.(token, i)) return statements;
+      current = [];
+      start = token.end;
+      previous = token;
+      continue;
+    }
+
+    current.push(token);
+    if (!isSignificant(token)) continue;
+
+    // Dotted names and expressions like t.begin or x.end are not block keywords
+    if (token.type === TokenType.IDENTIFIER && previous?.type !== TokenType.DOT) {
+      const next = significantAfter(i);
+      if (isKeyword(token, 'DECLARE') && blockDepth === 0) {
+        pendingDeclare = true;
+      } else if (isKeyword(token, 'BEGIN')) {
+        // BEGIN [TRANSACTION | WORK | NAME ...] starts a transaction, not a block
+        if (next && next.type !== TokenType.SEMICOLON && !isKeyword(next, 'TRANSACTION', 'WORK', 'NAME')) {
+          blockDepth++;
+          pendingDeclare = false;
+        }
+      } else if (isKeyword(token, 'CASE') && blockDepth > 0) {
+        blockDepth++;
+      } else if (isKeyword(token, 'END') && blockDepth > 0) {
+        // END IF, END LOOP, ... close constructs that don't change the depth
+        if (!isKeyword(next, 'IF', 'LOOP', 'FOR', 'WHILE', 'REPEAT')) {
+          blockDepth--;
+        }
+      }
+    }
+
+    previous = token;
+  }
+
+  statements.push({ start, end: textLength, tokens: current });
+  return statements;
+}
+
+/**
+ * Find the statement containing an offset
+ * An offset directly after a semicolon belongs to the following statement.
+ */
+export function statementAt(statements: Statement[], position: number): Statement {
+  for (const statement of statements) {
+    if (position >= statement.start && position <= statement.end) {
+      return statement;
+    }
+  }
+  return statements[statements.length - 1];
+}
+
+/**
+ * Read a dotted object name starting at significant token `index`
+ * Returns the name tokens and the index after the name, or null if there is no name
+ */
+function readQualifiedName(tokens: Token[], index: number): { parts: Token[]; next: number } | null {
+  if (!isIdentifier(tokens[index])) return null;
+
+  const parts = [tokens[index]];
+  let next = index + 1;
+  while (tokens[next]?.type === TokenType.DOT && isIdentifier(tokens[next + 1])) {
+    parts.push(tokens[next + 1]);
+    next += 2;
+  }
+
+  return { parts, next };
+}
+
+/**
+ * Skip an optional [AS] alias at `index`
+ * Returns the alias token (if any) and the index after it
+ */
+function readAlias(tokens: Token[], index: number): { alias: Token | null; next: number } {
+  const hasAs = isKeyword(tokens[index], 'AS');
+  const candidate = tokens[hasAs ? index + 1 : index];
+  if (isIdentifier(candidate) && !isKeyword(candidate, ...NON_ALIAS_KEYWORDS)) {
+    return { alias: candidate, next: (hasAs ? index + 1 : index) + 1 };
+  }
+  return { alias: null, next: hasAs ? index + 1 : index };
+}
+
+/**
+ * Extract table references from FROM and JOIN clauses of a single query level
+ * Parenthesized groups are expected to be collapsed (see buildScope), so references
+ * inside subqueries are not included.
+ * Handles: FROM table, FROM table alias, FROM table AS alias, FROM a, b
+ */
+function extractTableReferences(tokens: Token[]): TableReference[] {
+  const refs: TableReference[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isKeyword(tokens[i], 'FROM', 'JOIN')) continue;
+
+    let index = i + 1;
+    while (index < tokens.length) {
+      if (isKeyword(tokens[index], 'LATERAL')) index++;
+
+      if (tokens[index]?.type === TokenType.LEFT_PAREN) {
+        // Derived table: (SELECT ...) alias
+        index = readAlias(tokens, findClosingParen(tokens, index) + 1).next;
       } else {
-        context = SQLContext.SCHEMA_DOT;
+        const name = readQualifiedName(tokens, index);
+        if (!name || (name.parts.length === 1 && isKeyword(name.parts[0], ...NON_ALIAS_KEYWORDS))) break;
+
+        if (tokens[name.next]?.type === TokenType.LEFT_PAREN) {
+          // Table functions like TABLE(...) or FLATTEN(...) are not table names
+          index = readAlias(tokens, findClosingParen(tokens, name.next) + 1).next;
+        } else {
+          const { alias, next } = readAlias(tokens, name.next);
+          refs.push({
+            name: makeQualifiedName(...name.parts.map(resolveIdentifier)),
+            alias: alias ? makeQualifiedName(resolveIdentifier(alias)) : null,
+            start: name.parts[0].start,
+            end: name.parts[name.parts.length - 1].end,
+          });
+          index = next;
+        }
       }
+
+      // Comma separated tables only continue a FROM list
+      if (!isKeyword(tokens[i], 'FROM') || tokens[index]?.type !== TokenType.COMMA) break;
+      index++;
     }
   }
-  // Check for FROM/JOIN context
-  else if (/\b(from|join)\s+[^,;\s]*$/i.test(textLower)) {
-    context = SQLContext.FROM_CLAUSE;
+
+  return refs;
+}
+
+/**
+ * Find the index of the parenthesis closing the one at `open`
+ * Returns tokens.length if the parenthesis is not closed yet.
+ */
+function findClosingParen(tokens: Token[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i].type === TokenType.LEFT_PAREN) depth++;
+    else if (tokens[i].type === TokenType.RIGHT_PAREN && --depth === 0) return i;
+  }
+  return tokens.length;
+}
+
+/**
+ * Build the tree of query scopes of a statement
+ * The root scope covers the whole statement; every parenthesized SELECT becomes a child scope.
+ */
+export function buildScopeTree(statement: Statement): QueryScope {
+  return buildScope(statement.tokens.filter(isSignificant), null, statement.start, statement.end, false);
+}
+
+/**
+ * Build the scope of one query level from its significant tokens
+ */
+function buildScope(
+  tokens: Token[],
+  parent: QueryScope | null,
+  start: number,
+  end: number,
+  correlated: boolean
+): QueryScope {
+  const scope: QueryScope = {
+    start,
+    end,
+    parent,
+    children: [],
+    correlated,
+    tables: [],
+    derivedTables: [],
+    ctes: [],
+  };
+
+  // Collapse parenthesized groups to "()" so only this level's clauses remain
+  const own: Token[] = [];
+  const groups = new Map<Token, ParenGroup>();
+  for (let i = 0; i < tokens.length; i++) {
+    own.push(tokens[i]);
+    if (tokens[i].type !== TokenType.LEFT_PAREN) continue;
+
+    const close = findClosingParen(tokens, i);
+    const inner = tokens.slice(i + 1, close);
+    const groupEnd = close < tokens.length ? tokens[close].start : end;
+    groups.set(tokens[i], { tokens: inner, scope: addNestedScopes(inner, scope, tokens[i].end, groupEnd) });
+
+    if (close < tokens.length) own.push(tokens[close]);
+    i = close;
   }
-  // Check for WHERE context
-  else if (/\bwhere\b/i.test(textLower) &&
-           !/(group\s+by|order\s+by|having)/i.test(textLower.substring(textLower.lastIndexOf('where')))) {
-    context = SQLContext.WHERE_CLAUSE;
+
+  scope.tables = extractTableReferences(own);
+  scope.ctes = readCommonTableExpressions(own, groups);
+  scope.derivedTables = [...readDerivedTables(own, groups), ...readTableFunctions(own, groups, scope)];
+  return scope;
+}
+
+/**
+ * Add scopes for the queries inside a parenthesized group
+ * Returns the group's own scope if the group itself is a query.
+ */
+function addNestedScopes(tokens: Token[], parent: QueryScope, start: number, end: number): QueryScope | null {
+  if (isKeyword(tokens[0], 'SELECT', 'WITH')) {
+    const child = buildScope(tokens, parent, start, end, true);
+    parent.children.push(child);
+    return child;
   }
-  // Check for SELECT context (between SELECT and FROM)
-  else if (/\bselect\b/i.test(textLower) && !/\bfrom\b/i.test(textLower)) {
-    context = SQLContext.SELECT_LIST;
+
+  // Expressions such as COALESCE((SELECT ...), 0) may contain queries deeper down
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== TokenType.LEFT_PAREN) continue;
+    const close = findClosingParen(tokens, i);
+    addNestedScopes(tokens.slice(i + 1, close), parent, tokens[i].end, close < tokens.length ? tokens[close].start : end);
+    i = close;
   }
 
-  return {
-    context,
-    currentWord,
-    tablesInScope,
-    aliases,
-    previousKeyword,
+  return null;
+}
+
+/**
+ * Read common table expressions from the WITH clause of a query level
+ * Handles: WITH [RECURSIVE] name [(col, ...)] AS (query) [, ...]
+ */
+function readCommonTableExpressions(tokens: Token[], groups: Map<Token, ParenGroup>): VirtualTable[] {
+  const ctes: VirtualTable[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isKeyword(tokens[i], 'WITH')) continue;
+
+    let index = isKeyword(tokens[i + 1], 'RECURSIVE') ? i + 2 : i + 1;
+    while (isIdentifier(tokens[index])) {
+      const nameToken = tokens[index++];
+
+      // Optional explicit column names
+      let columnAliases: string[] | null = null;
+      const columnGroup = groups.get(tokens[index]);
+      if (columnGroup) {
+        columnAliases = columnGroup.tokens.filter(isIdentifier).map(resolveIdentifier);
+        index = findClosingParen(tokens, index) + 1;
+      }
+
+      const body = isKeyword(tokens[index], 'AS') ? groups.get(tokens[index + 1]) : undefined;
+      if (!body?.scope) break;
+      body.scope.correlated = false;
+
+      ctes.push({
+        name: makeQualifiedName(resolveIdentifier(nameToken)),
+        kind: VirtualTableKind.CTE,
+        columns: parseProjection(body.tokens),
+        columnAliases,
+        scope: body.scope,
+        start: nameToken.start,
+        end: nameToken.end,
+      });
+
+      index = findClosingParen(tokens, index + 1) + 1;
+      if (tokens[index]?.type !== TokenType.COMMA) break;
+      index++;
+    }
+  }
+
+  return ctes;
+}
+
+/**
+ * Read derived tables from the FROM clause of a query level
+ * Handles: FROM (SELECT ...) [AS] alias [(col, ...)], also after JOIN, commas and LATERAL
+ */
+function readDerivedTables(tokens: Token[], groups: Map<Token, ParenGroup>): VirtualTable[] {
+  const derived: VirtualTable[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    const group = groups.get(tokens[i]);
+    if (!group?.scope) continue;
+
+    const previous = tokens[i - 1];
+    const inFromList = previous.type === TokenType.COMMA && isInFromClause(tokens, i - 1);
+    if (!isKeyword(previous, 'FROM', 'JOIN', 'LATERAL') && !inFromList) continue;
+
+    // Only LATERAL subqueries can see the other tables of the FROM clause
+    group.scope.correlated = isKeyword(previous, 'LATERAL');
+
+    const close = findClosingParen(tokens, i);
+    const { alias, next } = readAlias(tokens, close + 1);
+    if (!alias) continue;
+
+    const columnGroup = groups.get(tokens[next]);
+    derived.push({
+      name: makeQualifiedName(resolveIdentifier(alias)),
+      kind: VirtualTableKind.DERIVED_TABLE,
+      columns: parseProjection(group.tokens),
+      columnAliases: columnGroup ? columnGroup.tokens.filter(isIdentifier).map(resolveIdentifier) : null,
+      scope: group.scope,
+      start: alias.start,
+      end: alias.end,
+    });
+  }
+
+  return derived;
+}
+
+/**
+ * Read table functions in the FROM clause of a query level
+ * Handles: TABLE(fn(...)) [alias] and [LATERAL] fn(...) [alias], e.g. LATERAL FLATTEN(input => x) f.
+ * Built-in functions expose their known output columns.
+ */
+function readTableFunctions(tokens: Token[], groups: Map<Token, ParenGroup>, scope: QueryScope): VirtualTable[] {
+  const functions: VirtualTable[] = [];
+
+  for (let i = 1; i < tokens.length - 1; i++) {
+    const previous = tokens[i - 1];
+    const inFromList = previous.type === TokenType.COMMA && isInFromClause(tokens, i - 1);
+    if (!isKeyword(previous, 'FROM', 'JOIN', 'LATERAL') && !inFromList) continue;
+
+    const group = groups.get(tokens[i + 1]);
+    if (!isIdentifier(tokens[i]) || !group) continue;
+
+    // TABLE(fn(...)) wraps the function call
+    let nameToken = tokens[i];
+    if (isKeyword(nameToken, 'TABLE')) {
+      if (!isIdentifier(group.tokens[0]) || group.tokens[1]?.type !== TokenType.LEFT_PAREN) continue;
+      nameToken = group.tokens[0];
+    }
+
+    const functionName = resolveIdentifier(nameToken);
+    const { alias } = readAlias(tokens, findClosingParen(tokens, i + 1) + 1);
+    const name = makeQualifiedName(alias ? resolveIdentifier(alias) : functionName);
+    const columns = (TABLE_FUNCTION_COLUMNS[functionName] || [])
+      .map(([column, dataType]) => ({ name: column, qualifier: null, sourceColumn: null, dataType }));
+
+    functions.push({
+      name,
+      kind: VirtualTableKind.TABLE_FUNCTION,
+      columns,
+      columnAliases: null,
+      scope,
+      start: (alias || nameToken).start,
+      end: (alias || nameToken).end,
+      functionName,
+    });
+  }
+
+  return functions;
+}
+
+/**
+ * Check if the token at `index` of a query level belongs to its FROM clause
+ */
+function isInFromClause(tokens: Token[], index: number): boolean {
+  for (let i = index; i >= 0; i--) {
+    if (isKeyword(tokens[i], 'FROM')) return true;
+    if (isKeyword(tokens[i], ...SELECT_LIST_END_KEYWORDS, 'SELECT', 'ON', 'USING')) return false;
+  }
+  return false;
+}
+
+/**
+ * Copy a scope tree with all offsets moved by `delta`, for a statement that moved in an edit
+ */
+export function moveScopeTree(root: QueryScope, delta: number): QueryScope {
+  const copies = new Map<QueryScope, QueryScope>();
+  const copyScope = (scope: QueryScope, parent: QueryScope | null): QueryScope => {
+    const copy: QueryScope = {
+      ...scope,
+      start: scope.start + delta,
+      end: scope.end + delta,
+      parent,
+      tables: scope.tables.map(ref => ({ ...ref, start: ref.start + delta, end: ref.end + delta })),
+    };
+    copies.set(scope, copy);
+    copy.children = scope.children.map(child => copyScope(child, copy));
+    return copy;
   };
+
+  // Virtual tables refer to scopes of the same tree: their defining query, or the enclosing one
+  const copyVirtualTable = (table: VirtualTable): VirtualTable => ({
+    ...table,
+    start: table.start + delta,
+    end: table.end + delta,
+    scope: copies.get(table.scope) || table.scope,
+  });
+
+  const copy = copyScope(root, root.parent);
+  for (const [scope, scopeCopy] of copies) {
+    scopeCopy.derivedTables = scope.derivedTables.map(copyVirtualTable);
+    scopeCopy.ctes = scope.ctes.map(copyVirtualTable);
+  }
+  return copy;
+}
+
+/**
+ * Find the innermost scope containing an offset
+ */
+export function scopeAt(root: QueryScope, position: number): QueryScope {
+  for (const child of root.children) {
+    if (position >= child.start && position <= child.end) {
+      return scopeAt(child, position);
+    }
+  }
+  return root;
+}
+
+/**
+ * List a scope and all scopes nested in it
+ */
+export function flattenScopes(root: QueryScope): QueryScope[] {
+  return [root, ...root.children.flatMap(flattenScopes)];
+}
+
+/**
+ * Find a CTE visible from a scope (defined at its level or any enclosing level)
+ * The name must be in qualified name form.
+ */
+export function findCommonTableExpression(scope: QueryScope, name: string): VirtualTable | undefined {
+  for (let current: QueryScope | null = scope; current; current = current.parent) {
+    const cte = current.ctes.find(c => c.name === name);
+    if (cte) return cte;
+  }
+  return undefined;
 }
 
 /**
- * Extract the current word at cursor position
+ * Infer the output columns of a query from its first SELECT list
+ * Expressions without a name (e.g. COUNT(*) without an alias) are skipped.
  */
-function extractCurrentWord(text: string, position: number): string {
-  const before = text.substring(0, position);
-  const after = text.substring(position);
+export function parseProjection(tokens: Token[]): ProjectedColumn[] {
+  const significant = tokens.filter(isSignificant);
+  const columns: ProjectedColumn[] = [];
 
-  // Find word boundary before cursor
-  const beforeMatch = before.match(/[\w.]*$/);
-  const beforePart = beforeMatch ? beforeMatch[0] : '';
+  // Find the first SELECT outside parentheses
+  let depth = 0;
+  let index = significant.findIndex(t => {
+    if (t.type === TokenType.LEFT_PAREN) depth++;
+    else if (t.type === TokenType.RIGHT_PAREN) depth--;
+    return depth === 0 && isKeyword(t, 'SELECT');
+  });
+  if (index === -1) return columns;
+  index++;
 
-  // Find word boundary after cursor
-  const afterMatch = after.match(/^[\w.]*/);
-  const afterPart = afterMatch ? afterMatch[0] : '';
+  // Skip set quantifier and TOP <n>
+  if (isKeyword(significant[index], 'DISTINCT', 'ALL')) index++;
+  if (isKeyword(significant[index], 'TOP')) index += 2;
+
+  // Split the list at top level commas
+  let item: Token[] = [];
+  depth = 0;
+  for (; index <= significant.length; index++) {
+    const token = significant[index];
+    const atTopLevel = depth === 0;
+    if (!token || (atTopLevel && (token.type === TokenType.COMMA || isKeyword(token, ...SELECT_LIST_END_KEYWORDS)))) {
+      const column = projectedColumn(item);
+      if (column) columns.push(column);
+      item = [];
+      if (!token || token.type !== TokenType.COMMA) break;
+      continue;
+    }
+    if (token.type === TokenType.LEFT_PAREN) depth++;
+    else if (token.type === TokenType.RIGHT_PAREN) depth--;
+    item.push(token);
+  }
 
-  return beforePart + afterPart;
+  return columns;
 }
 
 /**
- * Find the previous SQL keyword before cursor
+ * Determine the output column of a single SELECT list item
  */
-function findPreviousKeyword(text: string): string | null {
-  const keywords = ['select', 'from', 'where', 'join', 'inner', 'left', 'right',
-                    'outer', 'on', 'group', 'by', 'order', 'having', 'as', 'and', 'or'];
+function projectedColumn(item: Token[]): ProjectedColumn | null {
+  if (item.length === 0) return null;
+
+  const last = item[item.length - 1];
+  const previous = item[item.length - 2];
 
-  const words = text.toLowerCase().split(/\s+/);
+  // * or t.*
+  if (last.text === '*' && (item.length === 1 || (item.length === 3 && previous.type === TokenType.DOT))) {
+    return { name: '*', qualifier: item.length === 3 ? makeQualifiedName(resolveIdentifier(item[0])) : null, sourceColumn: null };
+  }
+
+  // Plain column reference: col or t.col or schema.t.col
+  const isPlainReference = item.every((t, i) => i % 2 === 0 ? isIdentifier(t) : t.type === TokenType.DOT);
+  if (isPlainReference && item.length % 2 === 1) {
+    const column = resolveIdentifier(last);
+    const qualifier = item.length > 1 ? makeQualifiedName(resolveIdentifier(item[item.length - 3])) : null;
+    return { name: column, qualifier, sourceColumn: column };
+  }
+
+  if (!isIdentifier(last) || isKeyword(last, ...NON_COLUMN_ALIAS_KEYWORDS)) return null;
 
-  for (let i = words.length - 1; i >= 0; i--) {
-    if (keywords.includes(words[i])) {
-      return words[i];
+  // Aliased expression: expr AS alias, or expr alias
+  const expression = isKeyword(previous, 'AS') ? item.slice(0, -2) : item.slice(0, -1);
+  if (!isKeyword(previous, 'AS')) {
+    if (!previous || previous.type === TokenType.DOT || previous.type === TokenType.OPERATOR ||
+        previous.type === TokenType.LEFT_PAREN || isKeyword(previous, ...OPERAND_KEYWORDS)) {
+      return null;
     }
   }
 
-  return null;
+  // Keep the source column of renamed plain references for type lookup
+  const renamed = expression.length > 0 && expression.length % 2 === 1 &&
+                  expression.every((t, i) => i % 2 === 0 ? isIdentifier(t) : t.type === TokenType.DOT);
+  return {
+    name: resolveIdentifier(last),
+    qualifier: renamed && expression.length > 1 ? makeQualifiedName(resolveIdentifier(expression[expression.length - 3])) : null,
+    sourceColumn: renamed ? resolveIdentifier(expression[expression.length - 1]) : null,
+  };
 }
 
 /**
- * Extract table names and aliases from FROM and JOIN clauses
+ * Collect the tables, aliases and virtual tables visible from a scope
+ * Inner names shadow outer ones; correlated subqueries also see the tables of enclosing queries.
+ * References starting inside the excluded range (the name being typed) are skipped.
  */
-function extractTablesAndAliases(text: string): { tables: string[]; aliases: Map<string, string> } {
+function collectVisibleRelations(
+  scope: QueryScope,
+  excludeStart: number,
+  excludeEnd: number
+): { tables: string[]; aliases: Map<string, string>; virtualTables: Map<string, VirtualTable> } {
   const tables: string[] = [];
   const aliases = new Map<string, string>();
-  const textLower = text.toLowerCase();
+  const virtualTables = new Map<string, VirtualTable>();
+
+  for (let current: QueryScope | null = scope; current; current = current.correlated ? current.parent : null) {
+    for (const ref of current.tables) {
+      if (ref.end >= excludeStart && ref.start <= excludeEnd) continue;
 
-  // Match FROM table_name [AS] alias or FROM table_name
-  // Handles: FROM table, FROM table alias, FROM table AS alias
-  const fromPattern = /\bfrom\s+([\w.]+)(?:\s+(?:as\s+)?(\w+))?/gi;
-  let match;
-  while ((match = fromPattern.exec(textLower)) !== null) {
-    const tableName = match[1];
-    const alias = match[2];
+      tables.push(ref.name);
 
-    tables.push(tableName);
+      if (ref.alias) {
+        if (!aliases.has(ref.alias)) aliases.set(ref.alias, ref.name);
+        tables.push(ref.alias);
+      }
+    }
 
-    if (alias && alias !== 'where' && alias !== 'join' && alias !== 'left' && alias !== 'right' && alias !== 'inner' && alias !== 'outer') {
-      aliases.set(alias, tableName);
-      tables.push(alias);
+    // Derived tables are known by their alias only
+    for (const derived of current.derivedTables) {
+      if (!aliases.has(derived.name)) aliases.set(derived.name, derived.name);
+      if (!virtualTables.has(derived.name)) virtualTables.set(derived.name, derived);
+      tables.push(derived.name);
     }
   }
 
-  // Match JOIN table_name [AS] alias or JOIN table_name
-  const joinPattern = /\bjoin\s+([\w.]+)(?:\s+(?:as\s+)?(\w+))?/gi;
-  while ((match = joinPattern.exec(textLower)) !== null) {
-    const tableName = match[1];
-    const alias = match[2];
-
-    tables.push(tableName);
-
-    if (alias && alias !== 'on' && alias !== 'where' && alias !== 'join' && alias !== 'left' && alias !== 'right' && alias !== 'inner' && alias !== 'outer') {
-      aliases.set(alias, tableName);
-      tables.push(alias);
+  // CTEs are visible from every nested level
+  for (let current: QueryScope | null = scope; current; current = current.parent) {
+    for (const cte of current.ctes) {
+      if (!virtualTables.has(cte.name)) virtualTables.set(cte.name, cte);
     }
   }
 
-  return { tables, aliases };
+  return { tables, aliases, virtualTables };
 }
 
 /**
  * Get SQL keywords for autocomplete
+ * Built-in functions are completed from the function catalog (see functions.ts).
  */
 export function getSQLKeywords(): string[] {
   return [
@@ -190,10 +1622,9 @@ export function getSQLKeywords(): string[] {
     'GROUP', 'BY', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET',
     'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE',
     'CREATE', 'TABLE', 'VIEW', 'DROP', 'ALTER', 'ADD', 'COLUMN',
-    'DISTINCT', 'COUNT', 'SUM', 'AVG', 'MIN', 'MAX',
-    'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
-    'CAST', 'COALESCE', 'NULLIF', 'IS', 'NULL',
+    'DISTINCT', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'IS', 'NULL',
     'WITH', 'UNION', 'ALL', 'INTERSECT', 'EXCEPT',
+    'QUALIFY', 'LATERAL', 'ASC', 'DESC', 'OVER', 'PARTITION', 'WITHIN',
   ];
 }
 
@@ -206,69 +1637,303 @@ export function isLikelyKeyword(word: string): boolean {
 }
 
 /**
- * Parse USE commands from SQL text
- * Detects: USE DATABASE, USE SCHEMA, USE WAREHOUSE, USE ROLE
- * Also handles shorthand: USE <name> → USE DATABASE <name>
- * And qualified: USE SCHEMA db.schema → USE DATABASE db + USE SCHEMA schema
+ * Parse session commands from SQL text, in document order
+ * Detects: USE [DATABASE] name, USE SCHEMA [db.]schema, USE WAREHOUSE, USE ROLE,
+ * USE SECONDARY ROLES { ALL | NONE | role, ... }, ALTER SESSION SET/UNSET SEARCH_PATH
+ * and session variables: SET name = value, SET (a, b) = (1, 2), UNSET name, UNSET (a, b).
+ * Names may be quoted or given as IDENTIFIER('name'); a qualified schema
+ * (USE SCHEMA db.schema) yields USE DATABASE db + USE SCHEMA schema.
  */
-export function parseUseCommands(text: string): UseCommand[] {
+export function parseUseCommands(
+  text: string,
+  tokens: Token[] = tokenize(text),
+  statements: Statement[] = splitStatements(tokens, text.length)
+): UseCommand[] {
   const commands: UseCommand[] = [];
-  const lines = text.split('\n');
+  const lines = { offset: 0, line: 0 };
+
+  for (const statement of statements) {
+    // Session commands must start a statement
+    const first = statement.tokens.find(isSignificant);
+    if (!first || !isKeyword(first, 'USE', 'ALTER', 'SET', 'UNSET')) continue;
+    const significant = statement.tokens.filter(isSignificant);
+
+    const line = lineAt(text, significant[0].start, lines);
+    const push = (type: UseCommandType, value: string, variable?: SessionVariable) => {
+      commands.push({ type, value, line, offset: statement.end, variable });
+    };
+
+    if (isKeyword(significant[0], 'USE')) {
+      readUseCommand(significant, push);
+    } else if (isKeyword(significant[0], 'ALTER') && isKeyword(significant[1], 'SESSION')) {
+      readAlterSession(significant, push);
+    } else if (isKeyword(significant[0], 'SET')) {
+      readSetVariables(text, significant, line, push);
+    } else if (isKeyword(significant[0], 'UNSET')) {
+      for (const name of readVariableNames(significant, 1) || []) {
+        push(UseCommandType.UNSET_VARIABLE, name);
+      }
+    }
+  }
+
+  return commands;
+}
+
+/**
+ * Read the variable assignments of a SET statement
+ */
+function readSetVariables(
+  text: string,
+  tokens: Token[],
+  line: number,
+  push: (type: UseCommandType, value: string, variable: SessionVariable) => void
+): void {
+  const names = readVariableNames(tokens, 1);
+  if (!names) return;
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+  const equals = tokens.findIndex(t => t.text === '=');
+  if (equals === -1 || equals === tokens.length - 1) return;
 
-    // Skip single-line comments
-    if (/^\s*--/.test(line)) continue;
+  // SET (a, b) = (x, y) assigns the items of the value list by position
+  let values = [tokens.slice(equals + 1)];
+  if (names.length > 1 || tokens[1].type === TokenType.LEFT_PAREN) {
+    if (tokens[equals + 1].type !== TokenType.LEFT_PAREN) return;
+    values = splitTopLevel(tokens.slice(equals + 2, findClosingParen(tokens, equals + 1)));
+  }
+
+  names.forEach((name, i) => {
+    const value = values[i];
+    if (!value || value.length === 0) return;
+    push(UseCommandType.SET_VARIABLE, name, {
+      name,
+      value: text.substring(value[0].start, value[value.length - 1].end),
+      dataType: inferValueType(value),
+      line,
+    });
+  });
+}
+
+/**
+ * Read a variable name or parenthesized list of names at `index`
+ */
+function readVariableNames(tokens: Token[], index: number): string[] | null {
+  if (isIdentifier(tokens[index])) {
+    return [resolveIdentifier(tokens[index])];
+  }
+  if (tokens[index]?.type !== TokenType.LEFT_PAREN) return null;
 
-    // Skip multi-line comments (simple check)
-    if (/^\s*\/\*/.test(line)) continue;
+  const names = splitTopLevel(tokens.slice(index + 1, findClosingParen(tokens, index)))
+    .filter(item => item.length === 1 && isIdentifier(item[0]))
+    .map(item => resolveIdentifier(item[0]));
+  return names.length > 0 ? names : null;
+}
 
-    // Match USE patterns (case-insensitive)
-    // Order matters: check specific patterns first, then shorthand
+/**
+ * Split tokens on commas outside of parentheses
+ */
+function splitTopLevel(tokens: Token[]): Token[][] {
+  const items: Token[][] = [[]];
+  let depth = 0;
 
-    // USE DATABASE <name>
-    const useDb = line.match(/USE\s+DATABASE\s+(\w+)/i);
-    if (useDb) {
-      commands.push({ type: UseCommandType.DATABASE, value: useDb[1], line: i });
+  for (const token of tokens) {
+    if (token.type === TokenType.LEFT_PAREN) depth++;
+    if (token.type === TokenType.RIGHT_PAREN) depth--;
+    if (token.type === TokenType.COMMA && depth === 0) {
+      items.push([]);
       continue;
     }
+    items[items.length - 1].push(token);
+  }
 
-    // USE SCHEMA <name> or USE SCHEMA <db>.<schema>
-    const useSchema = line.match(/USE\s+SCHEMA\s+([\w.]+)/i);
-    if (useSchema) {
-      // Handle qualified: PROD.ANALYTICS → DATABASE=PROD, SCHEMA=ANALYTICS
-      const parts = useSchema[1].split('.');
-      if (parts.length === 2) {
-        commands.push({ type: UseCommandType.DATABASE, value: parts[0], line: i });
-        commands.push({ type: UseCommandType.SCHEMA, value: parts[1], line: i });
-      } else {
-        commands.push({ type: UseCommandType.SCHEMA, value: useSchema[1], line: i });
-      }
-      continue;
+  return items;
+}
+
+/**
+ * Infer the data type of a variable value from literals and casts
+ * Returns UNKNOWN for other expressions.
+ */
+function inferValueType(tokens: Token[]): string {
+  // Explicit cast: value::TYPE
+  const cast = tokens.map(t => t.text).lastIndexOf('::');
+  if (cast !== -1 && isIdentifier(tokens[cast + 1])) {
+    return tokens[cast + 1].text.toUpperCase();
+  }
+
+  // Literal, optionally signed: 'text', 42, -1.5, TRUE, NULL
+  const signed = tokens.length === 2 && (tokens[0].text === '-' || tokens[0].text === '+');
+  const literal = signed ? tokens[1] : tokens.length === 1 ? tokens[0] : null;
+  if (!literal) return 'UNKNOWN';
+
+  switch (literal.type) {
+    case TokenType.STRING:
+    case TokenType.DOLLAR_STRING:
+      return 'VARCHAR';
+    case TokenType.NUMBER:
+      return /[eE]/.test(literal.text) ? 'FLOAT' : 'NUMBER';
+    case TokenType.IDENTIFIER:
+      if (isKeyword(literal, 'TRUE', 'FALSE')) return 'BOOLEAN';
+      if (isKeyword(literal, 'NULL')) return 'NULL';
+      return 'UNKNOWN';
+    default:
+      return 'UNKNOWN';
+  }
+}
+
+/**
+ * Read the commands of a USE statement
+ */
+function readUseCommand(tokens: Token[], push: (type: UseCommandType, value: string) => void): void {
+  if (isKeyword(tokens[1], 'SECONDARY') && isKeyword(tokens[2], 'ROLES')) {
+    const roles = readSecondaryRoles(tokens, 3);
+    if (roles) push(UseCommandType.SECONDARY_ROLES, roles);
+    return;
+  }
+
+  let index = 1;
+  let type: UseCommandType | null = null;
+  if (isKeyword(tokens[index], 'DATABASE')) type = UseCommandType.DATABASE;
+  else if (isKeyword(tokens[index], 'SCHEMA')) type = UseCommandType.SCHEMA;
+  else if (isKeyword(tokens[index], 'WAREHOUSE')) type = UseCommandType.WAREHOUSE;
+  else if (isKeyword(tokens[index], 'ROLE')) type = UseCommandType.ROLE;
+
+  if (type) {
+    // Incomplete command such as "USE ROLE;"
+    if (!isIdentifier(tokens[index + 1])) return;
+    index++;
+  }
+
+  const parts = readObjectName(tokens, index);
+  if (!parts) return;
+
+  if (type === UseCommandType.SCHEMA || type === null) {
+    // Handle qualified: PROD.ANALYTICS → DATABASE=PROD, SCHEMA=ANALYTICS
+    if (parts.length === 2) {
+      push(UseCommandType.DATABASE, parts[0]);
+      push(UseCommandType.SCHEMA, parts[1]);
+    } else {
+      // Shorthand: USE <name> → USE DATABASE <name>
+      push(type ?? UseCommandType.DATABASE, parts[0]);
     }
+  } else {
+    push(type, parts[0]);
+  }
+}
 
-    // USE WAREHOUSE <name>
-    const useWh = line.match(/USE\s+WAREHOUSE\s+(\w+)/i);
-    if (useWh) {
-      commands.push({ type: UseCommandType.WAREHOUSE, value: useWh[1], line: i });
-      continue;
+/**
+ * Read the role list of USE SECONDARY ROLES starting at `index`
+ * Returns ALL, NONE or the comma separated role names, or null if incomplete
+ */
+function readSecondaryRoles(tokens: Token[], index: number): string | null {
+  if (isKeyword(tokens[index], 'ALL', 'NONE')) {
+    return tokens[index].text.toUpperCase();
+  }
+
+  const roles: string[] = [];
+  while (isIdentifier(tokens[index])) {
+    roles.push(makeQualifiedName(resolveIdentifier(tokens[index])));
+    if (tokens[index + 1]?.type !== TokenType.COMMA) break;
+    index += 2;
+  }
+
+  return roles.length > 0 ? roles.join(', ') : null;
+}
+
+/**
+ * Read the session parameters of ALTER SESSION SET / UNSET that affect name resolution
+ * Other parameters are skipped.
+ */
+function readAlterSession(tokens: Token[], push: (type: UseCommandType, value: string) => void): void {
+  if (isKeyword(tokens[2], 'UNSET')) {
+    // UNSET param [, param ...] restores the default
+    if (tokens.slice(3).some(token => isKeyword(token, 'SEARCH_PATH'))) {
+      push(UseCommandType.SEARCH_PATH, DEFAULT_SEARCH_PATH);
     }
+    return;
+  }
+  if (!isKeyword(tokens[2], 'SET')) return;
 
-    // USE ROLE <name>
-    const useRole = line.match(/USE\s+ROLE\s+(\w+)/i);
-    if (useRole) {
-      commands.push({ type: UseCommandType.ROLE, value: useRole[1], line: i });
+  // SET param = value [[,] param = value ...]
+  let index = 3;
+  while (index < tokens.length) {
+    if (tokens[index].type === TokenType.COMMA) {
+      index++;
       continue;
     }
+    if (!isIdentifier(tokens[index]) || tokens[index + 1]?.text !== '=' || !tokens[index + 2]) return;
 
-    // Shorthand: USE <name> → USE DATABASE <name>
-    // Only match if none of the specific patterns matched
-    const useShort = line.match(/USE\s+(\w+)/i);
-    if (useShort) {
-      commands.push({ type: UseCommandType.DATABASE, value: useShort[1], line: i });
+    const value = tokens[index + 2];
+    if (isKeyword(tokens[index], 'SEARCH_PATH') && value.type === TokenType.STRING) {
+      push(UseCommandType.SEARCH_PATH, stringValue(value));
     }
+    index += 3;
   }
+}
 
-  return commands;
+/**
+ * Read an object name (name, db.name or IDENTIFIER('db.name')) into resolved name parts
+ */
+function readObjectName(tokens: Token[], index: number): string[] | null {
+  if (isKeyword(tokens[index], 'IDENTIFIER') && tokens[index + 1]?.type === TokenType.LEFT_PAREN) {
+    // IDENTIFIER($var) cannot be resolved statically
+    const literal = tokens[index + 2];
+    if (literal?.type !== TokenType.STRING) return null;
+    const parts = parseQualifiedName(stringValue(literal));
+    return parts.length > 0 ? parts : null;
+  }
+
+  const name = readQualifiedName(tokens, index);
+  return name ? name.parts.map(resolveIdentifier) : null;
+}
+
+/**
+ * Get the content of a string literal token
+ */
+function stringValue(token: Token): string {
+  const closed = token.text.length > 1 && token.text.endsWith('\'');
+  return token.text
+    .substring(1, closed ? token.text.length - 1 : token.text.length)
+    .replace(/''/g, '\'')
+    .replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Check if the tokens before a name make it the name of a schema object
+ * That is after an object keyword, or after a comma in a FROM list (FROM a, db.s.t).
+ */
+function isObjectNamePosition(before: Token[]): boolean {
+  const last = before[before.length - 1];
+  if (isKeyword(last, ...OBJECT_NAME_KEYWORDS)) return true;
+  if (last?.type !== TokenType.COMMA) return false;
+
+  // The clause the comma belongs to, skipping parenthesized groups
+  let depth = 0;
+  for (let i = before.length - 2; i >= 0; i--) {
+    const token = before[i];
+    if (token.type === TokenType.RIGHT_PAREN) depth++;
+    else if (token.type === TokenType.LEFT_PAREN && --depth < 0) return false;
+    else if (depth === 0 && isKeyword(token, ...CLAUSE_KEYWORDS, ...SELECT_LIST_END_KEYWORDS)) return isKeyword(token, 'FROM');
+  }
+  return false;
+}
+
+/**
+ * Check if the tokens before the cursor are USE SECONDARY ROLES with an open role list
+ */
+function isSecondaryRoleList(before: Token[]): boolean {
+  if (!isKeyword(before[0], 'USE') || !isKeyword(before[1], 'SECONDARY') || !isKeyword(before[2], 'ROLES')) {
+    return false;
+  }
+  return before.length === 3 || before[before.length - 1].type === TokenType.COMMA;
+}
+
+/**
+ * Get the zero-based line number of an offset
+ * Lines are counted from the last offset looked up, so increasing offsets are cheap.
+ */
+function lineAt(text: string, offset: number, from: { offset: number; line: number }): number {
+  for (let i = text.indexOf('\n', from.offset); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) {
+    from.line++;
+  }
+  from.offset = offset;
+  return from.line;
 }
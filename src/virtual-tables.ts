@@ -0,0 +1,100 @@
+import { ColumnInfo } from './snowflake';
+import { SchemaCache } from './schema-cache';
+import { ParsedContext, TableReference, VirtualTable, findCommonTableExpression } from './sql-parser';
+
+// Guard against CTEs that (indirectly) select from themselves
+const MAX_RESOLVE_DEPTH = 10;
+
+/**
+ * Resolve the columns of a virtual table (CTE or derived table) from its SELECT list
+ * Star expansion and column types come from the tables, CTEs and derived tables
+ * the defining query reads from.
+ */
+export function resolveVirtualColumns(
+  table: VirtualTable,
+  schemaCache: SchemaCache,
+  depth: number = 0
+): ColumnInfo[] {
+  if (depth > MAX_RESOLVE_DEPTH) return [];
+
+  const columns: ColumnInfo[] = [];
+  const scope = table.scope;
+
+  const sourceColumns = (qualifier: string | null): ColumnInfo[] => [
+    ...findSources(scope.tables, qualifier).flatMap(ref => {
+      const cte = ref.name.includes('.') ? undefined : findCommonTableExpression(scope, ref.name);
+      if (cte && cte !== table) {
+        return resolveVirtualColumns(cte, schemaCache, depth + 1);
+      }
+      return schemaCache.getTableColumns(ref.name);
+    }),
+    ...scope.derivedTables
+      .filter(derived => !qualifier || derived.name === qualifier)
+      .flatMap(derived => resolveVirtualColumns(derived, schemaCache, depth + 1)),
+  ];
+
+  for (const projected of table.columns) {
+    if (projected.name === '*') {
+      for (const column of sourceColumns(projected.qualifier)) {
+        columns.push(virtualColumn(table, column.columnName, column));
+      }
+      continue;
+    }
+
+    const source = projected.sourceColumn
+      ? sourceColumns(projected.qualifier).find(c => c.columnName === projected.sourceColumn)
+      : undefined;
+    columns.push(virtualColumn(table, projected.name, source, projected.dataType));
+  }
+
+  // Explicit column names rename the inferred columns by position
+  if (table.columnAliases) {
+    return table.columnAliases.map((alias, i) => virtualColumn(table, alias, columns[i]));
+  }
+
+  return columns;
+}
+
+/**
+ * Get the columns of a table, alias, CTE or derived table visible in the parsed context
+ * The name must be in qualified name form (see normalizeName).
+ */
+export function lookupColumns(name: string, parsed: ParsedContext, schemaCache: SchemaCache): ColumnInfo[] {
+  const tableName = parsed.aliases.get(name) || name;
+
+  const virtual = parsed.virtualTables.get(tableName);
+  if (virtual) {
+    return resolveVirtualColumns(virtual, schemaCache);
+  }
+
+  return schemaCache.getTableColumns(tableName);
+}
+
+/**
+ * Find the table references a qualifier points to (all references if unqualified)
+ */
+function findSources(refs: TableReference[], qualifier: string | null): TableReference[] {
+  if (!qualifier) return refs;
+
+  return refs.filter(ref =>
+    ref.alias === qualifier || ref.name === qualifier || ref.name.endsWith('.' + qualifier)
+  );
+}
+
+/**
+ * Create column info for a virtual table column, copying type details from its source
+ */
+function virtualColumn(table: VirtualTable, name: string, source?: ColumnInfo, dataType?: string): ColumnInfo {
+  return {
+    catalog: '',
+    schema: '',
+    tableName: table.name,
+    columnName: name,
+    dataType: source?.dataType || dataType || 'UNKNOWN',
+    isNullable: source?.isNullable || 'YES',
+    columnDefault: null,
+    comment: source?.comment || null,
+    kind: 'COLUMN',
+    autoincrement: null,
+  };
+}